@@ -0,0 +1,105 @@
+// Service worker: caches the app shell so the installed app opens offline,
+// and shows Web Push notifications for new messages.
+//
+// Push payload (JSON): { title, body, url?, tag?, icon? } — `url` is a same-origin
+// path such as /home/chat or /admin?conversation=<id>.
+
+const SHELL_CACHE = 'app-shell-v1'
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/vite.svg']
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE).then((cache) => cache.addAll(SHELL_URLS)).then(() => self.skipWaiting()),
+  )
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== SHELL_CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  )
+})
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  if (request.method !== 'GET') return
+
+  const url = new URL(request.url)
+  // API calls, sockets and third-party requests always go straight to the network
+  if (url.origin !== self.location.origin) return
+  if (url.pathname.startsWith('/api/') || url.pathname.startsWith('/socket.io/')) return
+
+  // SPA navigations: network first so deploys are picked up, cached shell when offline
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          const copy = response.clone()
+          caches.open(SHELL_CACHE).then((cache) => cache.put('/index.html', copy))
+          return response
+        })
+        .catch(() => caches.match('/index.html')),
+    )
+    return
+  }
+
+  // Vite emits content-hashed files under /assets, so they never change once cached
+  if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(
+      caches.match(request).then((cached) => cached || fetch(request).then((response) => {
+        if (response.ok) {
+          const copy = response.clone()
+          caches.open(SHELL_CACHE).then((cache) => cache.put(request, copy))
+        }
+        return response
+      })),
+    )
+  }
+})
+
+function sameOriginPath(raw) {
+  try {
+    const url = new URL(raw || '/', self.location.origin)
+    return url.origin === self.location.origin ? url.pathname + url.search + url.hash : '/'
+  } catch {
+    return '/'
+  }
+}
+
+self.addEventListener('push', (event) => {
+  let payload = {}
+  try {
+    payload = event.data ? event.data.json() : {}
+  } catch {
+    payload = { body: event.data ? event.data.text() : '' }
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || 'New message', {
+      body: payload.body || '',
+      icon: payload.icon || '/vite.svg',
+      badge: '/vite.svg',
+      tag: payload.tag,
+      renotify: !!payload.tag,
+      data: { url: sameOriginPath(payload.url) },
+    }),
+  )
+})
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close()
+  const url = (event.notification.data && event.notification.data.url) || '/'
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => new URL(client.url).origin === self.location.origin)
+      if (existing) {
+        // Let the open app route in-place instead of reloading it
+        existing.postMessage({ type: 'notification:navigate', url })
+        return existing.focus()
+      }
+      return self.clients.openWindow(url)
+    }),
+  )
+})
@@ -1,4 +1,4 @@
-import { lazy, Suspense, useEffect } from 'react'
+import { lazy, Suspense, useEffect, useRef, useState } from 'react'
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom'
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { Toaster } from '@/components/ui/sonner'
@@ -6,11 +6,16 @@ import { TooltipProvider } from '@/components/ui/tooltip'
 import { ErrorBoundary } from '@/components/ErrorBoundary'
 import { useAuthStore } from '@/stores/authStore'
 import { useSocketConnection } from '@/hooks/useSocket'
+import { useOutboxReplay } from '@/hooks/useOutbox'
+import { useNotificationCenter } from '@/hooks/useNotificationCenter'
+import { useBrandManifest, useNotificationNavigation } from '@/hooks/usePwa'
 import { ApiError } from '@/lib/api'
+import { restoreQueryCache, persistQueryCache } from '@/lib/queryPersist'
 import type { Role, Status } from '@/lib/schemas'
 import { LeafLogo } from '@/components/ui/LeafLogo'
 
 const LoginPage = lazy(() => import('@/pages/LoginPage').then((m) => ({ default: m.LoginPage })))
+const MagicLinkPage = lazy(() => import('@/pages/MagicLinkPage').then((m) => ({ default: m.MagicLinkPage })))
 const RegisterPage = lazy(() => import('@/pages/RegisterPage').then((m) => ({ default: m.RegisterPage })))
 const ForgotPasswordPage = lazy(() => import('@/pages/ForgotPasswordPage').then((m) => ({ default: m.ForgotPasswordPage })))
 const ResetPasswordPage = lazy(() => import('@/pages/ResetPasswordPage').then((m) => ({ default: m.ResetPasswordPage })))
@@ -25,6 +30,7 @@ const ConversationsPage = lazy(() => import('@/pages/admin/ConversationsPage').t
 const UsersPage = lazy(() => import('@/pages/admin/UsersPage').then((m) => ({ default: m.UsersPage })))
 const AdminsPage = lazy(() => import('@/pages/admin/AdminsPage').then((m) => ({ default: m.AdminsPage })))
 const AuditPage = lazy(() => import('@/pages/admin/AuditPage').then((m) => ({ default: m.AuditPage })))
+const SavedRepliesPage = lazy(() => import('@/pages/admin/SavedRepliesPage').then((m) => ({ default: m.SavedRepliesPage })))
 const AnnouncementsPage = lazy(() => import('@/pages/admin/AnnouncementsPage').then((m) => ({ default: m.AnnouncementsPage })))
 const AnnouncementEditorPage = lazy(() => import('@/pages/admin/AnnouncementEditorPage').then((m) => ({ default: m.AnnouncementEditorPage })))
 const InternalChatPage = lazy(() => import('@/pages/admin/InternalChatPage').then((m) => ({ default: m.InternalChatPage })))
@@ -110,12 +116,46 @@ function RootRoute() {
 
 function SocketProvider({ children }: { children: React.ReactNode }) {
   useSocketConnection()
+  useOutboxReplay()
+  useNotificationCenter()
+  return <>{children}</>
+}
+
+// Restores the signed-in user's cached conversations/messages/announcements before
+// the routes mount, then keeps the IndexedDB snapshot up to date
+function QueryCachePersistence({ children }: { children: React.ReactNode }) {
+  const userId = useAuthStore((s) => (s.isAuthenticated ? s.user?.id : undefined))
+  const [restoredFor, setRestoredFor] = useState<string | undefined>()
+  const lastUserId = useRef(userId)
+
+  useEffect(() => {
+    // Never carry one account's cache into the next session in this tab
+    if (lastUserId.current && lastUserId.current !== userId) queryClient.clear()
+    lastUserId.current = userId
+    if (!userId) return
+
+    let cancelled = false
+    let stop: (() => void) | undefined
+    restoreQueryCache(queryClient, userId).finally(() => {
+      if (cancelled) return
+      stop = persistQueryCache(queryClient, userId)
+      setRestoredFor(userId)
+    })
+    return () => {
+      cancelled = true
+      stop?.()
+    }
+  }, [userId])
+
+  if (userId && restoredFor !== userId) return <PageLoader />
   return <>{children}</>
 }
 
 function AppInit({ children }: { children: React.ReactNode }) {
   const refreshUser = useAuthStore((s) => s.refreshUser)
   const isAuthenticated = useAuthStore((s) => s.isAuthenticated)
+  useBrandManifest()
+  useNotificationNavigation()
 
   useEffect(() => {
     if (isAuthenticated) refreshUser()
@@ -131,53 +171,57 @@ export function App() {
         <TooltipProvider>
           <BrowserRouter future={{ v7_startTransition: true, v7_relativeSplatPath: true }}>
             <AppInit>
-              <SocketProvider>
-                <Suspense fallback={<PageLoader />}>
-                  <Routes>
-                    <Route path="/login" element={<RouteGuard config={{ guestOnly: true }}><LoginPage /></RouteGuard>} />
-                    <Route path="/register" element={<RouteGuard config={{ guestOnly: true }}><RegisterPage /></RouteGuard>} />
-                    <Route path="/forgot-password" element={<RouteGuard config={{ guestOnly: true }}><ForgotPasswordPage /></RouteGuard>} />
-                    <Route path="/reset-password" element={<RouteGuard config={{ guestOnly: true }}><ResetPasswordPage /></RouteGuard>} />
-                    <Route path="/status" element={<RouteGuard config={{ requireAuth: true }}><StatusPage /></RouteGuard>} />
-
-                    {/* Admin Routes */}
-                    <Route path="/admin" element={<RouteGuard config={{ requireAuth: true, requireStatus: 'APPROVED', requireRole: ['ADMIN', 'SUPER_ADMIN'] }}><AdminLayout /></RouteGuard>}>
-                      <Route index element={<ConversationsPage />} />
-                      <Route path="home" element={<HomePage />} />
-                      <Route path="users" element={<UsersPage />} />
-                      <Route path="users/:userId" element={<UserDetailPage />} />
-                      <Route path="admins" element={<RouteGuard config={{ requireRole: 'SUPER_ADMIN' }}><AdminsPage /></RouteGuard>} />
-                      <Route path="announcements" element={<AnnouncementsPage />} />
-                      <Route path="announcements/new" element={<AnnouncementEditorPage />} />
-                      <Route path="announcements/:id" element={<AnnouncementViewPage />} />
-                      <Route path="announcements/:id/edit" element={<AnnouncementEditorPage />} />
-                      <Route path="dm" element={<DMPage />} />
-                      <Route path="internal" element={<InternalChatPage />} />
-                      <Route path="audit" element={<RouteGuard config={{ requireRole: 'SUPER_ADMIN' }}><AuditPage /></RouteGuard>} />
-                      <Route path="settings" element={<SettingsPage />} />
-                    </Route>
-
-                    {/* User Routes */}
-                    <Route path="/home" element={<RouteGuard config={{ requireAuth: true, requireStatus: 'APPROVED', requireRole: 'USER' }}><UserLayout /></RouteGuard>}>
-                      <Route index element={<HomePage />} />
-                      <Route path="chat" element={<ChatPage />} />
-                      <Route path="announcements" element={<UserAnnouncementsPage />} />
-                      <Route path="announcements/:id" element={<AnnouncementViewPage />} />
-                      <Route path="settings" element={<SettingsPage />} />
-                    </Route>
-
-                    {/* Legacy redirects for backward compatibility */}
-                    <Route path="/chat" element={<Navigate to="/home/chat" replace />} />
-
-                    <Route path="/terms" element={<TermsPage />} />
-                    <Route path="/privacy" element={<PrivacyPage />} />
-                    <Route path="/faq" element={<FAQPage />} />
-                    <Route path="/contact" element={<ContactPage />} />
-                    <Route path="/" element={<RootRoute />} />
-                    <Route path="*" element={<Navigate to="/" replace />} />
-                  </Routes>
-                </Suspense>
-              </SocketProvider>
+              <QueryCachePersistence>
+                <SocketProvider>
+                  <Suspense fallback={<PageLoader />}>
+                    <Routes>
+                      <Route path="/login" element={<RouteGuard config={{ guestOnly: true }}><LoginPage /></RouteGuard>} />
+                      <Route path="/login/link" element={<RouteGuard config={{ guestOnly: true }}><MagicLinkPage /></RouteGuard>} />
+                      <Route path="/register" element={<RouteGuard config={{ guestOnly: true }}><RegisterPage /></RouteGuard>} />
+                      <Route path="/forgot-password" element={<RouteGuard config={{ guestOnly: true }}><ForgotPasswordPage /></RouteGuard>} />
+                      <Route path="/reset-password" element={<RouteGuard config={{ guestOnly: true }}><ResetPasswordPage /></RouteGuard>} />
+                      <Route path="/status" element={<RouteGuard config={{ requireAuth: true }}><StatusPage /></RouteGuard>} />
+
+                      {/* Admin Routes */}
+                      <Route path="/admin" element={<RouteGuard config={{ requireAuth: true, requireStatus: 'APPROVED', requireRole: ['ADMIN', 'SUPER_ADMIN'] }}><AdminLayout /></RouteGuard>}>
+                        <Route index element={<ConversationsPage />} />
+                        <Route path="home" element={<HomePage />} />
+                        <Route path="users" element={<UsersPage />} />
+                        <Route path="users/:userId" element={<UserDetailPage />} />
+                        <Route path="admins" element={<RouteGuard config={{ requireRole: 'SUPER_ADMIN' }}><AdminsPage /></RouteGuard>} />
+                        <Route path="announcements" element={<AnnouncementsPage />} />
+                        <Route path="announcements/new" element={<AnnouncementEditorPage />} />
+                        <Route path="announcements/:id" element={<AnnouncementViewPage />} />
+                        <Route path="announcements/:id/edit" element={<AnnouncementEditorPage />} />
+                        <Route path="dm" element={<DMPage />} />
+                        <Route path="internal" element={<InternalChatPage />} />
+                        <Route path="saved-replies" element={<SavedRepliesPage />} />
+                        <Route path="audit" element={<RouteGuard config={{ requireRole: 'SUPER_ADMIN' }}><AuditPage /></RouteGuard>} />
+                        <Route path="settings" element={<SettingsPage />} />
+                      </Route>
+
+                      {/* User Routes */}
+                      <Route path="/home" element={<RouteGuard config={{ requireAuth: true, requireStatus: 'APPROVED', requireRole: 'USER' }}><UserLayout /></RouteGuard>}>
+                        <Route index element={<HomePage />} />
+                        <Route path="chat" element={<ChatPage />} />
+                        <Route path="announcements" element={<UserAnnouncementsPage />} />
+                        <Route path="announcements/:id" element={<AnnouncementViewPage />} />
+                        <Route path="settings" element={<SettingsPage />} />
+                      </Route>
+
+                      {/* Legacy redirects for backward compatibility */}
+                      <Route path="/chat" element={<Navigate to="/home/chat" replace />} />
+
+                      <Route path="/terms" element={<TermsPage />} />
+                      <Route path="/privacy" element={<PrivacyPage />} />
+                      <Route path="/faq" element={<FAQPage />} />
+                      <Route path="/contact" element={<ContactPage />} />
+                      <Route path="/" element={<RootRoute />} />
+                      <Route path="*" element={<Navigate to="/" replace />} />
+                    </Routes>
+                  </Suspense>
+                </SocketProvider>
+              </QueryCachePersistence>
             </AppInit>
           </BrowserRouter>
           <Toaster
@@ -0,0 +1,111 @@
+import { useState } from 'react'
+import { CheckCircle2, Clock, ShieldAlert } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { LeafLogo } from '@/components/ui/LeafLogo'
+import { useAnnouncementAcknowledgements } from '@/hooks/useAnnouncements'
+import { cn, formatRelativeTime, getInitials } from '@/lib/utils'
+import type { AcknowledgementStatus } from '@/lib/schemas'
+
+const TABS: { value: AcknowledgementStatus; label: string }[] = [
+  { value: 'ACKNOWLEDGED', label: 'Acknowledged' },
+  { value: 'OUTSTANDING', label: 'Outstanding' },
+]
+
+// Who has clicked "I understand" on an announcement that requires it, and who still hasn't
+export function AnnouncementAcknowledgementReport({ announcementId }: { announcementId: string }) {
+  const [status, setStatus] = useState<AcknowledgementStatus>('OUTSTANDING')
+  const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useAnnouncementAcknowledgements(announcementId, status)
+
+  const firstPage = data?.pages[0]
+  const entries = data?.pages.flatMap((p) => p.acknowledgements) ?? []
+  const acknowledged = firstPage?.acknowledgedCount ?? 0
+  const outstanding = firstPage?.outstandingCount ?? 0
+  const total = acknowledged + outstanding
+  const pct = total > 0 ? Math.round((acknowledged / total) * 100) : 0
+
+  return (
+    <div className="mt-5 rounded-xl border bg-card">
+      <div className="flex items-center gap-2 px-5 py-3.5 border-b">
+        <ShieldAlert className="h-4 w-4 text-muted-foreground" />
+        <span className="text-sm font-medium">Acknowledgements</span>
+        {firstPage && (
+          <span className="ml-auto text-xs text-muted-foreground tabular-nums">
+            {acknowledged} of {total} · {pct}%
+          </span>
+        )}
+      </div>
+
+      <div className="px-5 pt-4">
+        <div className="h-2 rounded-full bg-muted overflow-hidden">
+          <div className="h-full rounded-full bg-green-500 transition-all" style={{ width: `${pct}%` }} />
+        </div>
+        <div className="flex items-center gap-1.5 mt-3">
+          {TABS.map((tab) => (
+            <button
+              key={tab.value}
+              onClick={() => setStatus(tab.value)}
+              className={cn(
+                'rounded-full px-2.5 py-0.5 text-[11px] font-medium transition-colors',
+                status === tab.value ? 'bg-primary text-primary-foreground' : 'bg-muted text-muted-foreground hover:text-foreground',
+              )}
+            >
+              {tab.label}
+              <span className="ml-1 tabular-nums opacity-80">{tab.value === 'ACKNOWLEDGED' ? acknowledged : outstanding}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="divide-y mt-2">
+        {isLoading ? (
+          <div className="p-5 space-y-3">
+            {[...Array(3)].map((_, i) => <Skeleton key={i} className="h-8 w-full" />)}
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            {status === 'OUTSTANDING' ? 'Everyone targeted has acknowledged it' : 'No acknowledgements yet'}
+          </p>
+        ) : (
+          entries.map(({ user, acknowledgedAt }) => (
+            <div key={user.id} className="flex items-center gap-3 px-5 py-2.5">
+              <div className="flex h-7 w-7 items-center justify-center rounded-full bg-primary/10 text-primary text-[10px] font-bold shrink-0">
+                {getInitials(user.name)}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-xs font-semibold truncate">{user.name}</p>
+                <p className="text-[11px] text-muted-foreground truncate">{user.email}</p>
+              </div>
+              {user.role !== 'USER' && (
+                <Badge variant="secondary" className="text-[9px] px-1.5 py-0 rounded-md h-4">
+                  {user.role === 'SUPER_ADMIN' ? 'Super Admin' : 'Admin'}
+                </Badge>
+              )}
+              {acknowledgedAt ? (
+                <span className="flex items-center gap-1 text-[11px] text-green-600 shrink-0">
+                  <CheckCircle2 className="h-3 w-3" />
+                  {formatRelativeTime(acknowledgedAt)}
+                </span>
+              ) : (
+                <span className="flex items-center gap-1 text-[11px] text-amber-600 shrink-0">
+                  <Clock className="h-3 w-3" />
+                  Pending
+                </span>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+
+      {hasNextPage && (
+        <div className="p-3 border-t flex justify-center">
+          <Button variant="ghost" size="sm" className="gap-1.5 text-xs" disabled={isFetchingNextPage} onClick={() => fetchNextPage()}>
+            {isFetchingNextPage && <LeafLogo className="h-3.5 w-3.5 animate-spin" />}
+            Load more
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,176 @@
+import { useState } from 'react'
+import { BarChart3, Download, Eye } from 'lucide-react'
+import { format, parseISO } from 'date-fns'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { LeafLogo } from '@/components/ui/LeafLogo'
+import { useAnnouncementAnalytics } from '@/hooks/useAnnouncements'
+import {
+  ENGAGEMENT_METRICS, engagementFunnel, fetchNonReaders, nonReadersFilename, nonReadersToCsv,
+  type EngagementMetric,
+} from '@/lib/announcementAnalytics'
+import { downloadFile } from '@/lib/transcript'
+import { cn } from '@/lib/utils'
+import type { Announcement, Role } from '@/lib/schemas'
+
+const RANGES = [7, 30, 90]
+
+const ROLE_LABELS: Record<Role, string> = {
+  USER: 'Users',
+  ADMIN: 'Admins',
+  SUPER_ADMIN: 'Super Admins',
+}
+
+function Chip({ active, onClick, children }: { active: boolean; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <button
+      onClick={onClick}
+      className={cn(
+        'rounded-full px-2.5 py-0.5 text-[11px] font-medium transition-colors',
+        active ? 'bg-primary text-primary-foreground' : 'bg-muted text-muted-foreground hover:text-foreground',
+      )}
+    >
+      {children}
+    </button>
+  )
+}
+
+// Admin-only: who the announcement reached against who it targeted, how far they engaged,
+// and a CSV of everyone who hasn't opened it yet
+export function AnnouncementAnalyticsPanel({ announcement }: { announcement: Announcement }) {
+  const [days, setDays] = useState(30)
+  const [metric, setMetric] = useState<EngagementMetric>('views')
+  const [exporting, setExporting] = useState(false)
+  const { data, isLoading } = useAnnouncementAnalytics(announcement.id, days)
+  const analytics = data?.analytics
+
+  const exportNonReaders = async () => {
+    setExporting(true)
+    try {
+      const users = await fetchNonReaders(announcement.id)
+      if (users.length === 0) {
+        toast.info('Everyone targeted has seen this announcement')
+        return
+      }
+      downloadFile(nonReadersFilename(announcement), nonReadersToCsv(users), 'text/csv;charset=utf-8')
+      toast.success(`Exported ${users.length} non-reader${users.length !== 1 ? 's' : ''}`)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to export non-readers')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const reachPct = analytics && analytics.audience > 0 ? Math.round((analytics.viewers / analytics.audience) * 100) : 0
+  const roles = (Object.keys(analytics?.audienceByRole ?? {}) as Role[]).filter((r) => (analytics?.audienceByRole[r] ?? 0) > 0)
+  const series = analytics?.daily ?? []
+  const peak = Math.max(1, ...series.map((d) => d[metric]))
+
+  return (
+    <div className="mt-6 rounded-xl border bg-card">
+      <div className="flex flex-wrap items-center gap-2 px-5 py-3.5 border-b">
+        <BarChart3 className="h-4 w-4 text-muted-foreground" />
+        <span className="text-sm font-medium">Engagement</span>
+        <div className="ml-auto flex items-center gap-2">
+          <Button variant="outline" size="sm" className="h-7 gap-1.5 rounded-lg text-xs" disabled={exporting} onClick={exportNonReaders}>
+            {exporting ? <LeafLogo className="h-3.5 w-3.5 animate-spin" /> : <Download className="h-3.5 w-3.5" />}
+            Non-readers CSV
+          </Button>
+        </div>
+      </div>
+
+      {isLoading || !analytics ? (
+        <div className="p-5 space-y-3">
+          <Skeleton className="h-4 w-40" />
+          <Skeleton className="h-2 w-full" />
+          <Skeleton className="h-24 w-full" />
+        </div>
+      ) : (
+        <div className="p-5 space-y-6">
+          {/* Reach vs. targeted audience */}
+          <div>
+            <div className="flex items-baseline justify-between gap-2">
+              <p className="flex items-center gap-1.5 text-sm">
+                <Eye className="h-3.5 w-3.5 text-muted-foreground" />
+                <span className="font-semibold tabular-nums">{analytics.viewers}</span>
+                <span className="text-muted-foreground">of {analytics.audience} targeted have seen it</span>
+              </p>
+              <span className="text-sm font-semibold tabular-nums">{reachPct}%</span>
+            </div>
+            <div className="mt-2 h-2 rounded-full bg-muted overflow-hidden">
+              <div className="h-full rounded-full bg-primary transition-all" style={{ width: `${reachPct}%` }} />
+            </div>
+            {roles.length > 1 && (
+              <div className="mt-3 grid grid-cols-1 sm:grid-cols-3 gap-2">
+                {roles.map((role) => {
+                  const audience = analytics.audienceByRole[role] ?? 0
+                  const viewers = analytics.viewersByRole[role] ?? 0
+                  return (
+                    <div key={role} className="rounded-lg border bg-muted/20 px-3 py-2">
+                      <p className="text-[10px] uppercase tracking-wider text-muted-foreground">{ROLE_LABELS[role]}</p>
+                      <p className="text-xs tabular-nums">
+                        <span className="font-semibold">{viewers}</span> / {audience}
+                        <span className="text-muted-foreground"> · {audience > 0 ? Math.round((viewers / audience) * 100) : 0}%</span>
+                      </p>
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </div>
+
+          {/* Funnel */}
+          <div className="space-y-1.5">
+            <p className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">Funnel</p>
+            {engagementFunnel(analytics).map((step) => (
+              <div key={step.label} className="flex items-center gap-3 text-xs">
+                <span className="w-20 shrink-0 text-muted-foreground">{step.label}</span>
+                <div className="flex-1 h-5 rounded-md bg-muted/50 overflow-hidden">
+                  <div className="h-full rounded-md bg-primary/70 transition-all" style={{ width: `${step.pct}%` }} />
+                </div>
+                <span className="w-20 shrink-0 text-right tabular-nums">
+                  {step.count} <span className="text-muted-foreground">({step.pct}%)</span>
+                </span>
+              </div>
+            ))}
+          </div>
+
+          {/* Over time */}
+          <div>
+            <div className="flex flex-wrap items-center gap-1.5 mb-3">
+              {ENGAGEMENT_METRICS.map((m) => (
+                <Chip key={m.value} active={metric === m.value} onClick={() => setMetric(m.value)}>{m.label}</Chip>
+              ))}
+              <div className="ml-auto flex items-center gap-1.5">
+                {RANGES.map((r) => (
+                  <Chip key={r} active={days === r} onClick={() => setDays(r)}>{r}d</Chip>
+                ))}
+              </div>
+            </div>
+            {series.length === 0 ? (
+              <p className="text-xs text-muted-foreground py-6 text-center">No activity in this period</p>
+            ) : (
+              <>
+                <div className="flex items-end gap-px h-28">
+                  {series.map((d) => (
+                    <div
+                      key={d.date}
+                      title={`${format(parseISO(d.date), 'MMM d')}: ${d[metric]}`}
+                      className="flex-1 rounded-t-sm bg-primary/70 hover:bg-primary transition-colors min-h-px"
+                      style={{ height: `${(d[metric] / peak) * 100}%` }}
+                    />
+                  ))}
+                </div>
+                <div className="flex justify-between mt-1 text-[10px] text-muted-foreground tabular-nums">
+                  <span>{format(parseISO(series[0].date), 'MMM d')}</span>
+                  <span>{format(parseISO(series[series.length - 1].date), 'MMM d')}</span>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
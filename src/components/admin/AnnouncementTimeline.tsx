@@ -0,0 +1,74 @@
+import { useMemo, useState } from 'react'
+import { CalendarClock, Repeat } from 'lucide-react'
+import { addDays, format, isToday, isTomorrow, startOfDay } from 'date-fns'
+import { EmptyState } from '@/components/ui/empty-state'
+import { occurrencesBetween, recurrenceLabel } from '@/lib/announcementSchedule'
+import { ANNOUNCEMENT_TYPE_CONFIG as TYPE_CONFIG } from '@/lib/constants'
+import { cn } from '@/lib/utils'
+import type { Announcement } from '@/lib/schemas'
+
+const TIMELINE_DAYS = 30
+
+function dayLabel(day: Date) {
+  if (isToday(day)) return 'Today'
+  if (isTomorrow(day)) return 'Tomorrow'
+  return format(day, 'EEEE, MMM d')
+}
+
+// Every publish due in the next month, recurring announcements expanded into one entry per
+// occurrence, grouped by day
+export function AnnouncementTimeline({ announcements, onOpen }: { announcements: Announcement[]; onOpen: (id: string) => void }) {
+  const [now] = useState(() => Date.now())
+  const days = useMemo(() => {
+    const until = addDays(startOfDay(now), TIMELINE_DAYS).getTime()
+    const entries = announcements
+      .flatMap((announcement) => occurrencesBetween(announcement, now, until).map((at) => ({ announcement, at })))
+      .sort((a, b) => a.at.getTime() - b.at.getTime())
+
+    const byDay = new Map<number, typeof entries>()
+    for (const entry of entries) {
+      const key = startOfDay(entry.at).getTime()
+      byDay.set(key, [...(byDay.get(key) ?? []), entry])
+    }
+    return [...byDay.entries()].map(([day, items]) => ({ day: new Date(day), items }))
+  }, [announcements, now])
+
+  if (days.length === 0) {
+    return <EmptyState icon={CalendarClock} title="Nothing scheduled" subtitle={`No announcements go out in the next ${TIMELINE_DAYS} days`} />
+  }
+
+  return (
+    <div className="p-4 space-y-5">
+      {days.map(({ day, items }) => (
+        <section key={day.getTime()}>
+          <h3 className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground mb-2">{dayLabel(day)}</h3>
+          <ol className="relative border-l border-border/60 ml-1.5 space-y-1">
+            {items.map(({ announcement, at }) => {
+              const config = TYPE_CONFIG[announcement.type]
+              const Icon = config.icon
+              return (
+                <li key={`${announcement.id}:${at.getTime()}`} className="relative pl-4">
+                  <span className={cn('absolute -left-[5px] top-3 h-2.5 w-2.5 rounded-full border-2 bg-background', config.border)} />
+                  <button
+                    onClick={() => onOpen(announcement.id)}
+                    className="flex w-full items-center gap-3 rounded-lg px-2 py-1.5 text-left hover:bg-accent/40 transition-colors"
+                  >
+                    <span className="text-xs font-medium tabular-nums text-muted-foreground w-11 shrink-0">{format(at, 'HH:mm')}</span>
+                    <Icon className={cn('h-3.5 w-3.5 shrink-0', config.color)} />
+                    <span className="text-sm font-medium truncate">{announcement.title}</span>
+                    {announcement.recurrence && (
+                      <span className="ml-auto flex items-center gap-1 text-[10px] text-muted-foreground shrink-0">
+                        <Repeat className="h-3 w-3" />
+                        {recurrenceLabel(announcement.recurrence)}
+                      </span>
+                    )}
+                  </button>
+                </li>
+              )
+            })}
+          </ol>
+        </section>
+      ))}
+    </div>
+  )
+}
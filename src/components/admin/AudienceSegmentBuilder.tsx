@@ -0,0 +1,275 @@
+import { useEffect, useState } from 'react'
+import { Bookmark, Search, Trash2, UserPlus, Users, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { LeafLogo } from '@/components/ui/LeafLogo'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { useAppConfig } from '@/hooks/useConfig'
+import {
+  useAudiencePreview, useAudienceSegments, useCreateAudienceSegment, useDeleteAudienceSegment,
+  useSegmentUserSearch, useUpdateAudienceSegment,
+} from '@/hooks/useAudienceSegments'
+import { isEmptySegment } from '@/lib/audienceSegment'
+import { cn, parseTimestamp } from '@/lib/utils'
+import { format } from 'date-fns'
+import type { AudienceSegmentRules } from '@/lib/schemas'
+
+const CUSTOM = 'custom'
+
+interface AudienceSegmentBuilderProps {
+  rules: AudienceSegmentRules
+  onRulesChange: (rules: AudienceSegmentRules) => void
+  /** Saved segment the rules were loaded from, if any */
+  segmentId: string | null
+  onSegmentIdChange: (id: string | null) => void
+  /** Role targeting chosen above; only used for the audience preview */
+  targetRoles: string[] | null
+}
+
+const sectionLabel = 'text-[10px] font-semibold uppercase tracking-wider text-muted-foreground'
+
+export function AudienceSegmentBuilder({ rules, onRulesChange, segmentId, onSegmentIdChange, targetRoles }: AudienceSegmentBuilderProps) {
+  const { data: config } = useAppConfig()
+  const { data: segmentsData } = useAudienceSegments()
+  const createSegment = useCreateAudienceSegment()
+  const updateSegment = useUpdateAudienceSegment()
+  const deleteSegment = useDeleteAudienceSegment()
+  const preview = useAudiencePreview(targetRoles, isEmptySegment(rules) ? null : rules)
+
+  const [segmentName, setSegmentName] = useState('')
+  const [confirmDelete, setConfirmDelete] = useState(false)
+  const [userQuery, setUserQuery] = useState('')
+  const [debouncedQuery, setDebouncedQuery] = useState('')
+  const { data: userResults, isFetching: searchingUsers } = useSegmentUserSearch(debouncedQuery)
+
+  useEffect(() => {
+    const t = setTimeout(() => setDebouncedQuery(userQuery.trim()), 300)
+    return () => clearTimeout(t)
+  }, [userQuery])
+
+  const subsidiaries = config?.subsidiaries ?? []
+  const segments = segmentsData?.segments ?? []
+  const selected = segments.find((s) => s.id === segmentId)
+  const modified = !!selected && JSON.stringify(selected.rules) !== JSON.stringify(rules)
+  const pickedIds = new Set((rules.users ?? []).map((u) => u.id))
+
+  const update = (patch: Partial<AudienceSegmentRules>) => onRulesChange({ ...rules, ...patch })
+
+  const toggleSubsidiary = (id: string) => {
+    const current = rules.subsidiaryIds ?? []
+    update({ subsidiaryIds: current.includes(id) ? current.filter((s) => s !== id) : [...current, id] })
+  }
+
+  const pickSegment = (value: string) => {
+    if (value === CUSTOM) {
+      onSegmentIdChange(null)
+      return
+    }
+    const segment = segments.find((s) => s.id === value)
+    if (!segment) return
+    onSegmentIdChange(segment.id)
+    onRulesChange(segment.rules)
+  }
+
+  const saveSegment = () => {
+    const name = segmentName.trim()
+    if (!name) return
+    createSegment.mutate({ name, rules }, {
+      onSuccess: ({ segment }) => {
+        setSegmentName('')
+        onSegmentIdChange(segment.id)
+      },
+    })
+  }
+
+  return (
+    <div className="space-y-4 rounded-xl border p-4">
+      {/* Saved segments */}
+      <div className="flex items-center gap-2">
+        <Bookmark className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+        <Select value={segmentId ?? CUSTOM} onValueChange={pickSegment}>
+          <SelectTrigger className="rounded-xl h-8 text-xs flex-1"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={CUSTOM}>Custom segment</SelectItem>
+            {segments.map((s) => <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        {selected && (
+          <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground hover:text-destructive" onClick={() => setConfirmDelete(true)} aria-label="Delete saved segment">
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+        )}
+      </div>
+
+      {/* Subsidiaries */}
+      {subsidiaries.length > 0 && (
+        <div className="space-y-1.5">
+          <Label className={sectionLabel}>Subsidiary</Label>
+          <div className="flex flex-wrap gap-1.5">
+            {subsidiaries.map((s) => {
+              const active = rules.subsidiaryIds?.includes(s.id)
+              return (
+                <button
+                  key={s.id}
+                  onClick={() => toggleSubsidiary(s.id)}
+                  className={cn(
+                    'rounded-full border px-2.5 py-0.5 text-[11px] font-medium transition-colors',
+                    active ? 'border-primary bg-primary/10 text-primary' : 'text-muted-foreground hover:bg-accent/40',
+                  )}
+                >
+                  {s.name}
+                </button>
+              )
+            })}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <Label className={sectionLabel}>Registered after</Label>
+          <Input
+            type="date"
+            value={rules.registeredAfter ? format(parseTimestamp(rules.registeredAfter), 'yyyy-MM-dd') : ''}
+            onChange={(e) => update({ registeredAfter: e.target.value ? new Date(`${e.target.value}T00:00`).toISOString() : null })}
+            className="rounded-xl h-8 text-xs"
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label className={sectionLabel}>Media permission</Label>
+          <Select
+            value={rules.mediaPermission === true ? 'yes' : rules.mediaPermission === false ? 'no' : 'any'}
+            onValueChange={(v) => update({ mediaPermission: v === 'yes' ? true : v === 'no' ? false : null })}
+          >
+            <SelectTrigger className="rounded-xl h-8 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Any</SelectItem>
+              <SelectItem value="yes">Can send media</SelectItem>
+              <SelectItem value="no">Cannot send media</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {/* Hand-picked users */}
+      <div className="space-y-1.5">
+        <Label className={sectionLabel}>Hand-picked users</Label>
+        {(rules.users ?? []).length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {rules.users!.map((u) => (
+              <span key={u.id} className="flex items-center gap-1 rounded-full bg-muted px-2 py-0.5 text-[11px]">
+                {u.name}
+                <button onClick={() => update({ users: rules.users!.filter((p) => p.id !== u.id) })} className="text-muted-foreground hover:text-foreground" aria-label={`Remove ${u.name}`}>
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+        <div className="relative">
+          <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
+          <Input
+            value={userQuery}
+            onChange={(e) => setUserQuery(e.target.value)}
+            placeholder="Search users by name or email"
+            className="rounded-xl h-8 text-xs pl-8"
+          />
+        </div>
+        {debouncedQuery.length >= 2 && (
+          <div className="rounded-xl border divide-y max-h-40 overflow-y-auto">
+            {searchingUsers && !userResults ? (
+              <div className="flex justify-center p-3"><LeafLogo className="h-4 w-4 animate-spin" /></div>
+            ) : (userResults?.users ?? []).length === 0 ? (
+              <p className="p-3 text-center text-[11px] text-muted-foreground">No users found</p>
+            ) : (
+              userResults!.users.map((u) => (
+                <button
+                  key={u.id}
+                  disabled={pickedIds.has(u.id)}
+                  onClick={() => {
+                    update({ users: [...(rules.users ?? []), { id: u.id, name: u.name }] })
+                    setUserQuery('')
+                  }}
+                  className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-xs hover:bg-accent/40 disabled:opacity-50"
+                >
+                  <UserPlus className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+                  <span className="font-medium truncate">{u.name}</span>
+                  <span className="text-muted-foreground truncate">{u.email}</span>
+                </button>
+              ))
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Live audience size + save */}
+      <div className="flex flex-wrap items-center gap-2 pt-1 border-t">
+        <span className="flex items-center gap-1.5 text-xs pt-3">
+          <Users className="h-3.5 w-3.5 text-muted-foreground" />
+          {preview.data ? (
+            <>
+              <span className={cn('font-semibold tabular-nums', preview.isFetching && 'opacity-50')}>{preview.data.count}</span>
+              <span className="text-muted-foreground">user{preview.data.count !== 1 ? 's' : ''} will receive this</span>
+            </>
+          ) : (
+            <span className="text-muted-foreground">Calculating audience…</span>
+          )}
+        </span>
+        <div className="ml-auto flex items-center gap-2 pt-3">
+          {modified ? (
+            <Button size="sm" variant="outline" className="h-7 rounded-lg text-xs" disabled={updateSegment.isPending} onClick={() => updateSegment.mutate({ id: selected.id, data: { rules } })}>
+              Update "{selected.name}"
+            </Button>
+          ) : !selected && !isEmptySegment(rules) && (
+            <>
+              <Input
+                value={segmentName}
+                onChange={(e) => setSegmentName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') saveSegment() }}
+                placeholder="Segment name"
+                maxLength={60}
+                className="rounded-lg h-7 text-xs w-36"
+              />
+              <Button size="sm" variant="outline" className="h-7 rounded-lg text-xs" disabled={!segmentName.trim() || createSegment.isPending} onClick={saveSegment}>
+                Save segment
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{selected?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The saved segment is removed for everyone. Announcements that already used it keep their audience.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => {
+                if (selected) deleteSegment.mutate(selected.id, { onSuccess: () => onSegmentIdChange(null) })
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,138 @@
+import { useState } from 'react'
+import { ChevronDown, Flag, Plus, Tag, X, Check } from 'lucide-react'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { cn } from '@/lib/utils'
+import {
+  CONVERSATION_PRIORITIES,
+  CONVERSATION_STATUSES,
+  MAX_CONVERSATION_TAGS,
+  conversationPriority,
+  conversationStatus,
+  normalizeTag,
+  priorityMeta,
+  statusMeta,
+} from '@/lib/conversationWorkflow'
+import type { Conversation, ConversationPriority, ConversationStatus } from '@/lib/schemas'
+
+export function StatusBadge({ status, className }: { status: ConversationStatus; className?: string }) {
+  const meta = statusMeta(status)
+  return (
+    <span className={cn('inline-flex items-center rounded-full px-1.5 py-0.5 text-[9px] font-semibold leading-none', meta.className, className)}>
+      {meta.label}
+    </span>
+  )
+}
+
+export function PriorityFlag({ priority, className }: { priority: ConversationPriority; className?: string }) {
+  const meta = priorityMeta(priority)
+  return <Flag className={cn('h-3 w-3 shrink-0', meta.className, className)} aria-label={`${meta.label} priority`} />
+}
+
+// Status / priority pickers and the tag editor shown under the AdminChatView header
+export function ConversationWorkflowBar({
+  conversation,
+  onChange,
+  children,
+}: {
+  conversation: Conversation
+  onChange: (patch: { status?: ConversationStatus; priority?: ConversationPriority; tags?: string[] }) => void
+  /** Extra read-only details rendered at the end of the bar */
+  children?: React.ReactNode
+}) {
+  const status = conversationStatus(conversation)
+  const priority = conversationPriority(conversation)
+  const tags = conversation.tags ?? []
+  const [addingTag, setAddingTag] = useState(false)
+  const [tagInput, setTagInput] = useState('')
+
+  const commitTag = () => {
+    const tag = normalizeTag(tagInput)
+    setTagInput('')
+    setAddingTag(false)
+    if (!tag || tags.includes(tag)) return
+    onChange({ tags: [...tags, tag] })
+  }
+
+  return (
+    <div className="flex items-center gap-2 border-b px-4 py-1.5 bg-sidebar/60 shrink-0 overflow-x-auto [&::-webkit-scrollbar]:hidden">
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button className={cn('flex items-center gap-1 rounded-full px-2 py-1 text-[11px] font-semibold shrink-0', statusMeta(status).className)}>
+            {statusMeta(status).label}
+            <ChevronDown className="h-3 w-3" />
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-52">
+          {CONVERSATION_STATUSES.map((s) => (
+            <DropdownMenuItem key={s.value} className="gap-2 cursor-pointer" onClick={() => s.value !== status && onChange({ status: s.value })}>
+              <StatusBadge status={s.value} />
+              {s.value === status && <Check className="ml-auto h-3.5 w-3.5" />}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button className="flex items-center gap-1 rounded-full border px-2 py-1 text-[11px] font-medium shrink-0 hover:bg-accent transition-colors">
+            <PriorityFlag priority={priority} />
+            {priorityMeta(priority).label}
+            <ChevronDown className="h-3 w-3 text-muted-foreground" />
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-40">
+          {CONVERSATION_PRIORITIES.map((p) => (
+            <DropdownMenuItem key={p.value} className="gap-2 cursor-pointer" onClick={() => p.value !== priority && onChange({ priority: p.value })}>
+              <PriorityFlag priority={p.value} />
+              {p.label}
+              {p.value === priority && <Check className="ml-auto h-3.5 w-3.5" />}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <div className="h-4 w-px bg-border shrink-0" />
+
+      <Tag className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+      {tags.map((tag) => (
+        <span key={tag} className="group flex items-center gap-0.5 rounded-full bg-muted px-2 py-0.5 text-[11px] text-muted-foreground shrink-0">
+          #{tag}
+          <button
+            onClick={() => onChange({ tags: tags.filter((t) => t !== tag) })}
+            className="rounded-full hover:text-foreground"
+            aria-label={`Remove tag ${tag}`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      ))}
+      {addingTag ? (
+        <input
+          autoFocus
+          value={tagInput}
+          onChange={(e) => setTagInput(e.target.value)}
+          onBlur={commitTag}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' || e.key === ',') { e.preventDefault(); commitTag() }
+            if (e.key === 'Escape') { setTagInput(''); setAddingTag(false) }
+          }}
+          placeholder="tag"
+          className="h-6 w-24 shrink-0 rounded-full border bg-background px-2 text-[11px] outline-none focus:ring-1 focus:ring-primary"
+        />
+      ) : tags.length < MAX_CONVERSATION_TAGS && (
+        <button
+          onClick={() => setAddingTag(true)}
+          className="flex items-center gap-0.5 rounded-full border border-dashed px-2 py-0.5 text-[11px] text-muted-foreground hover:text-foreground hover:border-foreground/40 shrink-0 transition-colors"
+        >
+          <Plus className="h-3 w-3" /> Tag
+        </button>
+      )}
+      {children}
+    </div>
+  )
+}
@@ -0,0 +1,88 @@
+import { useState } from 'react'
+import { ArrowRightLeft, Check, ChevronDown, ChevronUp, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { FormattedText } from '@/components/chat/FormattedText'
+import { useRespondToTransfer } from '@/hooks/useMessages'
+import { formatRelativeTime } from '@/lib/utils'
+import type { ConversationTransfer } from '@/lib/schemas'
+
+// Pinned under the workflow bar: the receiver sees the handoff summary and answers a pending
+// transfer; the sender sees whether it is still waiting or was declined
+export function HandoffBanner({ transfer, currentUserId }: { transfer: ConversationTransfer; currentUserId?: string }) {
+  const respond = useRespondToTransfer()
+  const [expanded, setExpanded] = useState(true)
+  const [declining, setDeclining] = useState(false)
+  const [reason, setReason] = useState('')
+
+  const isReceiver = transfer.toAdmin.id === currentUserId
+  const isSender = transfer.fromAdmin.id === currentUserId
+  const pending = transfer.status === 'PENDING'
+
+  // Once settled, only the party it matters to keeps seeing it
+  if (transfer.status === 'ACCEPTED' && !isReceiver) return null
+  if (transfer.status === 'DECLINED' && !isSender) return null
+
+  const answer = (accept: boolean) =>
+    respond.mutate({ conversationId: transfer.conversationId, transferId: transfer.id, accept, reason: reason.trim() || undefined })
+
+  const heading = transfer.status === 'DECLINED'
+    ? `${transfer.toAdmin.name} declined your transfer`
+    : isSender && pending
+      ? `Waiting for ${transfer.toAdmin.name} to accept`
+      : `Handoff from ${transfer.fromAdmin.name}`
+
+  return (
+    <div className="border-b bg-sky-50/80 dark:bg-sky-950/30 px-4 py-2 shrink-0">
+      <div className="flex items-center gap-2">
+        <ArrowRightLeft className="h-3.5 w-3.5 text-sky-600 dark:text-sky-400 shrink-0" />
+        <p className="text-xs font-semibold text-sky-800 dark:text-sky-300 truncate">{heading}</p>
+        <span className="text-[10px] text-muted-foreground shrink-0">{formatRelativeTime(transfer.respondedAt ?? transfer.createdAt)}</span>
+        <div className="ml-auto flex items-center gap-1.5 shrink-0">
+          {isReceiver && pending && !declining && (
+            <>
+              <Button size="sm" className="h-7 gap-1 rounded-lg text-xs" disabled={respond.isPending} onClick={() => answer(true)}>
+                <Check className="h-3.5 w-3.5" />Accept
+              </Button>
+              <Button size="sm" variant="outline" className="h-7 gap-1 rounded-lg text-xs" disabled={respond.isPending} onClick={() => setDeclining(true)}>
+                <X className="h-3.5 w-3.5" />Decline
+              </Button>
+            </>
+          )}
+          <button onClick={() => setExpanded((v) => !v)} className="p-1 text-muted-foreground hover:text-foreground" aria-label={expanded ? 'Collapse handoff' : 'Expand handoff'}>
+            {expanded ? <ChevronUp className="h-3.5 w-3.5" /> : <ChevronDown className="h-3.5 w-3.5" />}
+          </button>
+        </div>
+      </div>
+
+      {expanded && (
+        <div className="mt-1.5 pl-5.5 text-xs text-foreground/90 whitespace-pre-wrap break-words max-h-32 overflow-y-auto">
+          <FormattedText text={transfer.note} />
+          {transfer.status === 'DECLINED' && transfer.declineReason && (
+            <p className="mt-1 text-muted-foreground">Reason: {transfer.declineReason}</p>
+          )}
+        </div>
+      )}
+
+      {declining && (
+        <div className="mt-2 flex items-center gap-2 pl-5.5">
+          <Input
+            autoFocus
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') answer(false) }}
+            placeholder="Reason (optional)"
+            maxLength={300}
+            className="h-7 text-xs rounded-lg"
+          />
+          <Button size="sm" variant="destructive" className="h-7 rounded-lg text-xs" disabled={respond.isPending} onClick={() => answer(false)}>
+            Decline
+          </Button>
+          <Button size="sm" variant="ghost" className="h-7 rounded-lg text-xs" onClick={() => setDeclining(false)}>
+            Cancel
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
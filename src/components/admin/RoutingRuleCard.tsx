@@ -0,0 +1,109 @@
+import { useState } from 'react'
+import { ArrowDown, ArrowUp, Trash2 } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { cn } from '@/lib/utils'
+import { ROUTING_STRATEGIES, parseKeywords } from '@/lib/routing'
+import type { RoutingRule, RoutingStrategy, Subsidiary } from '@/lib/schemas'
+
+interface RoutingRuleCardProps {
+  rule: RoutingRule
+  index: number
+  total: number
+  subsidiaries: Subsidiary[]
+  admins: { id: string; name: string; available: boolean }[]
+  onChange: (rule: RoutingRule) => void
+  onMove: (direction: -1 | 1) => void
+  onRemove: () => void
+}
+
+// One rule in the routing editor — rules are evaluated top to bottom, first match wins
+export function RoutingRuleCard({ rule, index, total, subsidiaries, admins, onChange, onMove, onRemove }: RoutingRuleCardProps) {
+  const [keywordText, setKeywordText] = useState(() => rule.keywords.join(', '))
+
+  const toggleAdmin = (adminId: string) => {
+    const adminIds = rule.adminIds.includes(adminId)
+      ? rule.adminIds.filter((id) => id !== adminId)
+      : [...rule.adminIds, adminId]
+    onChange({ ...rule, adminIds })
+  }
+
+  return (
+    <div className={cn('rounded-lg border p-3 space-y-2.5', !rule.enabled && 'opacity-60')}>
+      <div className="flex items-center gap-2">
+        <span className="flex h-5 w-5 shrink-0 items-center justify-center rounded-full bg-muted text-[10px] font-bold text-muted-foreground">{index + 1}</span>
+        <Input
+          value={rule.name}
+          onChange={(e) => onChange({ ...rule, name: e.target.value })}
+          className="h-8 text-sm font-medium flex-1"
+          placeholder="Rule name"
+        />
+        <Switch checked={rule.enabled} onCheckedChange={(enabled) => onChange({ ...rule, enabled })} aria-label="Rule enabled" />
+        <button type="button" onClick={() => onMove(-1)} disabled={index === 0} className="p-1 text-muted-foreground hover:text-foreground disabled:opacity-30" aria-label="Move up">
+          <ArrowUp className="h-3.5 w-3.5" />
+        </button>
+        <button type="button" onClick={() => onMove(1)} disabled={index === total - 1} className="p-1 text-muted-foreground hover:text-foreground disabled:opacity-30" aria-label="Move down">
+          <ArrowDown className="h-3.5 w-3.5" />
+        </button>
+        <button type="button" onClick={onRemove} className="p-1 text-muted-foreground hover:text-destructive" aria-label="Delete rule">
+          <Trash2 className="h-3.5 w-3.5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+        {subsidiaries.length > 0 && (
+          <Select
+            value={rule.subsidiaryId ?? 'any'}
+            onValueChange={(v) => onChange({ ...rule, subsidiaryId: v === 'any' ? null : v })}
+          >
+            <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Any subsidiary</SelectItem>
+              {subsidiaries.map((s) => <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        )}
+        <Input
+          value={keywordText}
+          onChange={(e) => setKeywordText(e.target.value)}
+          onBlur={() => {
+            const keywords = parseKeywords(keywordText)
+            setKeywordText(keywords.join(', '))
+            onChange({ ...rule, keywords })
+          }}
+          className={cn('h-8 text-xs', subsidiaries.length === 0 && 'sm:col-span-2')}
+          placeholder="Keywords in first message, comma separated"
+        />
+        <Select value={rule.strategy} onValueChange={(v) => onChange({ ...rule, strategy: v as RoutingStrategy })}>
+          <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {ROUTING_STRATEGIES.map((s) => <SelectItem key={s.value} value={s.value}>{s.label}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="text-[10px] text-muted-foreground mr-1">Assign to</span>
+        <button
+          type="button"
+          onClick={() => onChange({ ...rule, adminIds: [] })}
+          className={cn('rounded-full border px-2 py-0.5 text-[11px] transition-colors', rule.adminIds.length === 0 ? 'border-primary bg-primary/10 text-primary' : 'text-muted-foreground hover:text-foreground')}
+        >
+          Everyone
+        </button>
+        {admins.map((admin) => (
+          <button
+            key={admin.id}
+            type="button"
+            onClick={() => toggleAdmin(admin.id)}
+            className={cn('flex items-center gap-1 rounded-full border px-2 py-0.5 text-[11px] transition-colors', rule.adminIds.includes(admin.id) ? 'border-primary bg-primary/10 text-primary' : 'text-muted-foreground hover:text-foreground')}
+          >
+            <span className={cn('h-1.5 w-1.5 rounded-full', admin.available ? 'bg-green-500' : 'bg-muted-foreground/40')} />
+            {admin.name}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
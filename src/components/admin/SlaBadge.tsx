@@ -0,0 +1,52 @@
+import { AlarmClock, Timer } from 'lucide-react'
+import { format } from 'date-fns'
+import { cn } from '@/lib/utils'
+import { firstResponseMs, formatSlaDuration, type SlaState } from '@/lib/sla'
+import type { Conversation } from '@/lib/schemas'
+
+const LEVEL_CLASS: Record<SlaState['level'], string> = {
+  ok: 'text-muted-foreground',
+  warning: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400',
+  breached: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
+}
+
+function slaTitle(state: SlaState) {
+  const target = state.kind === 'first' ? 'First response' : 'Next response'
+  return `${target} due ${format(state.dueAt, 'MMM d, HH:mm')} · waiting ${formatSlaDuration(state.elapsedMs)}`
+}
+
+// Time left while within target, time over once breached
+export function SlaBadge({ state, className }: { state: SlaState; className?: string }) {
+  const breached = state.level === 'breached'
+  return (
+    <span
+      title={slaTitle(state)}
+      className={cn(
+        'inline-flex items-center gap-0.5 rounded-full px-1.5 py-0.5 text-[9px] font-semibold leading-none tabular-nums',
+        LEVEL_CLASS[state.level],
+        className,
+      )}
+    >
+      {breached ? <AlarmClock className="h-2.5 w-2.5" /> : <Timer className="h-2.5 w-2.5" />}
+      {breached ? `${formatSlaDuration(state.remainingMs)} over` : formatSlaDuration(state.remainingMs)}
+    </span>
+  )
+}
+
+// Shown in the workflow bar of the open conversation
+export function SlaSummary({ conversation, state }: { conversation: Conversation; state: SlaState | null }) {
+  const firstResponse = firstResponseMs(conversation)
+  return (
+    <div className="ml-auto flex items-center gap-2 shrink-0 text-[11px] text-muted-foreground">
+      {state && (
+        <span className="flex items-center gap-1">
+          Waiting {formatSlaDuration(state.elapsedMs)}
+          <SlaBadge state={state} />
+        </span>
+      )}
+      {firstResponse !== null && (
+        <span title="Time to first response">First reply in {formatSlaDuration(firstResponse)}</span>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,102 @@
+import { useState } from 'react'
+import { ArrowRightLeft } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { LeafLogo } from '@/components/ui/LeafLogo'
+import { useAdminAvailability } from '@/hooks/useUsers'
+import { useTransferConversation } from '@/hooks/useMessages'
+import { cn } from '@/lib/utils'
+
+const MAX_NOTE_LENGTH = 2000
+
+interface TransferConversationDialogProps {
+  open: boolean
+  onClose: () => void
+  conversationId: string
+  userName: string
+  /** Admins who can't receive it: yourself and the current owner */
+  excludeIds: string[]
+}
+
+export function TransferConversationDialog({ open, onClose, conversationId, userName, excludeIds }: TransferConversationDialogProps) {
+  const { admins } = useAdminAvailability()
+  const transfer = useTransferConversation()
+  const [toAdminId, setToAdminId] = useState('')
+  const [note, setNote] = useState('')
+
+  const candidates = admins
+    .filter((a) => a.status !== 'SUSPENDED' && !excludeIds.includes(a.id))
+    .sort((a, b) => Number(b.available) - Number(a.available))
+
+  const close = () => {
+    setToAdminId('')
+    setNote('')
+    onClose()
+  }
+
+  const submit = () => {
+    transfer.mutate({ conversationId, toAdminId, note: note.trim() }, { onSuccess: close })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => { if (!o) close() }}>
+      <DialogContent className="sm:max-w-[460px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ArrowRightLeft className="h-5 w-5 text-primary" />
+            Transfer Conversation
+          </DialogTitle>
+          <DialogDescription>
+            Hand {userName}'s conversation to another admin. It moves once they accept.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Transfer to</Label>
+            <Select value={toAdminId} onValueChange={setToAdminId}>
+              <SelectTrigger className="rounded-xl"><SelectValue placeholder="Choose an admin" /></SelectTrigger>
+              <SelectContent>
+                {candidates.map((admin) => (
+                  <SelectItem key={admin.id} value={admin.id}>
+                    <span className={cn('h-2 w-2 rounded-full', admin.available ? 'bg-green-500' : 'bg-muted-foreground/40')} />
+                    {admin.name}
+                    {!admin.available && <span className="text-[10px] text-muted-foreground">offline</span>}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Handoff summary</Label>
+            <Textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="What's the issue, what has been tried, what's next…"
+              rows={5}
+              maxLength={MAX_NOTE_LENGTH}
+              className="rounded-xl resize-none"
+            />
+            <p className="text-[10px] text-muted-foreground">Pinned at the top of the conversation for the receiver.</p>
+          </div>
+        </div>
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={close} className="rounded-xl">Cancel</Button>
+          <Button onClick={submit} disabled={!toAdminId || !note.trim() || transfer.isPending} className="rounded-xl gap-2">
+            {transfer.isPending && <LeafLogo className="h-4 w-4 animate-spin" />}
+            Send Transfer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,239 @@
+import { useState } from 'react'
+import { History, RotateCcw } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { LeafLogo } from '@/components/ui/LeafLogo'
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { useAnnouncementRevisions, useRestoreAnnouncementRevision } from '@/hooks/useAnnouncements'
+import { useAppConfig } from '@/hooks/useConfig'
+import { isEmptySegment, segmentSummary } from '@/lib/audienceSegment'
+import { ANNOUNCEMENT_TYPE_CONFIG as TYPE_CONFIG } from '@/lib/constants'
+import { diffLines, diffWords, type DiffPart } from '@/lib/textDiff'
+import { cn, formatRelativeTime, parseTimestamp } from '@/lib/utils'
+import { format } from 'date-fns'
+import type { AnnouncementRevision, Subsidiary } from '@/lib/schemas'
+
+const TEMPLATE_LABELS: Record<string, string> = {
+  DEFAULT: 'Default',
+  BANNER: 'Banner',
+  CARD: 'Card',
+  MINIMAL: 'Minimal',
+}
+
+const sectionLabel = 'text-[10px] font-semibold uppercase tracking-wider text-muted-foreground'
+
+function targetingLabel(revision: AnnouncementRevision, subsidiaries: Subsidiary[]) {
+  const roles = revision.targetRoles?.length ? revision.targetRoles.join(', ') : 'Everyone'
+  const segment = revision.segment && !isEmptySegment(revision.segment.rules)
+    ? segmentSummary(revision.segment.rules, subsidiaries).join(' · ')
+    : null
+  return segment ? `${roles} · ${segment}` : roles
+}
+
+// Renders one side of a word diff: unchanged text plus that side's own changes
+function InlineDiff({ parts, side }: { parts: DiffPart[]; side: 'left' | 'right' }) {
+  const hidden = side === 'left' ? 'added' : 'removed'
+  return (
+    <>
+      {parts.filter((p) => p.op !== hidden).map((p, i) => (
+        <span
+          key={i}
+          className={cn(
+            p.op === 'removed' && 'bg-red-500/15 text-red-700 dark:text-red-400 line-through decoration-red-500/50',
+            p.op === 'added' && 'bg-green-500/15 text-green-700 dark:text-green-400',
+          )}
+        >
+          {p.value}
+        </span>
+      ))}
+    </>
+  )
+}
+
+function FieldDiff({ label, before, after }: { label: string; before: string; after: string }) {
+  const changed = before !== after
+  const parts = diffWords(before, after)
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center gap-2">
+        <span className={sectionLabel}>{label}</span>
+        {!changed && <span className="text-[10px] text-muted-foreground">unchanged</span>}
+      </div>
+      <div className="grid grid-cols-2 gap-2 text-xs">
+        <div className="rounded-lg border bg-muted/20 px-2.5 py-1.5 break-words"><InlineDiff parts={parts} side="left" /></div>
+        <div className="rounded-lg border bg-muted/20 px-2.5 py-1.5 break-words"><InlineDiff parts={parts} side="right" /></div>
+      </div>
+    </div>
+  )
+}
+
+function ContentDiff({ before, after }: { before: string; after: string }) {
+  const rows = diffLines(before, after)
+  const changed = before !== after
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center gap-2">
+        <span className={sectionLabel}>Content</span>
+        {!changed && <span className="text-[10px] text-muted-foreground">unchanged</span>}
+      </div>
+      <div className="rounded-lg border overflow-hidden font-mono text-[11px] leading-relaxed">
+        {rows.map((row, i) => (
+          <div key={i} className="grid grid-cols-2 divide-x">
+            <div className={cn('px-2.5 py-0.5 whitespace-pre-wrap break-words min-h-[1.5em]', row.left?.op === 'removed' && 'bg-red-500/10 text-red-700 dark:text-red-400', !row.left && 'bg-muted/40')}>
+              {row.left?.value}
+            </div>
+            <div className={cn('px-2.5 py-0.5 whitespace-pre-wrap break-words min-h-[1.5em]', row.right?.op === 'added' && 'bg-green-500/10 text-green-700 dark:text-green-400', !row.right && 'bg-muted/40')}>
+              {row.right?.value}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+interface AnnouncementHistorySheetProps {
+  announcementId: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Admins can roll the announcement back to an earlier version */
+  canRestore: boolean
+}
+
+// Every stored version of an announcement, each compared side by side with the one before it
+export function AnnouncementHistorySheet({ announcementId, open, onOpenChange, canRestore }: AnnouncementHistorySheetProps) {
+  const { data, isLoading } = useAnnouncementRevisions(announcementId, open)
+  const { data: appConfig } = useAppConfig()
+  const restore = useRestoreAnnouncementRevision()
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [confirmRestore, setConfirmRestore] = useState(false)
+
+  const revisions = data?.revisions ?? []
+  const latest = revisions[0]
+  const index = Math.max(0, revisions.findIndex((r) => r.id === selectedId))
+  const selected = revisions[index]
+  const previous = revisions[index + 1]
+  const subsidiaries = appConfig?.subsidiaries ?? []
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-[720px] flex flex-col gap-0 p-0">
+        <SheetHeader className="px-5 pt-5 pb-4 border-b">
+          <SheetTitle className="flex items-center gap-2 text-sm font-bold">
+            <History className="h-4 w-4 text-muted-foreground" />
+            Version history
+          </SheetTitle>
+          <SheetDescription className="text-xs">
+            {revisions.length > 0 ? `${revisions.length} version${revisions.length !== 1 ? 's' : ''}` : 'Changes made after publishing'}
+          </SheetDescription>
+        </SheetHeader>
+
+        {isLoading ? (
+          <div className="p-5 space-y-3">
+            {[...Array(4)].map((_, i) => <Skeleton key={i} className="h-10 w-full" />)}
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="py-12 text-center text-sm text-muted-foreground">No edits have been made</p>
+        ) : (
+          <div className="flex-1 min-h-0 flex flex-col sm:flex-row">
+            {/* Version list */}
+            <div className="sm:w-52 shrink-0 border-b sm:border-b-0 sm:border-r overflow-y-auto max-h-48 sm:max-h-none divide-y">
+              {revisions.map((r) => (
+                <button
+                  key={r.id}
+                  onClick={() => setSelectedId(r.id)}
+                  className={cn(
+                    'w-full px-4 py-2.5 text-left transition-colors hover:bg-accent/40',
+                    r.id === selected?.id && 'bg-accent/60',
+                  )}
+                >
+                  <div className="flex items-center gap-1.5">
+                    <span className="text-xs font-semibold">Version {r.version}</span>
+                    {r.id === latest?.id && <Badge variant="secondary" className="text-[9px] px-1.5 py-0 rounded-md h-4">Current</Badge>}
+                  </div>
+                  <p className="text-[11px] text-muted-foreground truncate">
+                    {r.version === 1 ? 'Published' : r.restoredFrom ? `Restored v${r.restoredFrom}` : 'Edited'} by {r.editedBy.name}
+                  </p>
+                  <p className="text-[10px] text-muted-foreground">{formatRelativeTime(r.createdAt)}</p>
+                </button>
+              ))}
+            </div>
+
+            {/* Diff */}
+            {selected && (
+              <div className="flex-1 min-w-0 overflow-y-auto p-5 space-y-4">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <p className="text-sm font-semibold">
+                      {previous ? `Version ${previous.version} → ${selected.version}` : 'Original version'}
+                    </p>
+                    <p className="text-[11px] text-muted-foreground">
+                      {selected.editedBy.name} · {format(parseTimestamp(selected.createdAt), 'MMM d, yyyy h:mm a')}
+                    </p>
+                  </div>
+                  {canRestore && selected.id !== latest?.id && (
+                    <Button size="sm" variant="outline" className="h-7 gap-1.5 rounded-lg text-xs shrink-0" disabled={restore.isPending} onClick={() => setConfirmRestore(true)}>
+                      {restore.isPending ? <LeafLogo className="h-3.5 w-3.5 animate-spin" /> : <RotateCcw className="h-3.5 w-3.5" />}
+                      Restore this version
+                    </Button>
+                  )}
+                </div>
+
+                <FieldDiff label="Title" before={previous?.title ?? selected.title} after={selected.title} />
+                <ContentDiff before={previous?.content ?? selected.content} after={selected.content} />
+                <FieldDiff
+                  label="Type"
+                  before={TYPE_CONFIG[previous?.type ?? selected.type].label}
+                  after={TYPE_CONFIG[selected.type].label}
+                />
+                <FieldDiff
+                  label="Template"
+                  before={TEMPLATE_LABELS[previous?.template ?? selected.template] ?? previous?.template ?? selected.template}
+                  after={TEMPLATE_LABELS[selected.template] ?? selected.template}
+                />
+                <FieldDiff
+                  label="Targeting"
+                  before={targetingLabel(previous ?? selected, subsidiaries)}
+                  after={targetingLabel(selected, subsidiaries)}
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        <AlertDialog open={confirmRestore} onOpenChange={setConfirmRestore}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Restore version {selected?.version}?</AlertDialogTitle>
+              <AlertDialogDescription>
+                The announcement goes back to this version's title, content, type, template and targeting.
+                This is saved as a new version, so the current one stays in the history.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => {
+                  if (selected) restore.mutate({ id: announcementId, revisionId: selected.id }, { onSuccess: () => setSelectedId(null) })
+                }}
+              >
+                Restore
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -5,10 +5,11 @@ import {
 } from 'lucide-react'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
+import { Markdown } from '@/components/ui/markdown'
 import { cn, formatRelativeTime } from '@/lib/utils'
-import { useAnnouncements, useVoteAnnouncement } from '@/hooks/useAnnouncements'
+import { useAnnouncements, useTrackAnnouncementView, useVoteAnnouncement } from '@/hooks/useAnnouncements'
 import { useAuthStore } from '@/stores/authStore'
-import type { Announcement, AnnouncementType } from '@/lib/schemas'
+import type { Announcement, AnnouncementType, AnnouncementViewSource } from '@/lib/schemas'
 
 const TYPE_STYLE: Record<AnnouncementType, {
   icon: typeof Info
@@ -56,9 +57,7 @@ function BannerTemplate({ announcement, onVote }: { announcement: Announcement;
               {announcement.type}
             </Badge>
           </div>
-          <p className="text-xs text-muted-foreground mt-0.5 line-clamp-2 leading-relaxed">
-            {announcement.content}
-          </p>
+          <Markdown content={announcement.content} compact className="text-xs text-muted-foreground mt-0.5 line-clamp-2 leading-relaxed" />
           {announcement.mediaAttachment?.type === 'IMAGE' && (
             <img
               src={announcement.mediaAttachment.cdnUrl}
@@ -94,7 +93,7 @@ function BannerTemplate({ announcement, onVote }: { announcement: Announcement;
               </button>
             </div>
             <span className="text-[10px] text-muted-foreground">
-              {formatRelativeTime(announcement.createdAt)}
+              {formatRelativeTime(announcement.createdAt)}{announcement.editedAt && ' · edited'}
             </span>
             {announcement.targetRoles && announcement.targetRoles.length > 0 && (
               <span className="flex items-center gap-0.5 text-[10px] text-muted-foreground">
@@ -121,9 +120,7 @@ function CardTemplate({ announcement, onVote }: { announcement: Announcement; on
         </div>
         <div className="flex-1 min-w-0">
           <h4 className="text-sm font-semibold">{announcement.title}</h4>
-          <p className="text-xs text-muted-foreground mt-1 whitespace-pre-wrap leading-relaxed">
-            {announcement.content}
-          </p>
+          <Markdown content={announcement.content} compact className="text-xs text-muted-foreground mt-1 leading-relaxed" />
           {announcement.mediaAttachment?.type === 'IMAGE' && (
             <img
               src={announcement.mediaAttachment.cdnUrl}
@@ -159,7 +156,7 @@ function CardTemplate({ announcement, onVote }: { announcement: Announcement; on
               </button>
             </div>
             <span className="text-[10px] text-muted-foreground">
-              {announcement.author?.name ?? 'Admin'} &middot; {formatRelativeTime(announcement.createdAt)}
+              {announcement.author?.name ?? 'Admin'} &middot; {formatRelativeTime(announcement.createdAt)}{announcement.editedAt && ' · edited'}
             </span>
           </div>
         </div>
@@ -197,13 +194,22 @@ function MinimalTemplate({ announcement, onVote }: { announcement: Announcement;
         </button>
       </div>
       <span className="text-[10px] text-muted-foreground shrink-0">
-        {formatRelativeTime(announcement.createdAt)}
+        {formatRelativeTime(announcement.createdAt)}{announcement.editedAt && ' · edited'}
       </span>
     </div>
   )
 }
 
-function AnnouncementItem({ announcement, onVote }: { announcement: Announcement; onVote: (id: string, vote: 'UP' | 'DOWN') => void }) {
+/** Renders an announcement with its BANNER / CARD / MINIMAL template and records the view. */
+export function AnnouncementItem({ announcement, onVote, source = 'BANNER' }: {
+  announcement: Announcement
+  onVote: (id: string, vote: 'UP' | 'DOWN') => void
+  source?: AnnouncementViewSource
+}) {
+  // Items only mount once they're on screen (e.g. the banner is expanded), so this counts
+  // announcements actually shown
+  useTrackAnnouncementView(announcement, source)
+
   switch (announcement.template) {
     case 'CARD':
       return <CardTemplate announcement={announcement} onVote={onVote} />
@@ -0,0 +1,64 @@
+import { memo, useMemo, type ReactNode } from 'react'
+import { cn } from '@/lib/utils'
+import { formatMessage, type MessageToken } from '@/lib/messageFormat'
+import { useAuthStore } from '@/stores/authStore'
+
+function isSelfMention(name: string, userName: string | undefined): boolean {
+  if (!userName) return false
+  const mention = name.toLowerCase()
+  const full = userName.toLowerCase()
+  return mention === full.replace(/\s+/g, '') || mention === full.split(/\s+/)[0]
+}
+
+function renderTokens(tokens: MessageToken[], userName: string | undefined, keyPrefix = ''): ReactNode[] {
+  return tokens.map((token, i) => {
+    const key = `${keyPrefix}${i}`
+    switch (token.type) {
+      case 'text':
+        return token.text
+      case 'bold':
+        return <strong key={key} className="font-semibold">{renderTokens(token.children, userName, `${key}-`)}</strong>
+      case 'italic':
+        return <em key={key}>{renderTokens(token.children, userName, `${key}-`)}</em>
+      case 'code':
+        return <code key={key} className="rounded bg-black/5 dark:bg-white/10 px-1 py-0.5 font-mono text-[0.9em]">{token.text}</code>
+      case 'codeBlock':
+        return (
+          <pre key={key} className="my-1 rounded-lg bg-black/5 dark:bg-white/10 px-2.5 py-1.5 font-mono text-[12px] leading-snug whitespace-pre overflow-x-auto">
+            <code>{token.text}</code>
+          </pre>
+        )
+      case 'link':
+        return (
+          <a
+            key={key}
+            href={token.href}
+            className="text-primary underline underline-offset-2 break-all hover:opacity-80"
+            onClick={(e) => e.stopPropagation()}
+            {...(token.kind === 'url' ? { target: '_blank', rel: 'noopener noreferrer nofollow' } : {})}
+          >
+            {token.text}
+          </a>
+        )
+      case 'mention':
+        return (
+          <span
+            key={key}
+            className={cn(
+              'rounded px-0.5 font-medium',
+              isSelfMention(token.name, userName) ? 'bg-amber-200/70 text-amber-900 dark:bg-amber-500/30 dark:text-amber-100' : 'text-primary',
+            )}
+          >
+            @{token.name}
+          </span>
+        )
+    }
+  })
+}
+
+/** Chat message text with auto-linked URLs/emails/phones, *bold*, _italic_, `code` and @mentions. */
+export const FormattedText = memo(function FormattedText({ text }: { text: string }) {
+  const userName = useAuthStore((s) => s.user?.name)
+  const tokens = useMemo(() => formatMessage(text), [text])
+  return <>{renderTokens(tokens, userName)}</>
+})
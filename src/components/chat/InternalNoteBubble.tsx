@@ -0,0 +1,47 @@
+import { memo } from 'react'
+import { format } from 'date-fns'
+import { StickyNote, Trash2 } from 'lucide-react'
+import { FormattedText } from './FormattedText'
+import { parseTimestamp } from '@/lib/utils'
+import type { Message } from '@/lib/schemas'
+
+interface InternalNoteBubbleProps {
+  note: Message
+  canDelete: boolean
+  onDelete?: () => void
+}
+
+// Admin-only notes sit inline with the customer thread but are styled apart from replies
+export const InternalNoteBubble = memo(function InternalNoteBubble({ note, canDelete, onDelete }: InternalNoteBubbleProps) {
+  if (note.deletedAt) {
+    return (
+      <div className="mx-auto my-1 w-full max-w-[85%] rounded-xl border border-dashed border-amber-300/60 px-3 py-1.5 text-center text-[11px] italic text-muted-foreground">
+        Note deleted
+      </div>
+    )
+  }
+
+  return (
+    <div className="group mx-auto my-1 w-full max-w-[85%] rounded-xl border border-amber-300/70 bg-amber-50 px-3 py-2 shadow-sm dark:border-amber-700/50 dark:bg-amber-950/30">
+      <div className="mb-1 flex items-center gap-1.5 text-[10px] font-semibold uppercase tracking-wider text-amber-700 dark:text-amber-400">
+        <StickyNote className="h-3 w-3" />
+        Internal note · {note.sender.name}
+        <span className="ml-auto font-normal normal-case tracking-normal tabular-nums text-amber-700/70 dark:text-amber-400/70">
+          {format(parseTimestamp(note.createdAt), 'HH:mm')}
+        </span>
+        {canDelete && onDelete && (
+          <button
+            onClick={onDelete}
+            className="opacity-0 group-hover:opacity-100 transition-opacity hover:text-destructive"
+            aria-label="Delete note"
+          >
+            <Trash2 className="h-3 w-3" />
+          </button>
+        )}
+      </div>
+      <div className="text-sm text-foreground whitespace-pre-wrap break-words">
+        <FormattedText text={note.content ?? ''} />
+      </div>
+    </div>
+  )
+})
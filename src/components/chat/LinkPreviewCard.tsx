@@ -0,0 +1,74 @@
+import { useState } from 'react'
+import { X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { useLinkPreview } from '@/hooks/useLinkPreview'
+
+interface LinkPreviewCardProps {
+  url: string
+  isMine?: boolean
+  /** Shown in MessageInput so the sender can drop the preview before sending */
+  onDismiss?: () => void
+  className?: string
+}
+
+function getDomain(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '')
+  } catch {
+    return url
+  }
+}
+
+export function LinkPreviewCard({ url, isMine, onDismiss, className }: LinkPreviewCardProps) {
+  const { data: preview } = useLinkPreview(url)
+  const [imageFailed, setImageFailed] = useState(false)
+
+  if (!preview || (!preview.title && !preview.description)) return null
+
+  const domain = preview.siteName || getDomain(preview.url || url)
+  const showImage = !!preview.image && !imageFailed
+
+  return (
+    <div
+      className={cn(
+        'relative flex overflow-hidden rounded-lg border text-left',
+        isMine ? 'bg-black/5 dark:bg-white/5 border-black/10 dark:border-white/10' : 'bg-background/50 border-border',
+        className,
+      )}
+    >
+      <a
+        href={url}
+        target="_blank"
+        rel="noopener noreferrer nofollow"
+        onClick={(e) => e.stopPropagation()}
+        className="flex min-w-0 flex-1 items-stretch transition-opacity hover:opacity-80"
+      >
+        {showImage && (
+          <img
+            src={preview.image!}
+            alt=""
+            loading="lazy"
+            referrerPolicy="no-referrer"
+            onError={() => setImageFailed(true)}
+            className="h-auto w-20 shrink-0 object-cover"
+          />
+        )}
+        <div className={cn('min-w-0 flex-1 px-2.5 py-1.5', onDismiss && 'pr-7')}>
+          <p className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground truncate">{domain}</p>
+          {preview.title && <p className="text-xs font-medium text-foreground line-clamp-1">{preview.title}</p>}
+          {preview.description && <p className="text-[11px] text-muted-foreground line-clamp-2">{preview.description}</p>}
+        </div>
+      </a>
+      {onDismiss && (
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="absolute right-1.5 top-1.5 text-muted-foreground hover:text-foreground transition-colors"
+          aria-label="Remove link preview"
+        >
+          <X className="h-3.5 w-3.5" />
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+import { AtSign } from 'lucide-react'
+import { cn, getInitials } from '@/lib/utils'
+import { mentionHandle } from '@/lib/messageFormat'
+
+interface MentionPickerProps {
+  candidates: { id: string; name: string }[]
+  activeIndex: number
+  onHover: (index: number) => void
+  onSelect: (candidate: { id: string; name: string }) => void
+}
+
+// Shown while typing "@" in note mode; like SavedReplyPicker, keys are handled by MessageInput
+export function MentionPicker({ candidates, activeIndex, onHover, onSelect }: MentionPickerProps) {
+  return (
+    <div className="absolute bottom-full left-0 mb-2 w-64 bg-card border rounded-2xl shadow-xl z-50 overflow-hidden animate-in fade-in slide-in-from-bottom-2 duration-200">
+      <div className="flex items-center gap-2 px-3 py-2 border-b text-xs font-semibold">
+        <AtSign className="h-3.5 w-3.5 text-muted-foreground" />
+        Mention an admin
+      </div>
+      <div className="max-h-56 overflow-y-auto p-1">
+        {candidates.map((candidate, i) => (
+          <button
+            key={candidate.id}
+            type="button"
+            onMouseDown={(e) => e.preventDefault()}
+            onMouseEnter={() => onHover(i)}
+            onClick={() => onSelect(candidate)}
+            className={cn(
+              'flex w-full items-center gap-2 rounded-lg px-2.5 py-1.5 text-left transition-colors',
+              i === activeIndex ? 'bg-accent' : 'hover:bg-accent/50',
+            )}
+          >
+            <span className="flex h-6 w-6 shrink-0 items-center justify-center rounded-full bg-primary/10 text-[10px] font-bold text-primary">
+              {getInitials(candidate.name)}
+            </span>
+            <span className="text-sm truncate">{candidate.name}</span>
+            <span className="ml-auto text-[10px] text-muted-foreground truncate">@{mentionHandle(candidate.name)}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
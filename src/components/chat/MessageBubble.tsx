@@ -1,6 +1,6 @@
 import { useState, useCallback, useEffect, useMemo, memo, useRef } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { Check, CheckCheck, Trash2, Smile, Reply, Copy, Megaphone, ExternalLink, MoreVertical } from 'lucide-react'
+import { Check, CheckCheck, Trash2, Smile, Reply, Copy, Megaphone, ExternalLink, MoreVertical, Clock, RotateCw, AlertCircle } from 'lucide-react'
 import { format } from 'date-fns'
 import { cn, parseTimestamp, getInitials } from '@/lib/utils'
 import { Button } from '@/components/ui/button'
@@ -9,7 +9,13 @@ import { MediaViewer } from './MediaViewer'
 import { MediaGrid, DocumentPreview } from './MediaGrid'
 import type { Message, InternalMessage, DirectMessage } from '@/lib/schemas'
 import { DeleteMessageDialog } from './DeleteMessageDialog'
+import { FormattedText } from './FormattedText'
+import { LinkPreviewCard } from './LinkPreviewCard'
+import { messagePlainText, firstMessageUrl } from '@/lib/messageFormat'
 import { useAuthStore } from '@/stores/authStore'
+import { useOutboxStore } from '@/stores/outboxStore'
+import { useRetryOutbox } from '@/hooks/useOutbox'
+import type { OutboxState } from '@/lib/outbox'
 import { LeafLogo } from '@/components/ui/LeafLogo'
 import {
   DropdownMenu,
@@ -44,7 +50,38 @@ export interface MessageBubbleProps {
   onSelect?: (id: string) => void
 }
 
-function StatusIcon({ status, isSending }: { status: string; isSending?: boolean }) {
+function StatusIcon({ status, isSending, outboxState, onRetry }: {
+  status?: string
+  isSending?: boolean
+  outboxState?: OutboxState
+  onRetry?: () => void
+}) {
+  if (outboxState === 'queued') {
+    return (
+      <span className="flex items-center gap-0.5 text-[10px] text-muted-foreground" title="Will send when you're back online">
+        <Clock className="h-3.5 w-3.5" /> Queued
+      </span>
+    )
+  }
+  if (outboxState === 'retrying') {
+    return (
+      <span className="flex items-center gap-0.5 text-[10px] text-muted-foreground">
+        <RotateCw className="h-3.5 w-3.5 animate-spin" /> Retrying…
+      </span>
+    )
+  }
+  if (outboxState === 'failed' || status === 'FAILED') {
+    return (
+      <button
+        type="button"
+        onClick={(e) => { e.stopPropagation(); onRetry?.() }}
+        disabled={!onRetry}
+        className="flex items-center gap-0.5 text-[10px] font-medium text-destructive hover:underline disabled:no-underline"
+      >
+        <AlertCircle className="h-3.5 w-3.5" /> Failed{onRetry && ' – tap to retry'}
+      </button>
+    )
+  }
   if (isSending) {
     return <LeafLogo className="h-3.5 w-3.5 animate-spin text-muted-foreground" />
   }
@@ -81,8 +118,16 @@ function MessageBubbleInner({
   const isAdmin = user?.role === 'ADMIN' || user?.role === 'SUPER_ADMIN'
   const isDeleted = 'deletedAt' in message ? !!message.deletedAt : false
   const isTemp = message.id.startsWith('temp-')
+  const outboxState = useOutboxStore((s) => (isTemp ? s.entries[message.id]?.state : undefined))
+  const retryOutbox = useRetryOutbox()
+  // 'sending' is the normal optimistic state and keeps the plain spinner
+  const showOutboxState = !!outboxState && outboxState !== 'sending'
 
   const mediaList = message.media ? [message.media] : []
+  const previewUrl = useMemo(
+    () => (message.content && message.linkPreview !== false && !message.media ? firstMessageUrl(message.content) : null),
+    [message.content, message.linkPreview, message.media],
+  )
   const imagesAndVideos = mediaList.filter((m) => m.type === 'IMAGE' || m.type === 'VIDEO')
   const documentItems = mediaList.filter((m) => m.type === 'DOCUMENT')
 
@@ -163,7 +208,7 @@ function MessageBubbleInner({
     ? {
       id: ('id' in message.replyTo) ? message.replyTo.id : ('id' in message ? message.replyToId : undefined),
       senderName: message.replyTo.sender?.name || 'User',
-      content: message.replyTo.content,
+      content: message.replyTo.content ? messagePlainText(message.replyTo.content) : message.replyTo.content,
       isDeleted: 'deletedAt' in message.replyTo ? !!message.replyTo.deletedAt : false,
       type: message.replyTo.type,
     }
@@ -318,19 +363,28 @@ function MessageBubbleInner({
 
               {/* Text Content with Inline Timestamp hack */}
               {message.content && (
-                <p className={cn('text-[14px] whitespace-pre-wrap leading-relaxed inline-block', mediaList.length > 0 && 'px-1 pb-1 pt-0.5')}>
-                  {message.content}
+                <div className={cn('text-[14px] whitespace-pre-wrap leading-relaxed inline-block max-w-full', mediaList.length > 0 && 'px-1 pb-1 pt-0.5')}>
+                  <FormattedText text={message.content} />
                   <span className="inline-block w-12" /> {/* Spacer for inline timestamp */}
-                </p>
+                </div>
               )}
 
+              {previewUrl && <LinkPreviewCard url={previewUrl} isMine={isMine} className="mt-1 max-w-[320px]" />}
+
               {/* Delivery Status & Timestamp */}
               <div className={cn('float-right flex items-center gap-1 mt-2 ml-2 opacity-70 relative top-[2px]')}>
                 <span className={cn('text-[10px] text-foreground/80')}>
                   {format(parseTimestamp(message.createdAt), 'HH:mm')}
                 </span>
-                {isMine && message.status && <StatusIcon status={message.status} isSending={isTemp} />}
-                {isMine && !message.status && isTemp && <span className="text-[10px] pr-1">Sending…</span>}
+                {isMine && (message.status || showOutboxState) && (
+                  <StatusIcon
+                    status={message.status}
+                    isSending={isTemp}
+                    outboxState={outboxState}
+                    onRetry={outboxState === 'failed' ? () => retryOutbox(message.id) : undefined}
+                  />
+                )}
+                {isMine && !message.status && !showOutboxState && isTemp && <span className="text-[10px] pr-1">Sending…</span>}
               </div>
             </div>
 
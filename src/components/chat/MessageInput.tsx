@@ -1,5 +1,5 @@
-import { useState, useRef, useCallback, useEffect } from 'react'
-import { Send, Paperclip, X, Image, FileText, Video, Reply, Megaphone, Upload } from 'lucide-react'
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react'
+import { Send, Paperclip, X, Image, FileText, Video, Reply, Megaphone, Upload, Type, Bold, Italic, Code, SquareCode, StickyNote } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Textarea } from '@/components/ui/textarea'
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
@@ -8,33 +8,49 @@ import { getSocket } from '@/lib/socket'
 import { media as mediaApi } from '@/lib/api'
 import { toast } from 'sonner'
 import { AttachmentPicker } from './AttachmentPicker'
+import { LinkPreviewCard } from './LinkPreviewCard'
+import { SavedReplyPicker } from './SavedReplyPicker'
+import { MentionPicker } from './MentionPicker'
 import { cn } from '@/lib/utils'
 import { useChatStore } from '@/stores/chatStore'
 import { LeafLogo } from '@/components/ui/LeafLogo'
 import { useAppConfig } from '@/hooks/useConfig'
+import { MESSAGE_FORMAT_HINTS, messagePlainText, firstMessageUrl, extractMentions, mentionHandle } from '@/lib/messageFormat'
+import { renderSavedReply, searchSavedReplies } from '@/lib/savedReplies'
+import { useSavedReplies } from '@/hooks/useSavedReplies'
+import type { SavedReply } from '@/lib/schemas'
 
 const DEFAULT_MAX_TEXT_LENGTH = 5000
 
-function getDraftKey(conversationId: string | undefined): string {
-  return conversationId ? `draft:${conversationId}` : ''
+const FORMAT_ACTIONS = [
+  { icon: Bold, label: 'Bold (Ctrl+B)', prefix: '*', suffix: '*' },
+  { icon: Italic, label: 'Italic (Ctrl+I)', prefix: '_', suffix: '_' },
+  { icon: Code, label: 'Inline code', prefix: '`', suffix: '`' },
+  { icon: SquareCode, label: 'Code block', prefix: '```\n', suffix: '\n```' },
+]
+
+// Internal notes keep their own draft so a half-written note can never resurface as a customer reply
+function getDraftKey(conversationId: string | undefined, note = false): string {
+  if (!conversationId) return ''
+  return note ? `draft:note:${conversationId}` : `draft:${conversationId}`
 }
 
-function loadDraft(conversationId: string | undefined): string {
+function loadDraft(conversationId: string | undefined, note = false): string {
   if (!conversationId) return ''
   try {
-    return localStorage.getItem(getDraftKey(conversationId)) || ''
+    return localStorage.getItem(getDraftKey(conversationId, note)) || ''
   } catch {
     return ''
   }
 }
 
-function saveDraft(conversationId: string | undefined, text: string): void {
+function saveDraft(conversationId: string | undefined, text: string, note = false): void {
   if (!conversationId) return
   try {
     if (text.trim()) {
-      localStorage.setItem(getDraftKey(conversationId), text)
+      localStorage.setItem(getDraftKey(conversationId, note), text)
     } else {
-      localStorage.removeItem(getDraftKey(conversationId))
+      localStorage.removeItem(getDraftKey(conversationId, note))
     }
   } catch {
     return
@@ -68,11 +84,17 @@ function TypeIcon({ type }: { type: string }) {
 
 interface MessageInputProps {
   conversationId: string | undefined
-  onSend: (data: { type: string; content?: string; mediaId?: string; replyToId?: string; announcementId?: string }) => void
+  onSend: (data: { type: string; content?: string; mediaId?: string; replyToId?: string; announcementId?: string; linkPreview?: boolean }) => void
   disabled?: boolean
   linkedAnnouncement?: { id: string; title: string; type: string } | null
   onClearAnnouncement?: () => void
   onTyping?: (isTyping: boolean) => void
+  /** Enables the "/" saved-reply picker; the customer's name fills `{{user.name}}` */
+  savedReplyContext?: { userName?: string }
+  /** Enables the "Note" toggle; notes go here instead of onSend */
+  onSendNote?: (data: { content: string; mentions: string[] }) => void
+  /** Admins offered by the @mention picker while writing a note */
+  mentionCandidates?: { id: string; name: string }[]
 }
 
 type PendingAttachment = {
@@ -83,7 +105,7 @@ type PendingAttachment = {
   previewUrl?: string
 }
 
-export function MessageInput({ conversationId, onSend, disabled, linkedAnnouncement, onClearAnnouncement, onTyping }: MessageInputProps) {
+export function MessageInput({ conversationId, onSend, disabled, linkedAnnouncement, onClearAnnouncement, onTyping, savedReplyContext, onSendNote, mentionCandidates }: MessageInputProps) {
   const user = useAuthStore((s) => s.user)
   const { replyTo, clearReply } = useChatStore()
   const [text, setText] = useState(() => loadDraft(conversationId))
@@ -91,6 +113,14 @@ export function MessageInput({ conversationId, onSend, disabled, linkedAnnouncem
   const [uploading, setUploading] = useState(false)
   const [uploadProgress, setUploadProgress] = useState(0)
   const [showAttachmentPicker, setShowAttachmentPicker] = useState(false)
+  const [showFormatting, setShowFormatting] = useState(false)
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null)
+  const [dismissedPreviewUrl, setDismissedPreviewUrl] = useState<string | null>(null)
+  const [slashIndex, setSlashIndex] = useState(0)
+  const [slashDismissed, setSlashDismissed] = useState(false)
+  const [noteMode, setNoteMode] = useState(false)
+  const [caret, setCaret] = useState(0)
+  const [mentionIndex, setMentionIndex] = useState(0)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
   const fileInputImageRef = useRef<HTMLInputElement>(null)
   const fileInputCameraRef = useRef<HTMLInputElement>(null)
@@ -99,16 +129,57 @@ export function MessageInput({ conversationId, onSend, disabled, linkedAnnouncem
 
   const [isDragging, setIsDragging] = useState(false)
 
+  // Every conversation opens in reply mode with its reply draft; the note draft waits for the toggle
   useEffect(() => {
+    setNoteMode(false)
     setText(loadDraft(conversationId))
   }, [conversationId])
 
+  const toggleNoteMode = () => {
+    const next = !noteMode
+    saveDraft(conversationId, text, noteMode)
+    setNoteMode(next)
+    setText(loadDraft(conversationId, next))
+    setSlashDismissed(false)
+  }
+
+  const firstUrl = useMemo(() => firstMessageUrl(text), [text])
+
+  // Debounce so a URL being typed doesn't unfurl on every keystroke
+  useEffect(() => {
+    const t = setTimeout(() => setPreviewUrl(firstUrl), 500)
+    return () => clearTimeout(t)
+  }, [firstUrl])
+
+  const previewDismissed = !!firstUrl && firstUrl === dismissedPreviewUrl
+  const linkPreview = previewDismissed ? false : undefined
+
   const { data: configData } = useAppConfig()
 
   const maxTextLength = conversationId === 'internal'
     ? (configData?.limits?.message?.teamTextMaxLength ?? DEFAULT_MAX_TEXT_LENGTH)
     : (configData?.limits?.message?.textMaxLength ?? DEFAULT_MAX_TEXT_LENGTH)
 
+  // "/query" on a single line opens the saved-reply picker
+  const slashQuery = savedReplyContext && !slashDismissed && text.startsWith('/') && !text.includes('\n') ? text.slice(1) : null
+  const { data: savedRepliesData, isLoading: savedRepliesLoading } = useSavedReplies(!!savedReplyContext)
+  const slashMatches = useMemo(
+    () => (slashQuery === null ? [] : searchSavedReplies(savedRepliesData?.replies ?? [], slashQuery).slice(0, 20)),
+    [slashQuery, savedRepliesData],
+  )
+
+  // "@partial" right before the caret while writing a note
+  const mentionQuery = noteMode && mentionCandidates?.length
+    ? /(?:^|\s)@([\w.-]*)$/.exec(text.slice(0, caret))?.[1] ?? null
+    : null
+  const mentionMatches = useMemo(() => {
+    if (mentionQuery === null || !mentionCandidates) return []
+    const q = mentionQuery.toLowerCase()
+    return mentionCandidates
+      .filter((c) => mentionHandle(c.name).toLowerCase().startsWith(q) || c.name.toLowerCase().split(/\s+/).some((part) => part.startsWith(q)))
+      .slice(0, 6)
+  }, [mentionQuery, mentionCandidates])
+
   const canAttach = configData?.features?.mediaUpload !== false && (user?.mediaPermission || user?.role === 'ADMIN' || user?.role === 'SUPER_ADMIN')
 
   const revokeObjectUrl = useCallback((url?: string) => {
@@ -204,7 +275,10 @@ export function MessageInput({ conversationId, onSend, disabled, linkedAnnouncem
   const handleTextChange = (value: string) => {
     const trimmed = value.slice(0, maxTextLength)
     setText(trimmed)
-    saveDraft(conversationId, trimmed)
+    saveDraft(conversationId, trimmed, noteMode)
+    setSlashIndex(0)
+    setMentionIndex(0)
+    if (!trimmed.startsWith('/')) setSlashDismissed(false)
 
     sendTyping(true)
     if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current)
@@ -281,6 +355,14 @@ export function MessageInput({ conversationId, onSend, disabled, linkedAnnouncem
 
   const handleSend = async () => {
     const trimmed = text.trim()
+    if (noteMode && onSendNote) {
+      if (!trimmed) return
+      onSendNote({ content: trimmed, mentions: extractMentions(trimmed, mentionCandidates ?? []) })
+      setText('')
+      saveDraft(conversationId, '', true)
+      textareaRef.current?.focus()
+      return
+    }
     if (!trimmed && !attachment) return
     const replyToId = replyTo?.id
 
@@ -291,11 +373,12 @@ export function MessageInput({ conversationId, onSend, disabled, linkedAnnouncem
         const mediaId = await uploadFile(attachment.file, attachment.file.type, attachment.filename)
 
         if (mediaId) {
-          onSend({ type: attachment.type, content: trimmed || undefined, mediaId, replyToId, announcementId: linkedAnnouncement?.id })
+          onSend({ type: attachment.type, content: trimmed || undefined, mediaId, replyToId, announcementId: linkedAnnouncement?.id, linkPreview })
           clearAttachment()
           clearReply()
           onClearAnnouncement?.()
           setText('')
+          setDismissedPreviewUrl(null)
           saveDraft(conversationId, '')
           sendTyping(false)
           if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current)
@@ -312,22 +395,105 @@ export function MessageInput({ conversationId, onSend, disabled, linkedAnnouncem
 
     const announcementId = linkedAnnouncement?.id
     if (attachment?.mediaId) {
-      onSend({ type: attachment.type, content: trimmed || undefined, mediaId: attachment.mediaId, replyToId, announcementId })
+      onSend({ type: attachment.type, content: trimmed || undefined, mediaId: attachment.mediaId, replyToId, announcementId, linkPreview })
       clearAttachment()
     } else {
-      onSend({ type: 'TEXT', content: trimmed, replyToId, announcementId })
+      onSend({ type: 'TEXT', content: trimmed, replyToId, announcementId, linkPreview })
     }
 
     clearReply()
     onClearAnnouncement?.()
     setText('')
+    setDismissedPreviewUrl(null)
     saveDraft(conversationId, '')
     sendTyping(false)
     if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current)
     textareaRef.current?.focus()
   }
 
+  // Wraps the current selection (or inserts an empty pair at the caret) in formatting markers
+  const applyFormat = (prefix: string, suffix: string) => {
+    const el = textareaRef.current
+    if (!el) return
+    const start = el.selectionStart
+    const end = el.selectionEnd
+    const selected = text.slice(start, end)
+    handleTextChange(text.slice(0, start) + prefix + selected + suffix + text.slice(end))
+    requestAnimationFrame(() => {
+      el.focus()
+      const cursor = start + prefix.length + selected.length + (selected ? suffix.length : 0)
+      el.setSelectionRange(cursor, cursor)
+    })
+  }
+
+  const insertSavedReply = (reply: SavedReply) => {
+    const content = renderSavedReply(reply.body, {
+      user: savedReplyContext?.userName ? { name: savedReplyContext.userName } : null,
+      brand: configData?.brand,
+    })
+    handleTextChange(content)
+    if (reply.media) {
+      setAttachmentWithCleanup({ mediaId: reply.media.id, type: reply.media.type, filename: reply.media.filename })
+    }
+    requestAnimationFrame(() => {
+      const el = textareaRef.current
+      if (!el) return
+      el.focus()
+      el.setSelectionRange(el.value.length, el.value.length)
+    })
+  }
+
+  const insertMention = (candidate: { id: string; name: string }) => {
+    const before = text.slice(0, caret).replace(/@[\w.-]*$/, `@${mentionHandle(candidate.name)} `)
+    handleTextChange(before + text.slice(caret))
+    requestAnimationFrame(() => {
+      const el = textareaRef.current
+      if (!el) return
+      el.focus()
+      el.setSelectionRange(before.length, before.length)
+      setCaret(before.length)
+    })
+  }
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (mentionMatches.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault()
+        const step = e.key === 'ArrowDown' ? 1 : -1
+        setMentionIndex((i) => (i + step + mentionMatches.length) % mentionMatches.length)
+        return
+      }
+      if ((e.key === 'Enter' && !e.shiftKey) || e.key === 'Tab') {
+        e.preventDefault()
+        insertMention(mentionMatches[Math.min(mentionIndex, mentionMatches.length - 1)])
+        return
+      }
+    }
+    if (slashQuery !== null) {
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        setSlashDismissed(true)
+        return
+      }
+      if (slashMatches.length > 0) {
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+          e.preventDefault()
+          const step = e.key === 'ArrowDown' ? 1 : -1
+          setSlashIndex((i) => (i + step + slashMatches.length) % slashMatches.length)
+          return
+        }
+        if ((e.key === 'Enter' && !e.shiftKey) || e.key === 'Tab') {
+          e.preventDefault()
+          insertSavedReply(slashMatches[Math.min(slashIndex, slashMatches.length - 1)])
+          return
+        }
+      }
+    }
+    if ((e.ctrlKey || e.metaKey) && (e.key === 'b' || e.key === 'i')) {
+      e.preventDefault()
+      applyFormat(e.key === 'b' ? '*' : '_', e.key === 'b' ? '*' : '_')
+      return
+    }
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault()
       handleSend()
@@ -371,7 +537,8 @@ export function MessageInput({ conversationId, onSend, disabled, linkedAnnouncem
     }
   }
 
-  const hasContent = text.trim().length > 0 || !!attachment
+  const hasContent = text.trim().length > 0 || (!!attachment && !noteMode)
+  const replyText = replyTo?.content ? messagePlainText(replyTo.content) : ''
 
   return (
     <div
@@ -408,8 +575,8 @@ export function MessageInput({ conversationId, onSend, disabled, linkedAnnouncem
           <div className="flex-1 min-w-0">
             <p className="text-[10px] font-semibold text-primary/70">{replyTo.sender.name}</p>
             <p className="text-xs text-muted-foreground truncate">
-              {replyTo.content
-                ? replyTo.content.slice(0, 60) + (replyTo.content.length > 60 ? '…' : '')
+              {replyText
+                ? replyText.slice(0, 60) + (replyText.length > 60 ? '…' : '')
                 : `[${replyTo.type.toLowerCase()}]`}
             </p>
           </div>
@@ -423,6 +590,14 @@ export function MessageInput({ conversationId, onSend, disabled, linkedAnnouncem
         </div>
       )}
 
+      {previewUrl && previewUrl === firstUrl && !previewDismissed && !attachment && !noteMode && (
+        <LinkPreviewCard
+          url={previewUrl}
+          onDismiss={() => setDismissedPreviewUrl(previewUrl)}
+          className="mb-2"
+        />
+      )}
+
       {uploading && (
         <div className="mb-2">
           <div className="flex items-center justify-between mb-1">
@@ -488,8 +663,98 @@ export function MessageInput({ conversationId, onSend, disabled, linkedAnnouncem
         </div>
       )}
 
+      {noteMode && (
+        <div className="mb-2 flex items-center gap-2 rounded-lg bg-amber-100/70 dark:bg-amber-900/20 px-3 py-1.5 text-xs text-amber-800 dark:text-amber-300">
+          <StickyNote className="h-3.5 w-3.5 shrink-0" />
+          <span className="flex-1">Internal note — only admins can see this. Type @ to mention a colleague.</span>
+        </div>
+      )}
+
+      {showFormatting && (
+        <div className="mb-2 flex items-center gap-0.5 rounded-lg bg-muted/40 px-1.5 py-1">
+          {FORMAT_ACTIONS.map((action) => (
+            <Tooltip key={action.label}>
+              <TooltipTrigger asChild>
+                <button
+                  type="button"
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => applyFormat(action.prefix, action.suffix)}
+                  disabled={disabled}
+                  className="h-7 w-7 flex items-center justify-center rounded-md hover:bg-accent text-muted-foreground hover:text-foreground transition-colors disabled:opacity-50"
+                  aria-label={action.label}
+                >
+                  <action.icon className="h-3.5 w-3.5" />
+                </button>
+              </TooltipTrigger>
+              <TooltipContent side="top" className="text-xs">{action.label}</TooltipContent>
+            </Tooltip>
+          ))}
+          <span className="ml-auto hidden sm:block truncate pl-2 text-[10px] text-muted-foreground font-mono">
+            {MESSAGE_FORMAT_HINTS.map((h) => h.example).join('  ')}
+          </span>
+        </div>
+      )}
+
       <div className="flex items-end gap-2 relative">
-        {canAttach && (
+        {mentionMatches.length > 0 && (
+          <MentionPicker
+            candidates={mentionMatches}
+            activeIndex={Math.min(mentionIndex, mentionMatches.length - 1)}
+            onHover={setMentionIndex}
+            onSelect={insertMention}
+          />
+        )}
+        {slashQuery !== null && mentionMatches.length === 0 && (
+          <SavedReplyPicker
+            replies={slashMatches}
+            query={slashQuery}
+            activeIndex={slashIndex}
+            isLoading={savedRepliesLoading}
+            onHover={setSlashIndex}
+            onSelect={insertSavedReply}
+          />
+        )}
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className={cn(
+                'h-10 w-10 rounded-full shrink-0 text-muted-foreground hover:bg-black/5 dark:hover:bg-white/5',
+                showFormatting && 'bg-black/5 dark:bg-white/5 text-foreground',
+              )}
+              onClick={() => setShowFormatting((v) => !v)}
+              disabled={disabled}
+              aria-pressed={showFormatting}
+            >
+              <Type className="h-4 w-4" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>Formatting</TooltipContent>
+        </Tooltip>
+
+        {onSendNote && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className={cn(
+                  'h-10 w-10 rounded-full shrink-0 text-muted-foreground hover:bg-black/5 dark:hover:bg-white/5',
+                  noteMode && 'bg-amber-100 text-amber-700 hover:bg-amber-100 dark:bg-amber-900/30 dark:text-amber-400',
+                )}
+                onClick={toggleNoteMode}
+                disabled={disabled}
+                aria-pressed={noteMode}
+              >
+                <StickyNote className="h-4 w-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>{noteMode ? 'Back to reply' : 'Internal note'}</TooltipContent>
+          </Tooltip>
+        )}
+
+        {canAttach && !noteMode && (
           <div className="relative">
             <Tooltip>
               <TooltipTrigger asChild>
@@ -547,10 +812,14 @@ export function MessageInput({ conversationId, onSend, disabled, linkedAnnouncem
           <Textarea
             ref={textareaRef}
             value={text}
-            onChange={(e) => handleTextChange(e.target.value)}
+            onChange={(e) => { handleTextChange(e.target.value); setCaret(e.target.selectionStart) }}
+            onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
             onKeyDown={handleKeyDown}
-            placeholder="Type a message…"
-            className="min-h-[44px] max-h-[120px] resize-none pr-14 pl-4 py-3 rounded-2xl bg-background border-transparent focus-visible:ring-0 shadow-sm transition-shadow text-[15px]"
+            placeholder={noteMode ? 'Write an internal note…' : savedReplyContext ? 'Type a message, or / for saved replies…' : 'Type a message…'}
+            className={cn(
+              'min-h-[44px] max-h-[120px] resize-none pr-14 pl-4 py-3 rounded-2xl bg-background border-transparent focus-visible:ring-0 shadow-sm transition-shadow text-[15px]',
+              noteMode && 'bg-amber-50 dark:bg-amber-950/30 ring-1 ring-amber-300/70 dark:ring-amber-700/50',
+            )}
             rows={1}
             disabled={disabled}
             enterKeyHint="send"
@@ -0,0 +1,63 @@
+import { useEffect, useRef } from 'react'
+import { MessageSquareQuote, Paperclip, Users } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { messagePlainText } from '@/lib/messageFormat'
+import type { SavedReply } from '@/lib/schemas'
+
+interface SavedReplyPickerProps {
+  replies: SavedReply[]
+  query: string
+  activeIndex: number
+  isLoading: boolean
+  onHover: (index: number) => void
+  onSelect: (reply: SavedReply) => void
+}
+
+// Opened from MessageInput by typing "/" — keyboard handling stays in the input so focus never moves
+export function SavedReplyPicker({ replies, query, activeIndex, isLoading, onHover, onSelect }: SavedReplyPickerProps) {
+  const listRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    listRef.current?.querySelector<HTMLElement>(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' })
+  }, [activeIndex])
+
+  return (
+    <div className="absolute bottom-full left-0 right-0 mb-2 bg-card border rounded-2xl shadow-xl z-50 overflow-hidden animate-in fade-in slide-in-from-bottom-2 duration-200">
+      <div className="flex items-center gap-2 px-3 py-2 border-b text-xs text-muted-foreground">
+        <MessageSquareQuote className="h-3.5 w-3.5" />
+        <span className="font-semibold text-foreground">Saved replies</span>
+        {query && <span className="truncate">matching “{query}”</span>}
+        <span className="ml-auto hidden sm:inline text-[10px]">↑↓ to navigate · Enter to insert · Esc to close</span>
+      </div>
+      <div ref={listRef} className="max-h-64 overflow-y-auto p-1">
+        {isLoading ? (
+          <p className="px-3 py-4 text-xs text-muted-foreground text-center">Loading…</p>
+        ) : replies.length === 0 ? (
+          <p className="px-3 py-4 text-xs text-muted-foreground text-center">No saved replies found</p>
+        ) : (
+          replies.map((reply, i) => (
+            <button
+              key={reply.id}
+              type="button"
+              data-index={i}
+              onMouseDown={(e) => e.preventDefault()}
+              onMouseEnter={() => onHover(i)}
+              onClick={() => onSelect(reply)}
+              className={cn(
+                'flex w-full flex-col items-start gap-0.5 rounded-lg px-3 py-2 text-left transition-colors',
+                i === activeIndex ? 'bg-accent' : 'hover:bg-accent/50',
+              )}
+            >
+              <span className="flex w-full items-center gap-1.5 text-sm font-medium">
+                <span className="truncate">{reply.title}</span>
+                {reply.shared && <Users className="h-3 w-3 shrink-0 text-muted-foreground" aria-label="Shared" />}
+                {reply.mediaId && <Paperclip className="h-3 w-3 shrink-0 text-muted-foreground" aria-label="Has attachment" />}
+              </span>
+              <span className="w-full truncate text-xs text-muted-foreground">{messagePlainText(reply.body)}</span>
+            </button>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,31 @@
+import { format } from 'date-fns'
+import { AlertTriangle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { LeafLogo } from '@/components/ui/LeafLogo'
+import { useCancelAccountDeletion } from '@/hooks/useAccountDeletion'
+import { useAuthStore } from '@/stores/authStore'
+import { cn, parseTimestamp } from '@/lib/utils'
+
+// Shown for as long as a self-service deletion is in its grace period
+export function AccountDeletionBanner({ className }: { className?: string }) {
+  const user = useAuthStore((s) => s.user)
+  const cancel = useCancelAccountDeletion()
+
+  if (!user?.deletionScheduledAt) return null
+
+  return (
+    <div className={cn('flex flex-col sm:flex-row sm:items-center gap-3 rounded-xl border border-red-200 bg-red-50 px-4 py-3 dark:border-red-900/40 dark:bg-red-950/20', className)}>
+      <AlertTriangle className="h-4 w-4 shrink-0 text-red-600 dark:text-red-400" />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-semibold text-red-800 dark:text-red-300">Your account is scheduled for deletion</p>
+        <p className="text-xs text-muted-foreground">
+          It will be permanently deleted on {format(parseTimestamp(user.deletionScheduledAt), 'MMMM d, yyyy')}. Cancel before then to keep it.
+        </p>
+      </div>
+      <Button size="sm" variant="outline" className="shrink-0 rounded-lg gap-1.5" disabled={cancel.isPending} onClick={() => cancel.mutate()}>
+        {cancel.isPending && <LeafLogo className="h-3.5 w-3.5 animate-spin" />}
+        Cancel deletion
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,65 @@
+import { ShieldAlert } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { LeafLogo } from '@/components/ui/LeafLogo'
+import { Markdown } from '@/components/ui/markdown'
+import { AnnouncementItem } from '@/components/chat/AnnouncementsBanner'
+import { useAcknowledgeAnnouncement, usePendingAcknowledgements, useVoteAnnouncement } from '@/hooks/useAnnouncements'
+
+// Blocks the app until every announcement that requires acknowledgement has been confirmed,
+// one at a time, oldest first as the server returns them
+export function AcknowledgementModal() {
+  const { data, refetch } = usePendingAcknowledgements()
+  const acknowledge = useAcknowledgeAnnouncement()
+  const vote = useVoteAnnouncement()
+
+  const pending = data?.announcements ?? []
+  const current = pending[0]
+  if (!current) return null
+
+  // Votes patch the list caches, not this one, so re-read it to show the new counts
+  const handleVote = (id: string, v: 'UP' | 'DOWN') => vote.mutate({ id, vote: v }, { onSettled: () => refetch() })
+
+  return (
+    <Dialog open>
+      <DialogContent
+        showCloseButton={false}
+        onEscapeKeyDown={(e) => e.preventDefault()}
+        onInteractOutside={(e) => e.preventDefault()}
+        className="sm:max-w-[520px]"
+      >
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5 text-destructive" />
+            Please confirm you've read this
+          </DialogTitle>
+          <DialogDescription>
+            {pending.length > 1
+              ? `${pending.length} announcements need your acknowledgement before you continue.`
+              : 'This announcement needs your acknowledgement before you continue.'}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-[50vh] overflow-y-auto space-y-2">
+          <AnnouncementItem key={current.id} announcement={current} onVote={handleVote} source="ACKNOWLEDGEMENT" />
+          {/* The minimal template is a single line; the full text still has to be shown */}
+          {current.template === 'MINIMAL' && (
+            <Markdown content={current.content} compact className="text-sm text-muted-foreground px-1 leading-relaxed" />
+          )}
+        </div>
+        <DialogFooter>
+          <Button onClick={() => acknowledge.mutate(current.id)} disabled={acknowledge.isPending} className="rounded-xl gap-2">
+            {acknowledge.isPending && <LeafLogo className="h-4 w-4 animate-spin" />}
+            I understand
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -14,6 +14,7 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
 import { ThemeToggle } from '@/components/layout/ThemeToggle'
+import { NotificationBell } from '@/components/layout/NotificationBell'
 import { useAuthStore } from '@/stores/authStore'
 import { useConversation } from '@/hooks/useMessages'
 import { LeafLogo } from '@/components/ui/LeafLogo'
@@ -123,6 +124,7 @@ export function AppHeader() {
         {/* Right section */}
         <div className="flex items-center gap-1 sm:gap-2 shrink-0">
           <ThemeToggle />
+          <NotificationBell />
 
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
@@ -0,0 +1,86 @@
+import { useState } from 'react'
+import { AlertTriangle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { PasswordInput } from '@/components/ui/password-input'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { LeafLogo } from '@/components/ui/LeafLogo'
+import { useRequestAccountDeletion } from '@/hooks/useAccountDeletion'
+
+const MAX_REASON_LENGTH = 500
+
+interface DeleteAccountDialogProps {
+  open: boolean
+  onClose: () => void
+  graceDays: number
+}
+
+export function DeleteAccountDialog({ open, onClose, graceDays }: DeleteAccountDialogProps) {
+  const requestDeletion = useRequestAccountDeletion()
+  const [password, setPassword] = useState('')
+  const [reason, setReason] = useState('')
+
+  const close = () => {
+    setPassword('')
+    setReason('')
+    onClose()
+  }
+
+  const submit = () => {
+    requestDeletion.mutate({ password, reason: reason.trim() || undefined }, { onSuccess: close })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => { if (!o) close() }}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-destructive" />
+            Delete Account
+          </DialogTitle>
+          <DialogDescription>
+            Your account and chat history will be permanently deleted after {graceDays} days. You can cancel any time before then by signing in.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={(e) => { e.preventDefault(); submit() }} className="space-y-4">
+          <div className="space-y-2">
+            <Label className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Confirm your password</Label>
+            <PasswordInput
+              autoFocus
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="••••••••"
+              autoComplete="current-password"
+              className="rounded-xl"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Why are you leaving? (optional)</Label>
+            <Textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+              maxLength={MAX_REASON_LENGTH}
+              className="rounded-xl resize-none"
+            />
+          </div>
+          <DialogFooter className="gap-2">
+            <Button type="button" variant="outline" onClick={close} className="rounded-xl">Cancel</Button>
+            <Button type="submit" variant="destructive" disabled={!password || requestDeletion.isPending} className="rounded-xl gap-2">
+              {requestDeletion.isPending && <LeafLogo className="h-4 w-4 animate-spin" />}
+              Schedule Deletion
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
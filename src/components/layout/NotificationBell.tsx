@@ -0,0 +1,109 @@
+import { ArrowRightLeft, AtSign, Bell, CheckCheck, Megaphone, UserCheck, UserPlus } from 'lucide-react'
+import { useNavigate } from 'react-router-dom'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuGroup,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  useNotificationInboxStore,
+  type InboxNotification,
+  type InboxNotificationType,
+} from '@/stores/notificationInboxStore'
+import { useAuthStore } from '@/stores/authStore'
+import { cn, formatRelativeTime } from '@/lib/utils'
+
+const GROUPS: { type: InboxNotificationType; label: string; icon: typeof Bell }[] = [
+  { type: 'assigned', label: 'Assignments', icon: UserCheck },
+  { type: 'transfer', label: 'Transfers', icon: ArrowRightLeft },
+  { type: 'mention', label: 'Mentions', icon: AtSign },
+  { type: 'user_registered', label: 'New users', icon: UserPlus },
+  { type: 'announcement', label: 'Announcements', icon: Megaphone },
+]
+
+const EMPTY: InboxNotification[] = []
+
+export function NotificationBell() {
+  const navigate = useNavigate()
+  const userId = useAuthStore((s) => s.user?.id)
+  const items = useNotificationInboxStore((s) => (s.userId === userId ? s.items : EMPTY))
+  const markRead = useNotificationInboxStore((s) => s.markRead)
+  const markAllRead = useNotificationInboxStore((s) => s.markAllRead)
+  const unread = items.filter((n) => !n.read).length
+
+  const open = (notification: InboxNotification) => {
+    markRead(notification.id)
+    navigate(notification.route)
+  }
+
+  const groups = GROUPS
+    .map((group) => ({ ...group, items: items.filter((n) => n.type === group.type) }))
+    .filter((group) => group.items.length > 0)
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative h-9 w-9 rounded-lg" aria-label="Notifications">
+          <Bell className="h-4 w-4" />
+          {unread > 0 && (
+            <span className="absolute top-1 right-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[9px] font-bold text-destructive-foreground">
+              {unread > 9 ? '9+' : unread}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-3 py-2.5 border-b">
+          <p className="text-sm font-semibold">Notifications</p>
+          {unread > 0 && (
+            <button
+              onClick={markAllRead}
+              className="flex items-center gap-1 text-xs text-primary hover:underline"
+            >
+              <CheckCheck className="h-3.5 w-3.5" />
+              Mark all read
+            </button>
+          )}
+        </div>
+
+        {groups.length === 0 ? (
+          <div className="flex flex-col items-center gap-2 py-8 text-muted-foreground">
+            <Bell className="h-6 w-6 opacity-40" />
+            <p className="text-xs">You're all caught up</p>
+          </div>
+        ) : (
+          <div className="max-h-96 overflow-y-auto p-1">
+            {groups.map(({ type, label, icon: Icon, items: groupItems }, i) => (
+              <DropdownMenuGroup key={type}>
+                {i > 0 && <DropdownMenuSeparator />}
+                <DropdownMenuLabel className="text-[10px] uppercase tracking-wide text-muted-foreground">
+                  {label}
+                </DropdownMenuLabel>
+                {groupItems.map((notification) => (
+                  <DropdownMenuItem
+                    key={notification.id}
+                    onClick={() => open(notification)}
+                    className="items-start gap-2.5 cursor-pointer"
+                  >
+                    <Icon className={cn('h-4 w-4 mt-0.5 shrink-0', notification.read ? 'text-muted-foreground' : 'text-primary')} />
+                    <div className="min-w-0 flex-1">
+                      <p className={cn('text-xs truncate', !notification.read && 'font-semibold')}>{notification.title}</p>
+                      <p className="text-xs text-muted-foreground truncate">{notification.body}</p>
+                      <p className="text-[10px] text-muted-foreground mt-0.5">{formatRelativeTime(notification.createdAt)}</p>
+                    </div>
+                    {!notification.read && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-primary" />}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuGroup>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,222 @@
+import { useState } from 'react'
+import { Copy, Download, KeyRound, ShieldCheck } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { PasswordInput } from '@/components/ui/password-input'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { LeafLogo } from '@/components/ui/LeafLogo'
+import { useDisableTwoFactor, useEnableTwoFactor, useRegenerateRecoveryCodes } from '@/hooks/useTwoFactor'
+import { downloadFile } from '@/lib/transcript'
+
+const labelClass = 'text-xs font-semibold uppercase tracking-wider text-muted-foreground'
+
+function CodeInput({ value, onChange, autoFocus = true }: { value: string; onChange: (value: string) => void; autoFocus?: boolean }) {
+  return (
+    <Input
+      autoFocus={autoFocus}
+      value={value}
+      onChange={(e) => onChange(e.target.value.replace(/\D/g, '').slice(0, 6))}
+      placeholder="123456"
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      className="rounded-xl text-center font-mono tracking-widest"
+    />
+  )
+}
+
+function RecoveryCodes({ codes }: { codes: string[] }) {
+  const text = codes.join('\n')
+  const copy = () => {
+    navigator.clipboard.writeText(text).then(() => toast.success('Recovery codes copied'), () => toast.error('Copy failed'))
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-1.5 rounded-xl border bg-muted/40 p-3 font-mono text-sm">
+        {codes.map((code) => <span key={code}>{code}</span>)}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Each code works once. Store them somewhere safe — they are the only way in if you lose your authenticator.
+      </p>
+      <div className="flex gap-2">
+        <Button type="button" size="sm" variant="outline" className="gap-1.5 rounded-lg" onClick={copy}>
+          <Copy className="h-3.5 w-3.5" />Copy
+        </Button>
+        <Button type="button" size="sm" variant="outline" className="gap-1.5 rounded-lg" onClick={() => downloadFile('recovery-codes.txt', text, 'text/plain;charset=utf-8')}>
+          <Download className="h-3.5 w-3.5" />Download
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+// ─── Enrollment ──────────────────────────────────────────────────────────────
+
+interface TwoFactorSetupDialogProps {
+  /** From `auth.setupTwoFactor`; the dialog is open while this is set */
+  enrollment: { secret: string; qrCode: string } | null
+  onClose: () => void
+}
+
+export function TwoFactorSetupDialog({ enrollment, onClose }: TwoFactorSetupDialogProps) {
+  const enable = useEnableTwoFactor()
+  const [code, setCode] = useState('')
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+
+  const close = () => {
+    setCode('')
+    setRecoveryCodes(null)
+    onClose()
+  }
+
+  const submit = () => {
+    enable.mutate(code, { onSuccess: (res) => setRecoveryCodes(res.recoveryCodes) })
+  }
+
+  return (
+    <Dialog open={!!enrollment} onOpenChange={(o) => { if (!o) close() }}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-primary" />
+            {recoveryCodes ? 'Save Your Recovery Codes' : 'Set Up Two-Factor Authentication'}
+          </DialogTitle>
+          <DialogDescription>
+            {recoveryCodes
+              ? 'Two-factor authentication is on. You won\'t be able to see these codes again.'
+              : 'Scan the QR code with an authenticator app, then enter the 6-digit code it shows.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {recoveryCodes ? (
+          <>
+            <RecoveryCodes codes={recoveryCodes} />
+            <DialogFooter>
+              <Button onClick={close} className="rounded-xl">Done</Button>
+            </DialogFooter>
+          </>
+        ) : enrollment && (
+          <form onSubmit={(e) => { e.preventDefault(); submit() }} className="space-y-4">
+            <div className="flex flex-col items-center gap-3">
+              <img src={enrollment.qrCode} alt="Authenticator QR code" className="h-44 w-44 rounded-xl border bg-white p-2" />
+              <div className="text-center">
+                <p className="text-[10px] text-muted-foreground">Can't scan? Enter this key manually</p>
+                <code className="text-xs font-mono break-all select-all">{enrollment.secret}</code>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label className={labelClass}>Verification code</Label>
+              <CodeInput value={code} onChange={setCode} />
+            </div>
+            <DialogFooter className="gap-2">
+              <Button type="button" variant="outline" onClick={close} className="rounded-xl">Cancel</Button>
+              <Button type="submit" disabled={code.length !== 6 || enable.isPending} className="rounded-xl gap-2">
+                {enable.isPending && <LeafLogo className="h-4 w-4 animate-spin" />}
+                Enable
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// ─── Disable / new recovery codes ────────────────────────────────────────────
+
+interface TwoFactorConfirmDialogProps {
+  mode: 'disable' | 'regenerate' | null
+  onClose: () => void
+}
+
+export function TwoFactorConfirmDialog({ mode, onClose }: TwoFactorConfirmDialogProps) {
+  const disable = useDisableTwoFactor()
+  const regenerate = useRegenerateRecoveryCodes()
+  const [password, setPassword] = useState('')
+  const [code, setCode] = useState('')
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+
+  const isPending = disable.isPending || regenerate.isPending
+
+  const close = () => {
+    setPassword('')
+    setCode('')
+    setRecoveryCodes(null)
+    onClose()
+  }
+
+  const submit = () => {
+    if (mode === 'disable') disable.mutate({ password, code }, { onSuccess: close })
+    else regenerate.mutate(code, { onSuccess: (res) => setRecoveryCodes(res.recoveryCodes) })
+  }
+
+  return (
+    <Dialog open={mode !== null} onOpenChange={(o) => { if (!o) close() }}>
+      <DialogContent className="sm:max-w-[400px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5 text-primary" />
+            {mode === 'disable' ? 'Turn Off Two-Factor Authentication' : 'New Recovery Codes'}
+          </DialogTitle>
+          <DialogDescription>
+            {recoveryCodes
+              ? 'Your previous recovery codes no longer work.'
+              : mode === 'disable'
+                ? 'Confirm your password and a current code from your authenticator app.'
+                : 'Enter a current code from your authenticator app. Existing recovery codes will stop working.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {recoveryCodes ? (
+          <>
+            <RecoveryCodes codes={recoveryCodes} />
+            <DialogFooter>
+              <Button onClick={close} className="rounded-xl">Done</Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <form onSubmit={(e) => { e.preventDefault(); submit() }} className="space-y-4">
+            {mode === 'disable' && (
+              <div className="space-y-2">
+                <Label className={labelClass}>Password</Label>
+                <PasswordInput
+                  autoFocus
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="••••••••"
+                  autoComplete="current-password"
+                  className="rounded-xl"
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label className={labelClass}>Authenticator code</Label>
+              <CodeInput value={code} onChange={setCode} autoFocus={mode !== 'disable'} />
+            </div>
+            <DialogFooter className="gap-2">
+              <Button type="button" variant="outline" onClick={close} className="rounded-xl">Cancel</Button>
+              <Button
+                type="submit"
+                variant={mode === 'disable' ? 'destructive' : 'default'}
+                disabled={code.length !== 6 || (mode === 'disable' && !password) || isPending}
+                className="rounded-xl gap-2"
+              >
+                {isPending && <LeafLogo className="h-4 w-4 animate-spin" />}
+                {mode === 'disable' ? 'Turn Off' : 'Generate Codes'}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,108 @@
+import { useMemo, type ReactNode } from 'react'
+import { cn } from '@/lib/utils'
+import { parseMarkdown, isExternalUrl, type MarkdownBlock, type MarkdownInline } from '@/lib/markdown'
+
+interface MarkdownProps {
+  content: string
+  className?: string
+  /** Tighter spacing and no oversized headings — for cards, banners and previews. */
+  compact?: boolean
+  /** Render links as plain styled text — required when nested inside a button or link. */
+  interactive?: boolean
+}
+
+function renderInline(nodes: MarkdownInline[], interactive: boolean, keyPrefix = ''): ReactNode[] {
+  return nodes.map((node, i) => {
+    const key = `${keyPrefix}${i}`
+    switch (node.type) {
+      case 'text':
+        return node.text
+      case 'break':
+        return <br key={key} />
+      case 'strong':
+        return <strong key={key} className="font-semibold text-foreground">{renderInline(node.children, interactive, `${key}-`)}</strong>
+      case 'em':
+        return <em key={key}>{renderInline(node.children, interactive, `${key}-`)}</em>
+      case 'code':
+        return <code key={key} className="rounded bg-muted px-1 py-0.5 font-mono text-[0.9em]">{node.text}</code>
+      case 'link': {
+        if (!interactive) {
+          return <span key={key} className="font-medium text-primary">{renderInline(node.children, interactive, `${key}-`)}</span>
+        }
+        const external = isExternalUrl(node.href)
+        return (
+          <a
+            key={key}
+            href={node.href}
+            className="font-medium text-primary underline underline-offset-2 hover:text-primary/80 break-words"
+            onClick={(e) => e.stopPropagation()}
+            {...(external ? { target: '_blank', rel: 'noopener noreferrer nofollow' } : {})}
+          >
+            {renderInline(node.children, interactive, `${key}-`)}
+          </a>
+        )
+      }
+    }
+  })
+}
+
+function renderBlocks(blocks: MarkdownBlock[], compact: boolean, interactive: boolean, keyPrefix = ''): ReactNode[] {
+  return blocks.map((block, i) => {
+    const key = `${keyPrefix}${i}`
+    switch (block.type) {
+      case 'heading': {
+        const Tag = `h${block.level}` as 'h1' | 'h2' | 'h3'
+        return (
+          <Tag
+            key={key}
+            className={cn(
+              'font-semibold tracking-tight text-foreground',
+              compact ? 'text-[1em]' : block.level === 1 ? 'text-xl mt-6' : block.level === 2 ? 'text-lg mt-5' : 'text-base mt-4',
+            )}
+          >
+            {renderInline(block.children, interactive)}
+          </Tag>
+        )
+      }
+      case 'paragraph':
+        return <p key={key}>{renderInline(block.children, interactive)}</p>
+      case 'list': {
+        const Tag = block.ordered ? 'ol' : 'ul'
+        return (
+          <Tag
+            key={key}
+            start={block.ordered && block.start !== 1 ? block.start : undefined}
+            className={cn('pl-5 space-y-0.5', block.ordered ? 'list-decimal' : 'list-disc')}
+          >
+            {block.items.map((item, j) => <li key={j}>{renderInline(item, interactive)}</li>)}
+          </Tag>
+        )
+      }
+      case 'blockquote':
+        return (
+          <blockquote key={key} className="border-l-2 border-muted-foreground/30 pl-3 italic text-muted-foreground">
+            {renderBlocks(block.children, compact, interactive, `${key}-`)}
+          </blockquote>
+        )
+      case 'code':
+        return (
+          <pre key={key} className={cn('rounded-lg bg-muted font-mono text-[0.85em] overflow-x-auto', compact ? 'px-2 py-1' : 'px-3 py-2')}>
+            <code>{block.text}</code>
+          </pre>
+        )
+      case 'rule':
+        return <hr key={key} className="border-border" />
+    }
+  })
+}
+
+/** Renders announcement Markdown as React elements — raw HTML in the source is shown as text. */
+export function Markdown({ content, className, compact = false, interactive = true }: MarkdownProps) {
+  const blocks = useMemo(() => parseMarkdown(content), [content])
+
+  return (
+    <div className={cn('break-words', compact ? 'space-y-1' : 'space-y-3', className)}>
+      {renderBlocks(blocks, compact, interactive)}
+    </div>
+  )
+}
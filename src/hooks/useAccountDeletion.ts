@@ -0,0 +1,28 @@
+import { useMutation } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { auth, ApiError } from '@/lib/api'
+import { useAuthStore } from '@/stores/authStore'
+
+export function useRequestAccountDeletion() {
+  const setUser = useAuthStore((s) => s.setUser)
+  return useMutation({
+    mutationFn: (data: { password: string; reason?: string }) => auth.requestDeletion(data),
+    onSuccess: (res) => {
+      setUser(res.user)
+      toast.success('Account deletion scheduled')
+    },
+    onError: (err) => toast.error(err instanceof ApiError ? err.message : 'Failed to schedule deletion'),
+  })
+}
+
+export function useCancelAccountDeletion() {
+  const setUser = useAuthStore((s) => s.setUser)
+  return useMutation({
+    mutationFn: () => auth.cancelDeletion(),
+    onSuccess: (res) => {
+      setUser(res.user)
+      toast.success('Account deletion cancelled')
+    },
+    onError: () => toast.error('Failed to cancel deletion'),
+  })
+}
@@ -1,7 +1,13 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useEffect } from 'react'
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { announcementsApi } from '@/lib/api'
-import type { Announcement, AnnouncementComment, AnnouncementType } from '@/lib/schemas'
+import { isScheduled } from '@/lib/announcementSchedule'
+import type {
+  Announcement, AnnouncementComment, AnnouncementRecurrenceFrequency, AnnouncementType, AnnouncementViewSource,
+  AcknowledgementStatus, AudienceSegmentRules, AnnouncementRevision,
+} from '@/lib/schemas'
 import { toast } from 'sonner'
+import { useAuthStore } from '@/stores/authStore'
 
 type AnnouncementsCache = { success: boolean; announcements: Announcement[]; hasMore: boolean }
 type CommentsCache = { success: boolean; comments: AnnouncementComment[]; hasMore: boolean }
@@ -23,6 +29,16 @@ export function useAnnouncements(includeInactive?: boolean, limit = 50) {
   })
 }
 
+/** Announcements with a publish still ahead: not yet live, or recurring with occurrences left */
+export function useScheduledAnnouncements(enabled = true) {
+  return useQuery({
+    queryKey: ['scheduled-announcements'],
+    queryFn: () => announcementsApi.list({ scheduled: true, limit: 100 }),
+    enabled,
+    staleTime: 60_000,
+  })
+}
+
 export function useCreateAnnouncement() {
   const queryClient = useQueryClient()
 
@@ -35,13 +51,24 @@ export function useCreateAnnouncement() {
       mediaId?: string
       targetRoles?: string[]
       expiresAt?: string
+      publishAt?: string
+      recurrence?: { frequency: AnnouncementRecurrenceFrequency; endsAt: string | null }
+      requiresAcknowledgement?: boolean
+      segment?: { segmentId?: string; rules: AudienceSegmentRules }
     }) => announcementsApi.create(data),
     onSuccess: (res) => {
-      queryClient.setQueriesData<AnnouncementsCache>({ queryKey: ['announcements'] }, (old) => {
-        if (!old) return old
-        return { ...old, announcements: [res.announcement, ...old.announcements] }
-      })
-      toast.success('Announcement published')
+      const scheduled = isScheduled(res.announcement)
+      // A scheduled one joins the live lists when `announcement:new` fires at publish time
+      if (!scheduled) {
+        queryClient.setQueriesData<AnnouncementsCache>({ queryKey: ['announcements'] }, (old) => {
+          if (!old) return old
+          return { ...old, announcements: [res.announcement, ...old.announcements] }
+        })
+      }
+      if (scheduled || res.announcement.recurrence) {
+        queryClient.invalidateQueries({ queryKey: ['scheduled-announcements'] })
+      }
+      toast.success(scheduled ? 'Announcement scheduled' : 'Announcement published')
     },
     onError: (err) => {
       toast.error(err instanceof Error ? err.message : 'Failed to create announcement')
@@ -62,6 +89,10 @@ export function useUpdateAnnouncement() {
       mediaId?: string | null
       targetRoles?: string[] | null
       expiresAt?: string | null
+      publishAt?: string | null
+      recurrence?: { frequency: AnnouncementRecurrenceFrequency; endsAt: string | null } | null
+      requiresAcknowledgement?: boolean
+      segment?: { segmentId?: string; rules: AudienceSegmentRules } | null
       isActive?: boolean
     }) => announcementsApi.update(id, data),
     onSuccess: (res) => {
@@ -69,10 +100,12 @@ export function useUpdateAnnouncement() {
         if (!old) return old
         return { ...old, announcements: old.announcements.map((a) => a.id === res.announcement.id ? res.announcement : a) }
       })
+      queryClient.invalidateQueries({ queryKey: ['scheduled-announcements'] })
       queryClient.setQueryData<{ success: boolean; announcement: Announcement }>(
         ['announcement', res.announcement.id],
         (old) => old ? { ...old, announcement: res.announcement } : old
       )
+      queryClient.invalidateQueries({ queryKey: ['announcement-revisions', res.announcement.id] })
       toast.success('Announcement updated')
     },
     onError: (err) => {
@@ -141,6 +174,9 @@ export function useDeleteAnnouncement() {
         if (!old) return old
         return { ...old, announcements: old.announcements.filter((a) => a.id !== id) }
       })
+      queryClient.setQueryData<AnnouncementsCache>(['scheduled-announcements'], (old) =>
+        old ? { ...old, announcements: old.announcements.filter((a) => a.id !== id) } : old
+      )
       queryClient.removeQueries({ queryKey: ['announcement', id] })
       toast.success('Announcement removed')
     },
@@ -233,3 +269,138 @@ export function useDeleteComment(announcementId: string | undefined) {
     onError: () => toast.error('Failed to delete comment'),
   })
 }
+
+// ── Read receipts ────────────────────────────────────────────────────────────
+
+// Views already posted this session as `userId:announcementId`, so remounts and cache refreshes
+// don't repost them — keyed by user so a different account signing in on this tab still records its own
+const recordedViews = new Set<string>()
+
+/** Records that the current user has seen the announcement, once, when it first renders. */
+export function useTrackAnnouncementView(announcement: Announcement | undefined, source: AnnouncementViewSource) {
+  const queryClient = useQueryClient()
+  const userId = useAuthStore((s) => s.user?.id)
+  const id = announcement?.id
+  const alreadyViewed = !!announcement?.userViewedAt
+
+  useEffect(() => {
+    if (!id || !userId || alreadyViewed) return
+    const key = `${userId}:${id}`
+    if (recordedViews.has(key)) return
+    recordedViews.add(key)
+
+    const markViewed = (a: Announcement): Announcement => a.userViewedAt ? a : { ...a, userViewedAt: Date.now(), viewCount: (a.viewCount ?? 0) + 1 }
+    announcementsApi.markViewed(id, source)
+      .then(() => {
+        queryClient.setQueryData<{ success: boolean; announcement: Announcement }>(
+          ['announcement', id],
+          (old) => old ? { ...old, announcement: markViewed(old.announcement) } : old
+        )
+        queryClient.setQueriesData<AnnouncementsCache>({ queryKey: ['announcements'] }, (old) => {
+          if (!old) return old
+          return { ...old, announcements: old.announcements.map((a) => a.id === id ? markViewed(a) : a) }
+        })
+      })
+      // Not worth surfacing; the next mount retries
+      .catch(() => recordedViews.delete(key))
+  }, [id, userId, alreadyViewed, source, queryClient])
+}
+
+export function useAnnouncementAnalytics(id: string | undefined, days: number, enabled = true) {
+  return useQuery({
+    queryKey: ['announcement-analytics', id, days],
+    queryFn: () => announcementsApi.analytics(id!, { days }),
+    enabled: !!id && enabled,
+    staleTime: 60_000,
+  })
+}
+
+// ── Acknowledgements ─────────────────────────────────────────────────────────
+
+export function usePendingAcknowledgements(enabled = true) {
+  return useQuery({
+    queryKey: ['announcement-acknowledgements', 'pending'],
+    queryFn: () => announcementsApi.pendingAcknowledgements(),
+    enabled,
+    staleTime: 60_000,
+  })
+}
+
+export function useAcknowledgeAnnouncement() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => announcementsApi.acknowledge(id),
+    onSuccess: (res, id) => {
+      queryClient.setQueryData<{ success: boolean; announcements: Announcement[] }>(
+        ['announcement-acknowledgements', 'pending'],
+        (old) => old ? { ...old, announcements: old.announcements.filter((a) => a.id !== id) } : old
+      )
+      const acknowledge = (a: Announcement): Announcement => ({ ...a, userAcknowledgedAt: res.acknowledgedAt })
+      queryClient.setQueryData<{ success: boolean; announcement: Announcement }>(
+        ['announcement', id],
+        (old) => old ? { ...old, announcement: acknowledge(old.announcement) } : old
+      )
+      queryClient.setQueriesData<AnnouncementsCache>({ queryKey: ['announcements'] }, (old) => {
+        if (!old) return old
+        return { ...old, announcements: old.announcements.map((a) => a.id === id ? acknowledge(a) : a) }
+      })
+      queryClient.invalidateQueries({ queryKey: ['announcement-acknowledgements', id] })
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : 'Failed to record acknowledgement')
+    },
+  })
+}
+
+export function useAnnouncementAcknowledgements(id: string | undefined, status: AcknowledgementStatus) {
+  return useInfiniteQuery({
+    queryKey: ['announcement-acknowledgements', id, status],
+    queryFn: ({ pageParam }) => announcementsApi.acknowledgements(id!, { status, before: pageParam, limit: 50 }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (last) => {
+      const entries = last.acknowledgements
+      return last.hasMore && entries.length > 0 ? entries[entries.length - 1].user.id : undefined
+    },
+    enabled: !!id,
+    staleTime: 30_000,
+  })
+}
+
+// ── Revisions ────────────────────────────────────────────────────────────────
+
+export function useAnnouncementRevisions(id: string | undefined, enabled = true) {
+  return useQuery({
+    queryKey: ['announcement-revisions', id],
+    queryFn: () => announcementsApi.revisions(id!),
+    enabled: !!id && enabled,
+    staleTime: 60_000,
+  })
+}
+
+export function useRestoreAnnouncementRevision() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, revisionId }: { id: string; revisionId: string }) => announcementsApi.restoreRevision(id, revisionId),
+    onSuccess: (res) => {
+      const { announcement } = res
+      queryClient.setQueriesData<AnnouncementsCache>({ queryKey: ['announcements'] }, (old) => {
+        if (!old) return old
+        return { ...old, announcements: old.announcements.map((a) => a.id === announcement.id ? announcement : a) }
+      })
+      queryClient.setQueryData<{ success: boolean; announcement: Announcement }>(
+        ['announcement', announcement.id],
+        (old) => old ? { ...old, announcement } : old
+      )
+      queryClient.setQueryData<{ success: boolean; revisions: AnnouncementRevision[] }>(
+        ['announcement-revisions', announcement.id],
+        (old) => old ? { ...old, revisions: [res.revision, ...old.revisions] } : old
+      )
+      toast.success(res.revision.restoredFrom ? `Restored version ${res.revision.restoredFrom}` : 'Announcement restored')
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : 'Failed to restore revision')
+    },
+  })
+}
@@ -0,0 +1,97 @@
+import { useEffect, useState } from 'react'
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query'
+import { adminUsers, audienceSegments } from '@/lib/api'
+import type { AudienceSegment, AudienceSegmentRules } from '@/lib/schemas'
+import { toast } from 'sonner'
+
+type SegmentsCache = { success: boolean; segments: AudienceSegment[] }
+
+const SEGMENTS_KEY = ['announcement-segments']
+
+export function useAudienceSegments(enabled = true) {
+  return useQuery({
+    queryKey: SEGMENTS_KEY,
+    queryFn: () => audienceSegments.list(),
+    enabled,
+    staleTime: 5 * 60_000,
+  })
+}
+
+export function useCreateAudienceSegment() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: { name: string; rules: AudienceSegmentRules }) => audienceSegments.create(data),
+    onSuccess: ({ segment }) => {
+      queryClient.setQueryData<SegmentsCache>(SEGMENTS_KEY, (old) =>
+        old ? { ...old, segments: [...old.segments, segment] } : old,
+      )
+      toast.success('Segment saved')
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : 'Failed to save segment')
+    },
+  })
+}
+
+export function useUpdateAudienceSegment() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: { name?: string; rules?: AudienceSegmentRules } }) => audienceSegments.update(id, data),
+    onSuccess: ({ segment }) => {
+      queryClient.setQueryData<SegmentsCache>(SEGMENTS_KEY, (old) =>
+        old ? { ...old, segments: old.segments.map((s) => (s.id === segment.id ? segment : s)) } : old,
+      )
+      toast.success('Segment updated')
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : 'Failed to update segment')
+    },
+  })
+}
+
+export function useDeleteAudienceSegment() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => audienceSegments.remove(id),
+    onSuccess: (_, id) => {
+      queryClient.setQueryData<SegmentsCache>(SEGMENTS_KEY, (old) =>
+        old ? { ...old, segments: old.segments.filter((s) => s.id !== id) } : old,
+      )
+      toast.success('Segment deleted')
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete segment')
+    },
+  })
+}
+
+/** Live audience size for the editor, re-queried a moment after the targeting stops changing. */
+export function useAudiencePreview(targetRoles: string[] | null, rules: AudienceSegmentRules | null) {
+  const [debounced, setDebounced] = useState({ targetRoles, rules })
+
+  const key = JSON.stringify({ targetRoles, rules })
+  useEffect(() => {
+    const t = setTimeout(() => setDebounced(JSON.parse(key)), 400)
+    return () => clearTimeout(t)
+  }, [key])
+
+  return useQuery({
+    queryKey: ['announcement-segments', 'preview', debounced],
+    queryFn: () => audienceSegments.preview(debounced),
+    placeholderData: keepPreviousData,
+    staleTime: 30_000,
+  })
+}
+
+/** Users matching a search, for hand-picking segment members */
+export function useSegmentUserSearch(search: string) {
+  return useQuery({
+    queryKey: ['announcement-segments', 'user-search', search],
+    queryFn: () => adminUsers.list({ search, limit: 8 }),
+    enabled: search.length >= 2,
+    staleTime: 30_000,
+  })
+}
@@ -1,11 +1,14 @@
-import { useEffect, useRef } from 'react'
-import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useCallback, useEffect, useRef } from 'react'
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient, type InfiniteData } from '@tanstack/react-query'
 import { adminDM } from '@/lib/api'
 import type { DMConversation } from '@/lib/api'
 import { getSocket } from '@/lib/socket'
 import { toast } from 'sonner'
 import type { DirectMessage } from '@/lib/schemas'
 import { useAuthStore } from '@/stores/authStore'
+import { useOutboxStore } from '@/stores/outboxStore'
+import { isRetryableError, mergePending } from '@/lib/outbox'
+import { usePendingMessages } from '@/hooks/useOutbox'
 
 const KEY = (adminId: string) => ['dm', adminId]
 const CONVOS_KEY = ['dm', 'conversations']
@@ -61,6 +64,12 @@ export function useDMConversations() {
 
 export function useDMMessages(adminId: string | null) {
   const queryClient = useQueryClient()
+  const pending = usePendingMessages<DirectMessage>('dm', adminId ?? undefined)
+  const withPending = useCallback(
+    (data: InfiniteData<{ success: boolean; messages: DirectMessage[]; hasMore: boolean; partner: { id: string; name: string; role: string } }, string | undefined>) =>
+      mergePending(data, pending, true) as typeof data,
+    [pending],
+  )
 
   const query = useInfiniteQuery({
     queryKey: adminId ? KEY(adminId) : ['dm', '__none__'],
@@ -72,6 +81,7 @@ export function useDMMessages(adminId: string | null) {
     },
     initialPageParam: undefined as string | undefined,
     enabled: !!adminId,
+    select: withPending,
     staleTime: 30_000,
   })
 
@@ -82,6 +92,7 @@ export function useDMMessages(adminId: string | null) {
 
     const onDM = (data: { message: DirectMessage; tempId?: string }) => {
       const { message, tempId } = data
+      if (tempId) useOutboxStore.getState().remove(tempId)
       const isInThread =
         message.senderId === adminId || message.recipientId === adminId
       if (!isInThread) return
@@ -163,11 +174,25 @@ export function useSendDM(adminId: string | null) {
   const tempIdRef = useRef('')
 
   return useMutation({
-    mutationFn: (data: { content?: string; type?: string; mediaId?: string; replyToId?: string }) => {
+    mutationFn: async (data: { content?: string; type?: string; mediaId?: string; replyToId?: string; linkPreview?: boolean }) => {
       if (!adminId) throw new Error('No admin selected')
       // onMutate runs before mutationFn — read the tempId it already stored
       const tempId = tempIdRef.current
-      return adminDM.send(adminId, { ...data, tempId })
+      const outbox = useOutboxStore.getState()
+      // Offline or dropped connection: keep it in the outbox for replay on reconnect
+      if (!navigator.onLine) {
+        outbox.update(tempId, { state: 'queued' })
+        return null
+      }
+      try {
+        const res = await adminDM.send(adminId, { ...data, tempId })
+        outbox.remove(tempId)
+        return res
+      } catch (err) {
+        if (!isRetryableError(err)) throw err
+        outbox.update(tempId, { state: 'queued' })
+        return null
+      }
     },
     onMutate: async (data) => {
       if (!adminId) return
@@ -186,6 +211,7 @@ export function useSendDM(adminId: string | null) {
         media: null,
         replyToId: data.replyToId ?? null,
         replyTo: null,
+        linkPreview: data.linkPreview,
         createdAt: new Date().toISOString(),
         deletedAt: null,
       }
@@ -196,19 +222,28 @@ export function useSendDM(adminId: string | null) {
           return { ...old, pages: old.pages.map((p, i) => i === 0 ? { ...p, messages: [optimistic, ...p.messages] } : p) }
         }
       )
+      useOutboxStore.getState().enqueue({
+        tempId,
+        kind: 'dm',
+        targetId: adminId,
+        userId: currentUser.id,
+        payload: { ...data, type: data.type ?? 'TEXT' },
+        message: optimistic,
+        state: 'sending',
+        attempts: 0,
+        createdAt: Date.now(),
+      })
       return { tempId }
     },
+    // Keep the bubble so the sender can tap to retry instead of losing the message
     onError: (_err, _data, context) => {
-      if (context?.tempId && adminId) {
-        queryClient.setQueryData<{ pages: Array<{ messages: DirectMessage[]; hasMore: boolean }> }>(
-          KEY(adminId),
-          (old) => old ? { ...old, pages: old.pages.map(p => ({ ...p, messages: p.messages.filter(m => m.id !== context.tempId) })) } : old
-        )
+      if (context?.tempId) {
+        useOutboxStore.getState().update(context.tempId, { state: 'failed' })
       }
       toast.error('Failed to send message')
     },
     onSuccess: (res, _data, context) => {
-      if (!adminId) return
+      if (!adminId || !res) return
       const tempId = context?.tempId
       queryClient.setQueryData<{ pages: Array<{ messages: DirectMessage[]; hasMore: boolean }> }>(
         KEY(adminId),
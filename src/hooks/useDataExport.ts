@@ -0,0 +1,26 @@
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { useAppConfig } from '@/hooks/useConfig'
+import { buildDataExportZip, collectMyData, dataExportFilename, type DataExportProgress } from '@/lib/dataExport'
+import { downloadFile } from '@/lib/transcript'
+
+export function useDataExport() {
+  const { data: config } = useAppConfig()
+  const [progress, setProgress] = useState<DataExportProgress | null>(null)
+
+  const start = async () => {
+    if (progress || !config) return
+    try {
+      const data = await collectMyData(setProgress)
+      setProgress({ step: 'packaging' })
+      downloadFile(dataExportFilename(data.user), buildDataExportZip(data, config.brand))
+      toast.success('Your data has been downloaded')
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to export your data')
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  return { start, progress, isExporting: progress !== null }
+}
@@ -1,20 +1,33 @@
-import { useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query'
-import { useEffect } from 'react'
+import { useInfiniteQuery, useMutation, useQueryClient, type InfiniteData } from '@tanstack/react-query'
+import { useCallback, useEffect } from 'react'
 import { adminInternal } from '@/lib/api'
 import { getSocket } from '@/lib/socket'
 import type { InternalMessage } from '@/lib/schemas'
 import { toast } from 'sonner'
+import { useAuthStore } from '@/stores/authStore'
+import { useOutboxStore } from '@/stores/outboxStore'
+import { isRetryableError, mergePending } from '@/lib/outbox'
+import { usePendingMessages } from '@/hooks/useOutbox'
 
 const KEY = ['internal-messages'] as const
 
 export function useInternalMessages() {
   const queryClient = useQueryClient()
+  const pending = usePendingMessages<InternalMessage>('internal', 'internal')
+  const withPending = useCallback(
+    (data: InfiniteData<{ success: boolean; messages: InternalMessage[]; hasMore: boolean }, string | undefined>) =>
+      mergePending(data, pending, true) as typeof data,
+    [pending],
+  )
 
   useEffect(() => {
     const socket = getSocket()
     if (!socket) return
 
-    const onNew = (data: { message: InternalMessage }) => {
+    const onNew = (data: { message: InternalMessage; tempId?: string }) => {
+      const { message, tempId } = data
+      // Our own send echoed back: it has reached the server, so it leaves the outbox
+      if (tempId) useOutboxStore.getState().remove(tempId)
       queryClient.setQueryData<{
         pages: Array<{ success: boolean; messages: InternalMessage[]; hasMore: boolean }>
         pageParams: unknown[]
@@ -22,9 +35,12 @@ export function useInternalMessages() {
         if (!old) return old
         return {
           ...old,
-          pages: old.pages.map((page, i) =>
-            i === 0 ? { ...page, messages: [data.message, ...page.messages] } : page
-          ),
+          pages: old.pages.map((page, i) => {
+            if (i !== 0) return page
+            const filtered = tempId ? page.messages.filter((m) => m.id !== tempId) : page.messages
+            const exists = filtered.some((m) => m.id === message.id)
+            return { ...page, messages: exists ? filtered : [message, ...filtered] }
+          }),
         }
       })
     }
@@ -99,6 +115,7 @@ export function useInternalMessages() {
       return last.messages[last.messages.length - 1]?.id
     },
     initialPageParam: undefined as string | undefined,
+    select: withPending,
     staleTime: 30_000,
   })
 }
@@ -107,7 +124,7 @@ export function useSendInternalMessage() {
   const queryClient = useQueryClient()
 
   return useMutation({
-    mutationFn: (vars: { type?: string; content?: string; mediaId?: string; replyToId?: string; tempId: string }) => {
+    mutationFn: async (vars: { type?: string; content?: string; mediaId?: string; replyToId?: string; linkPreview?: boolean; tempId: string }) => {
       const socket = getSocket()
       const msgType = vars.type ?? 'TEXT'
       // Use HTTP for media messages so we get immediate cache update with CDN URL
@@ -117,28 +134,51 @@ export function useSendInternalMessage() {
           content: vars.content,
           mediaId: vars.mediaId,
           replyToId: vars.replyToId,
+          linkPreview: vars.linkPreview,
           tempId: vars.tempId,
-        } as any)
-        return Promise.resolve(null as null)
+        })
+
+        // Timeout: if the internal:message echo hasn't cleared the outbox entry within 8s, mark it failed
+        setTimeout(() => {
+          const outbox = useOutboxStore.getState()
+          if (outbox.entries[vars.tempId]?.state !== 'sending') return
+          outbox.update(vars.tempId, { state: 'failed' })
+          toast.error('Message failed to send. Tap it to retry.')
+        }, 8000)
+        return null
+      }
+      const outbox = useOutboxStore.getState()
+      // Offline or dropped connection: keep it in the outbox for replay on reconnect
+      if (!navigator.onLine) {
+        outbox.update(vars.tempId, { state: 'queued' })
+        return null
+      }
+      try {
+        const res = await adminInternal.send({ type: msgType, content: vars.content, mediaId: vars.mediaId, replyToId: vars.replyToId, linkPreview: vars.linkPreview, tempId: vars.tempId })
+        outbox.remove(vars.tempId)
+        return res
+      } catch (err) {
+        if (!isRetryableError(err)) throw err
+        outbox.update(vars.tempId, { state: 'queued' })
+        return null
       }
-      return adminInternal.send({ type: msgType, content: vars.content, mediaId: vars.mediaId, replyToId: vars.replyToId })
     },
     onMutate: async (vars) => {
-      const socket = getSocket()
       const msgType = vars.type ?? 'TEXT'
-      // For socket TEXT path: rely on server broadcast; no optimistic needed
-      if (socket?.connected && msgType === 'TEXT') return
-
-      // Optimistic for HTTP path (media or fallback)
+      // Optimistic bubble + outbox entry on every path; the socket echo or HTTP response replaces it
+      const currentUser = useAuthStore.getState().user
       const tempMsg: InternalMessage = {
         id: vars.tempId,
-        senderId: '__optimistic__',
-        sender: { id: '__optimistic__', name: 'You', role: 'ADMIN' },
+        senderId: currentUser?.id ?? '__optimistic__',
+        sender: currentUser
+          ? { id: currentUser.id, name: currentUser.name, role: currentUser.role }
+          : { id: '__optimistic__', name: 'You', role: 'ADMIN' },
         type: (vars.type as InternalMessage['type']) ?? 'TEXT',
         content: vars.content ?? null,
         media: null,
         replyToId: vars.replyToId ?? null,
         replyTo: null,
+        linkPreview: vars.linkPreview,
         createdAt: new Date().toISOString(),
       }
       queryClient.setQueryData<{
@@ -148,9 +188,22 @@ export function useSendInternalMessage() {
         if (!old) return old
         return { ...old, pages: old.pages.map((page, i) => i === 0 ? { ...page, messages: [tempMsg, ...page.messages] } : page) }
       })
+      if (currentUser) {
+        useOutboxStore.getState().enqueue({
+          tempId: vars.tempId,
+          kind: 'internal',
+          targetId: 'internal',
+          userId: currentUser.id,
+          payload: { type: msgType, content: vars.content, mediaId: vars.mediaId, replyToId: vars.replyToId, linkPreview: vars.linkPreview },
+          message: tempMsg,
+          state: 'sending',
+          attempts: 0,
+          createdAt: Date.now(),
+        })
+      }
     },
     onSuccess: (result, vars) => {
-      if (!result) return // socket path — server will broadcast internal:message
+      if (!result) return // socket path — the internal:message echo replaces the optimistic bubble
       // HTTP path: replace optimistic with real message
       queryClient.setQueryData<{
         pages: Array<{ success: boolean; messages: InternalMessage[]; hasMore: boolean }>
@@ -168,7 +221,8 @@ export function useSendInternalMessage() {
         }
       })
     },
-    onError: () => {
+    onError: (_err, vars) => {
+      useOutboxStore.getState().update(vars.tempId, { state: 'failed' })
       toast.error('Failed to send message')
     },
   })
@@ -0,0 +1,15 @@
+import { useQuery } from '@tanstack/react-query'
+import { linkPreviews } from '@/lib/api'
+
+export function useLinkPreview(url: string | null | undefined) {
+  return useQuery({
+    queryKey: ['linkPreview', url],
+    queryFn: () => linkPreviews.get(url!),
+    enabled: !!url,
+    select: (data) => data.preview,
+    // Page metadata rarely changes — one fetch per URL per session is plenty
+    staleTime: 60 * 60_000,
+    gcTime: 60 * 60_000,
+    retry: false,
+  })
+}
@@ -1,10 +1,13 @@
-import { useRef, useEffect } from 'react'
-import { useQuery, useMutation, useQueryClient, useInfiniteQuery } from '@tanstack/react-query'
+import { useRef, useEffect, useCallback } from 'react'
+import { useQuery, useMutation, useQueryClient, useInfiniteQuery, type InfiniteData, type QueryClient } from '@tanstack/react-query'
 import { conversations as api } from '@/lib/api'
 import { getSocket } from '@/lib/socket'
 import { useAuthStore } from '@/stores/authStore'
+import { useOutboxStore } from '@/stores/outboxStore'
+import { isRetryableError, mergePending, replaceOptimistic } from '@/lib/outbox'
+import { usePendingMessages } from '@/hooks/useOutbox'
 import { toast } from 'sonner'
-import type { Message } from '@/lib/schemas'
+import type { Conversation, Message } from '@/lib/schemas'
 
 export function useConversation() {
   const user = useAuthStore((s) => s.user)
@@ -77,6 +80,13 @@ export function useAdminConversations() {
 }
 
 export function useMessages(conversationId: string | undefined) {
+  const pending = usePendingMessages<Message>('message', conversationId)
+  const withPending = useCallback(
+    (data: InfiniteData<{ success: boolean; messages: Message[]; hasMore: boolean }, string | undefined>) =>
+      mergePending(data, pending, false) as typeof data,
+    [pending],
+  )
+
   return useInfiniteQuery({
     queryKey: ['messages', conversationId],
     queryFn: async ({ pageParam }) => {
@@ -106,6 +116,7 @@ export function useMessages(conversationId: string | undefined) {
       return lastPage.messages[0].id
     },
     enabled: !!conversationId,
+    select: withPending,
     staleTime: 5 * 60_000,
     retry: 3,
     retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 10000),
@@ -118,8 +129,16 @@ export function useSendMessage(conversationId: string | undefined) {
   const tempIdRef = useRef<string>('')
 
   return useMutation({
-    mutationFn: async (data: { type: string; content?: string; mediaId?: string; replyToId?: string; announcementId?: string }) => {
+    mutationFn: async (data: { type: string; content?: string; mediaId?: string; replyToId?: string; announcementId?: string; linkPreview?: boolean }) => {
       let convId = conversationId
+      const tempId = tempIdRef.current
+      const outbox = useOutboxStore.getState()
+
+      // Offline: leave it in the outbox — it is replayed when the socket reconnects
+      if (!navigator.onLine) {
+        outbox.update(tempId, { state: 'queued' })
+        return { tempId, conversationId: convId, queued: true }
+      }
 
       // Auto-create conversation if user doesn't have one yet
       if (!convId) {
@@ -134,11 +153,11 @@ export function useSendMessage(conversationId: string | undefined) {
         }
 
         queryClient.setQueryData(['conversation'], { success: true, conversation: res.conversation })
+        outbox.update(tempId, { targetId: convId })
       }
 
       const socket = getSocket()
       if (socket?.connected) {
-        const tempId = tempIdRef.current
         socket.emit('message:send', {
           conversationId: convId,
           type: data.type,
@@ -147,55 +166,37 @@ export function useSendMessage(conversationId: string | undefined) {
           tempId,
           replyToId: data.replyToId,
           announcementId: data.announcementId,
+          linkPreview: data.linkPreview,
         })
 
-        // Timeout: if message:sent hasn't replaced tempId within 8s, mark as failed
-        const cid = convId
+        // Timeout: if message:sent hasn't cleared the outbox entry within 8s, mark it failed
         setTimeout(() => {
-          const cache = queryClient.getQueryData<{ pages: Array<{ success: boolean; messages: Message[]; hasMore: boolean }> }>(['messages', cid])
-          const stillPending = cache?.pages.some((p) => p.messages.some((m) => m.id === tempId))
-          if (stillPending) {
-            queryClient.setQueryData<{ pages: Array<{ success: boolean; messages: Message[]; hasMore: boolean }> }>(
-              ['messages', cid],
-              (old) => {
-                if (!old) return old
-                return {
-                  ...old,
-                  pages: old.pages.map((page) => ({
-                    ...page,
-                    messages: page.messages.filter((m) => m.id !== tempId),
-                  })),
-                }
-              },
-            )
-            toast.error('Message failed to send. Please try again.')
-          }
+          const outbox = useOutboxStore.getState()
+          if (outbox.entries[tempId]?.state !== 'sending') return
+          outbox.update(tempId, { state: 'failed' })
+          toast.error('Message failed to send. Tap it to retry.')
         }, 8000)
 
         return { tempId, conversationId: convId }
       }
 
-      // HTTP fallback — remove optimistic and let real data come through
-      const res = await api.sendMessage(convId, { type: data.type, content: data.content, mediaId: data.mediaId, replyToId: data.replyToId, announcementId: data.announcementId })
-      if (tempIdRef.current && conversationId) {
-        queryClient.setQueryData<{ pages: Array<{ success: boolean; messages: Message[]; hasMore: boolean }> }>(
-          ['messages', conversationId],
-          (old) => {
-            if (!old) return old
-            return {
-              ...old,
-              pages: old.pages.map((page) => ({
-                ...page,
-                messages: page.messages.filter((m) => m.id !== tempIdRef.current),
-              })),
-            }
-          },
+      // HTTP fallback — swap the optimistic message for the real one, or queue it if the network dropped
+      try {
+        const res = await api.sendMessage(convId, { type: data.type, content: data.content, mediaId: data.mediaId, replyToId: data.replyToId, announcementId: data.announcementId, linkPreview: data.linkPreview, tempId })
+        outbox.remove(tempId)
+        queryClient.setQueryData<InfiniteData<{ success: boolean; messages: Message[]; hasMore: boolean }, unknown>>(
+          ['messages', convId],
+          (old) => replaceOptimistic(old, tempId, res.message, false),
         )
+        return { message: res.message, conversationId: convId }
+      } catch (err) {
+        if (!isRetryableError(err)) throw err
+        outbox.update(tempId, { state: 'queued' })
+        return { tempId, conversationId: convId, queued: true }
       }
-      return { message: res.message, conversationId: convId }
     },
 
-    onMutate: async (data: { type: string; content?: string; mediaId?: string; replyToId?: string; announcementId?: string }) => {
+    onMutate: async (data: { type: string; content?: string; mediaId?: string; replyToId?: string; announcementId?: string; linkPreview?: boolean }) => {
       // Always generate tempId so mutationFn can use it
       const tempId = `temp-${Date.now()}-${Math.random().toString(36).slice(2)}`
       tempIdRef.current = tempId
@@ -218,6 +219,7 @@ export function useSendMessage(conversationId: string | undefined) {
         media: null,
         replyToId: data.replyToId || null,
         announcementId: data.announcementId || null,
+        linkPreview: data.linkPreview,
       }
 
       queryClient.setQueryData<{ pages: Array<{ success: boolean; messages: Message[]; hasMore: boolean }> }>(
@@ -240,30 +242,59 @@ export function useSendMessage(conversationId: string | undefined) {
         },
       )
 
+      useOutboxStore.getState().enqueue({
+        tempId,
+        kind: 'message',
+        targetId: conversationId,
+        userId: user.id,
+        payload: data,
+        message: optimisticMessage,
+        state: 'sending',
+        attempts: 0,
+        createdAt: Date.now(),
+      })
+
       return { tempId }
     },
 
+    // Keep the bubble so the sender can tap to retry instead of losing the message
     onError: (_err, _data, context) => {
-      if (context?.tempId && conversationId) {
-        queryClient.setQueryData<{ pages: Array<{ success: boolean; messages: Message[]; hasMore: boolean }> }>(
-          ['messages', conversationId],
-          (old) => {
-            if (!old) return old
-            return {
-              ...old,
-              pages: old.pages.map((page) => ({
-                ...page,
-                messages: page.messages.filter((m) => m.id !== context.tempId),
-              })),
-            }
-          },
-        )
+      if (context?.tempId) {
+        useOutboxStore.getState().update(context.tempId, { state: 'failed' })
       }
+      toast.error('Message failed to send. Tap it to retry.')
     },
 
   })
 }
 
+// Notes go over HTTP only — no outbox, a note that can't be saved is reported straight away
+export function useSendNote(conversationId: string | undefined) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: { content: string; mentions: string[] }) => {
+      if (!conversationId) throw new Error('No conversation')
+      return api.createNote(conversationId, data)
+    },
+    onSuccess: ({ message }) => {
+      queryClient.setQueryData<InfiniteData<{ success: boolean; messages: Message[]; hasMore: boolean }>>(
+        ['messages', conversationId],
+        (old) => {
+          if (!old || old.pages.length === 0) return old
+          // The socket echo may have landed first
+          if (old.pages.some((p) => p.messages.some((m) => m.id === message.id))) return old
+          const [first, ...rest] = old.pages
+          return { ...old, pages: [{ ...first, messages: [...first.messages, message] }, ...rest] }
+        },
+      )
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : 'Failed to save note')
+    },
+  })
+}
+
 export function useMarkRead(conversationId: string | undefined) {
   const queryClient = useQueryClient()
 
@@ -327,3 +358,105 @@ export function useDeleteMessage() {
     },
   })
 }
+
+type ConversationWorkflowPatch = Partial<Pick<Conversation, 'status' | 'priority' | 'tags'>>
+type AdminConversationsCache = { pages: Array<{ conversations: Conversation[]; hasMore: boolean }>; pageParams: unknown[] }
+
+/** The workflow fields `source` actually carries, so merging it never blanks the others. */
+function workflowFields(source: ConversationWorkflowPatch): ConversationWorkflowPatch {
+  return {
+    ...(source.status !== undefined && { status: source.status }),
+    ...(source.priority !== undefined && { priority: source.priority }),
+    ...(source.tags !== undefined && { tags: source.tags }),
+  }
+}
+
+/** Merge fields into one conversation of the admin list cache. */
+export function patchAdminConversation(queryClient: QueryClient, conversationId: string, patch: Partial<Conversation>) {
+  queryClient.setQueryData<AdminConversationsCache>(['conversations'], (old) => {
+    if (!old) return old
+    return {
+      ...old,
+      pages: old.pages.map((p) => ({
+        ...p,
+        conversations: p.conversations.map((c) => (c.id === conversationId ? { ...c, ...patch } : c)),
+      })),
+    }
+  })
+}
+
+// Status, priority and tags: applied to the admin list immediately, rolled back if the server refuses
+export function useUpdateConversationWorkflow() {
+  const queryClient = useQueryClient()
+
+  const patchConversation = (conversationId: string, patch: ConversationWorkflowPatch) =>
+    patchAdminConversation(queryClient, conversationId, patch)
+
+  return useMutation({
+    mutationFn: ({ conversationId, patch }: { conversationId: string; patch: ConversationWorkflowPatch }) => {
+      if (patch.status) return api.updateStatus(conversationId, patch.status)
+      if (patch.priority) return api.updatePriority(conversationId, patch.priority)
+      return api.updateTags(conversationId, patch.tags ?? [])
+    },
+    onMutate: ({ conversationId, patch }) => {
+      const cached = queryClient.getQueryData<AdminConversationsCache>(['conversations'])
+      const current = cached?.pages.flatMap((p) => p.conversations).find((c) => c.id === conversationId)
+      // Only roll back what this mutation touched, so a concurrent edit to another field survives
+      const previous: ConversationWorkflowPatch = current
+        ? {
+          ...('status' in patch && { status: current.status }),
+          ...('priority' in patch && { priority: current.priority }),
+          ...('tags' in patch && { tags: current.tags }),
+        }
+        : {}
+      patchConversation(conversationId, patch)
+      return { previous }
+    },
+    onSuccess: ({ conversation }, { conversationId, patch }) => {
+      patchConversation(conversationId, { ...workflowFields(patch), ...workflowFields(conversation) })
+    },
+    onError: (err, { conversationId }, context) => {
+      if (context) patchConversation(conversationId, context.previous)
+      toast.error(err instanceof Error ? err.message : 'Failed to update conversation')
+    },
+  })
+}
+
+// Handoff to another admin; ownership only changes once the receiver accepts
+export function useTransferConversation() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ conversationId, toAdminId, note }: { conversationId: string; toAdminId: string; note: string }) =>
+      api.transfer(conversationId, { toAdminId, note }),
+    onSuccess: ({ transfer }) => {
+      patchAdminConversation(queryClient, transfer.conversationId, { transfer })
+      toast.success(`Transfer sent to ${transfer.toAdmin.name}`)
+    },
+    onError: (err) => toast.error(err instanceof Error ? err.message : 'Failed to transfer conversation'),
+  })
+}
+
+export function useRespondToTransfer() {
+  const queryClient = useQueryClient()
+  const user = useAuthStore((s) => s.user)
+
+  return useMutation({
+    mutationFn: ({ conversationId, transferId, accept, reason }: { conversationId: string; transferId: string; accept: boolean; reason?: string }) =>
+      accept ? api.acceptTransfer(conversationId, transferId) : api.declineTransfer(conversationId, transferId, reason),
+    onSuccess: ({ transfer }) => {
+      if (transfer.status === 'ACCEPTED') {
+        patchAdminConversation(queryClient, transfer.conversationId, {
+          transfer,
+          assignedAdminId: transfer.toAdmin.id,
+          assignedAdmin: { ...transfer.toAdmin, role: user?.role ?? 'ADMIN' },
+        })
+      } else {
+        // A declined conversation may no longer belong in this admin's list
+        queryClient.invalidateQueries({ queryKey: ['conversations'] })
+      }
+      toast.success(transfer.status === 'ACCEPTED' ? 'Conversation accepted' : 'Transfer declined')
+    },
+    onError: (err) => toast.error(err instanceof Error ? err.message : 'Failed to respond to transfer'),
+  })
+}
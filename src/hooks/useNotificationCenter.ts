@@ -0,0 +1,137 @@
+import { useEffect, useRef } from 'react'
+import { useLocation, useNavigate } from 'react-router-dom'
+import { getSocket } from '@/lib/socket'
+import { messagePlainText } from '@/lib/messageFormat'
+import { playNotificationSound, setUnreadBadge, showDesktopNotification } from '@/lib/notify'
+import { useAuthStore } from '@/stores/authStore'
+import { useNotificationPrefsStore, type NotificationEvent } from '@/stores/notificationPrefsStore'
+import type { DirectMessage, InternalMessage, Message, MessageType } from '@/lib/schemas'
+
+function previewText(message: { type: MessageType; content: string | null }): string {
+  if (message.content) return messagePlainText(message.content).slice(0, 120)
+  switch (message.type) {
+    case 'IMAGE': return 'Sent a photo'
+    case 'VIDEO': return 'Sent a video'
+    case 'DOCUMENT': return 'Sent a document'
+    default: return 'Sent a message'
+  }
+}
+
+/**
+ * Alerts for chat events while the user is looking elsewhere: desktop
+ * notifications when the tab is hidden, a per-event chime, and an unread
+ * counter in the tab title/favicon that resets once the tab is visible again.
+ */
+export function useNotificationCenter() {
+  const userId = useAuthStore((s) => s.user?.id)
+  const role = useAuthStore((s) => s.user?.role)
+  const titleBadge = useNotificationPrefsStore((s) => s.titleBadge)
+  const navigate = useNavigate()
+  const location = useLocation()
+  const pathnameRef = useRef(location.pathname)
+  const unreadRef = useRef(0)
+
+  useEffect(() => {
+    pathnameRef.current = location.pathname
+  }, [location.pathname])
+
+  useEffect(() => {
+    const reset = () => {
+      if (document.hidden) return
+      unreadRef.current = 0
+      setUnreadBadge(0)
+    }
+    document.addEventListener('visibilitychange', reset)
+    window.addEventListener('focus', reset)
+    return () => {
+      document.removeEventListener('visibilitychange', reset)
+      window.removeEventListener('focus', reset)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!titleBadge) setUnreadBadge(0)
+    else if (unreadRef.current > 0) setUnreadBadge(unreadRef.current)
+  }, [titleBadge])
+
+  useEffect(() => {
+    const socket = getSocket()
+    if (!socket || !userId) return
+    const isAdmin = role === 'ADMIN' || role === 'SUPER_ADMIN'
+
+    const notify = (event: NotificationEvent, alert: { title: string; body: string; tag: string; route: string }) => {
+      const prefs = useNotificationPrefsStore.getState()
+      if (!prefs.events[event].enabled) return
+
+      const away = document.hidden || !document.hasFocus()
+      // Already looking at the thread in a focused tab — nothing to tell the user
+      if (!away && pathnameRef.current === alert.route.split('?')[0]) return
+
+      if (prefs.events[event].sound) playNotificationSound(event)
+      if (!away) return
+
+      if (prefs.desktop) {
+        showDesktopNotification({ title: alert.title, body: alert.body, tag: alert.tag, onClick: () => navigate(alert.route) })
+      }
+      if (document.hidden) {
+        unreadRef.current += 1
+        if (prefs.titleBadge) setUnreadBadge(unreadRef.current)
+      }
+    }
+
+    const onMessage = (data: { message: Message }) => {
+      const { message } = data
+      if (message.senderId === userId || message.isNote) return
+      // Admins are alerted about customers, not about colleagues replying in the same thread
+      if (isAdmin && message.sender.role !== 'USER') return
+      notify('message', {
+        title: isAdmin ? message.sender.name : `New reply from ${message.sender.name}`,
+        body: previewText(message),
+        tag: `message:${message.conversationId}`,
+        route: isAdmin ? `/admin?conversationId=${message.conversationId}` : '/home/chat',
+      })
+    }
+
+    const onDM = (data: { message: DirectMessage }) => {
+      if (data.message.senderId === userId) return
+      notify('dm', {
+        title: `${data.message.sender.name} (direct message)`,
+        body: previewText(data.message),
+        tag: `dm:${data.message.senderId}`,
+        route: `/admin/dm?partner=${data.message.senderId}`,
+      })
+    }
+
+    const onInternal = (data: { message: InternalMessage }) => {
+      if (data.message.senderId === userId) return
+      notify('internal', {
+        title: `${data.message.sender.name} in team chat`,
+        body: previewText(data.message),
+        tag: 'internal',
+        route: '/admin/internal',
+      })
+    }
+
+    const onAssigned = (data: { conversationId: string; userName: string }) => {
+      notify('assigned', {
+        title: 'Conversation assigned to you',
+        body: `${data.userName} is waiting for a reply`,
+        tag: `assigned:${data.conversationId}`,
+        route: `/admin?conversationId=${data.conversationId}`,
+      })
+    }
+
+    socket.on('message:new', onMessage)
+    if (isAdmin) {
+      socket.on('dm:message', onDM)
+      socket.on('internal:message', onInternal)
+      socket.on('conversation:assigned_to_you', onAssigned)
+    }
+    return () => {
+      socket.off('message:new', onMessage)
+      socket.off('dm:message', onDM)
+      socket.off('internal:message', onInternal)
+      socket.off('conversation:assigned_to_you', onAssigned)
+    }
+  }, [userId, role, navigate])
+}
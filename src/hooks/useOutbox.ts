@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useMemo } from 'react'
+import { useQueryClient, type InfiniteData, type QueryClient } from '@tanstack/react-query'
+import { conversations, adminDM, adminInternal, ApiError } from '@/lib/api'
+import { getSocket } from '@/lib/socket'
+import { isRetryableError, replaceOptimistic, MAX_OUTBOX_ATTEMPTS, type OutboxEntry, type OutboxKind } from '@/lib/outbox'
+import { useOutboxStore } from '@/stores/outboxStore'
+import { useAuthStore } from '@/stores/authStore'
+import type { Message, DirectMessage, InternalMessage } from '@/lib/schemas'
+
+type MessagePages<T> = InfiniteData<{ success: boolean; messages: T[]; hasMore: boolean }, unknown>
+
+async function deliver(queryClient: QueryClient, entry: OutboxEntry): Promise<void> {
+  const { tempId, payload } = entry
+
+  if (entry.kind === 'message') {
+    let convId = entry.targetId
+    if (!convId) {
+      const res = await conversations.create()
+      convId = res.conversation.id
+      queryClient.setQueryData(['conversation'], { success: true, conversation: res.conversation })
+    }
+    // tempId doubles as an idempotency key: a socket send that timed out may still have landed
+    const res = await conversations.sendMessage(convId, { ...payload, tempId })
+    queryClient.setQueryData<MessagePages<Message>>(['messages', convId], (old) => replaceOptimistic(old, tempId, res.message, false))
+    return
+  }
+
+  if (entry.kind === 'dm') {
+    const adminId = entry.targetId!
+    const res = await adminDM.send(adminId, { ...payload, tempId })
+    queryClient.setQueryData<MessagePages<DirectMessage>>(['dm', adminId], (old) => replaceOptimistic(old, tempId, res.message, true))
+    return
+  }
+
+  const res = await adminInternal.send({ ...payload, tempId })
+  queryClient.setQueryData<MessagePages<InternalMessage>>(['internal-messages'], (old) => replaceOptimistic(old, tempId, res.message, true))
+}
+
+let replaying: Promise<void> | null = null
+
+async function runReplay(queryClient: QueryClient): Promise<void> {
+  const queue = Object.values(useOutboxStore.getState().entries)
+    .filter((e) => e.state === 'queued')
+    .sort((a, b) => a.createdAt - b.createdAt)
+
+  for (const entry of queue) {
+    const { update, remove } = useOutboxStore.getState()
+    update(entry.tempId, { state: 'retrying' })
+    try {
+      await deliver(queryClient, entry)
+      remove(entry.tempId)
+    } catch (err) {
+      // Being offline doesn't use up an attempt — only responses from the server do
+      const attempts = err instanceof ApiError ? entry.attempts + 1 : entry.attempts
+      if (isRetryableError(err) && attempts < MAX_OUTBOX_ATTEMPTS) {
+        update(entry.tempId, { state: 'queued', attempts })
+        // Stop here so later messages never overtake this one
+        break
+      }
+      update(entry.tempId, { state: 'failed', attempts })
+    }
+  }
+}
+
+/** Sends queued outbox entries oldest-first. Concurrent calls share one run. */
+export function replayOutbox(queryClient: QueryClient): Promise<void> {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return Promise.resolve()
+  if (!replaying) {
+    replaying = runReplay(queryClient).finally(() => { replaying = null })
+  }
+  return replaying
+}
+
+/** Loads the signed-in user's outbox and replays it whenever the browser comes back online. */
+export function useOutboxReplay() {
+  const userId = useAuthStore((s) => s.user?.id)
+  const queryClient = useQueryClient()
+
+  useEffect(() => {
+    if (!userId) {
+      useOutboxStore.getState().reset()
+      return
+    }
+
+    let cancelled = false
+    useOutboxStore.getState().hydrate(userId).then(() => {
+      if (!cancelled && getSocket()?.connected) replayOutbox(queryClient)
+    })
+
+    const onOnline = () => { replayOutbox(queryClient) }
+    window.addEventListener('online', onOnline)
+    return () => {
+      cancelled = true
+      window.removeEventListener('online', onOnline)
+    }
+  }, [userId, queryClient])
+}
+
+export function useRetryOutbox() {
+  const queryClient = useQueryClient()
+  return useCallback((tempId: string) => {
+    useOutboxStore.getState().update(tempId, { state: 'queued' })
+    replayOutbox(queryClient)
+  }, [queryClient])
+}
+
+/** Optimistic messages still waiting in the outbox for one message list. */
+export function usePendingMessages<T extends Message | DirectMessage | InternalMessage>(kind: OutboxKind, targetId: string | undefined): T[] {
+  const entries = useOutboxStore((s) => s.entries)
+  return useMemo(
+    () => Object.values(entries)
+      .filter((e) => e.kind === kind && (e.targetId === targetId || (kind === 'message' && !e.targetId)))
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map((e) => e.message as T),
+    [entries, kind, targetId],
+  )
+}
@@ -0,0 +1,56 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { passkeys, ApiError } from '@/lib/api'
+import { createPasskey, isPasskeyCancelled } from '@/lib/webauthn'
+
+export function usePasskeys() {
+  return useQuery({
+    queryKey: ['passkeys'],
+    queryFn: () => passkeys.list(),
+    staleTime: 60_000,
+  })
+}
+
+export function useRegisterPasskey() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: async (name: string) => {
+      const { options } = await passkeys.registrationOptions()
+      const credential = await createPasskey(options)
+      return passkeys.register({ name, credential })
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['passkeys'] })
+      toast.success('Passkey added')
+    },
+    onError: (err) => {
+      if (isPasskeyCancelled(err)) return
+      if (err instanceof DOMException && err.name === 'InvalidStateError') {
+        toast.error('This device already has a passkey for your account')
+        return
+      }
+      toast.error(err instanceof ApiError ? err.message : 'Failed to add passkey')
+    },
+  })
+}
+
+export function useRenamePasskey() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: ({ id, name }: { id: string; name: string }) => passkeys.rename(id, name),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['passkeys'] }),
+    onError: () => toast.error('Failed to rename passkey'),
+  })
+}
+
+export function useRemovePasskey() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (id: string) => passkeys.remove(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['passkeys'] })
+      toast.success('Passkey removed')
+    },
+    onError: () => toast.error('Failed to remove passkey'),
+  })
+}
@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { toast } from 'sonner'
+import { useAppConfig } from '@/hooks/useConfig'
+import { applyBrandManifest, getPushSubscription, isPushSupported, subscribeToPush, unsubscribeFromPush } from '@/lib/pwa'
+
+/** Keeps the web app manifest and theme colour in sync with the configured brand. */
+export function useBrandManifest() {
+  const { data } = useAppConfig()
+  const brand = data?.brand
+
+  useEffect(() => {
+    if (brand?.siteName) applyBrandManifest(brand)
+  }, [brand])
+}
+
+/** Routes in-app when the service worker reports a notification click on an already open tab. */
+export function useNotificationNavigation() {
+  const navigate = useNavigate()
+
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return
+    const onMessage = (event: MessageEvent<{ type?: string; url?: string }>) => {
+      if (event.data?.type === 'notification:navigate' && event.data.url?.startsWith('/')) {
+        navigate(event.data.url)
+      }
+    }
+    navigator.serviceWorker.addEventListener('message', onMessage)
+    return () => navigator.serviceWorker.removeEventListener('message', onMessage)
+  }, [navigate])
+}
+
+export function usePushSubscription() {
+  const supported = isPushSupported()
+  const [subscribed, setSubscribed] = useState(false)
+  const [isPending, setIsPending] = useState(false)
+  const [permission, setPermission] = useState<NotificationPermission>(() => (supported ? Notification.permission : 'denied'))
+
+  useEffect(() => {
+    if (!supported) return
+    let cancelled = false
+    getPushSubscription()
+      .then((sub) => { if (!cancelled) setSubscribed(!!sub) })
+      .catch(() => {})
+    return () => { cancelled = true }
+  }, [supported])
+
+  const setEnabled = useCallback(async (enabled: boolean) => {
+    setIsPending(true)
+    try {
+      if (enabled) {
+        await subscribeToPush()
+        toast.success('Push notifications enabled on this device')
+      } else {
+        await unsubscribeFromPush()
+        toast.success('Push notifications turned off')
+      }
+      setSubscribed(enabled)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update push notifications')
+    } finally {
+      setPermission(Notification.permission)
+      setIsPending(false)
+    }
+  }, [])
+
+  return { supported, subscribed, permission, isPending, setEnabled }
+}
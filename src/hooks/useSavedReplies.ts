@@ -0,0 +1,68 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { savedReplies, type SavedReplyInput } from '@/lib/api'
+import type { SavedReply } from '@/lib/schemas'
+import { toast } from 'sonner'
+
+type SavedRepliesCache = { success: boolean; replies: SavedReply[] }
+
+const SAVED_REPLIES_KEY = ['admin', 'saved-replies']
+
+export function useSavedReplies(enabled = true) {
+  return useQuery({
+    queryKey: SAVED_REPLIES_KEY,
+    queryFn: () => savedReplies.list(),
+    enabled,
+    staleTime: 5 * 60_000,
+  })
+}
+
+export function useCreateSavedReply() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: SavedReplyInput) => savedReplies.create(data),
+    onSuccess: ({ reply }) => {
+      queryClient.setQueryData<SavedRepliesCache>(SAVED_REPLIES_KEY, (old) =>
+        old ? { ...old, replies: [reply, ...old.replies] } : old,
+      )
+      toast.success('Saved reply created')
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : 'Failed to create saved reply')
+    },
+  })
+}
+
+export function useUpdateSavedReply() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<SavedReplyInput> }) => savedReplies.update(id, data),
+    onSuccess: ({ reply }) => {
+      queryClient.setQueryData<SavedRepliesCache>(SAVED_REPLIES_KEY, (old) =>
+        old ? { ...old, replies: old.replies.map((r) => (r.id === reply.id ? reply : r)) } : old,
+      )
+      toast.success('Saved reply updated')
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : 'Failed to update saved reply')
+    },
+  })
+}
+
+export function useDeleteSavedReply() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => savedReplies.delete(id),
+    onSuccess: (_, id) => {
+      queryClient.setQueryData<SavedRepliesCache>(SAVED_REPLIES_KEY, (old) =>
+        old ? { ...old, replies: old.replies.filter((r) => r.id !== id) } : old,
+      )
+      toast.success('Saved reply deleted')
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete saved reply')
+    },
+  })
+}
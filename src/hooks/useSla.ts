@@ -0,0 +1,18 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useAppConfig } from '@/hooks/useConfig'
+import { slaTargets } from '@/lib/sla'
+
+export function useSlaTargets() {
+  const { data } = useAppConfig()
+  return useMemo(() => slaTargets(data), [data])
+}
+
+/** Current time, refreshed on an interval so SLA countdowns re-render. */
+export function useSlaClock(intervalMs = 30_000) {
+  const [now, setNow] = useState(() => Date.now())
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), intervalMs)
+    return () => clearInterval(id)
+  }, [intervalMs])
+  return now
+}
@@ -4,6 +4,13 @@ import { useAuthStore } from '@/stores/authStore'
 import { connectSocket, disconnectSocket, getSocket } from '@/lib/socket'
 import type { Message } from '@/lib/schemas'
 import { toast } from 'sonner'
+import { useOutboxStore } from '@/stores/outboxStore'
+import { replayOutbox } from '@/hooks/useOutbox'
+import { useNotificationInboxStore } from '@/stores/notificationInboxStore'
+import { usePresenceStore } from '@/stores/presenceStore'
+import { messagePlainText } from '@/lib/messageFormat'
+import { isScheduled, lastOccurrence } from '@/lib/announcementSchedule'
+import { parseTimestamp } from '@/lib/utils'
 
 export function useSocketConnection() {
   const user = useAuthStore((s) => s.user)
@@ -22,6 +29,11 @@ export function useSocketConnection() {
 
     const socket = connectSocket()
 
+    // Fires on the first connect and on every reconnect — flush anything sent while offline
+    socket.on('connect', () => {
+      replayOutbox(queryClient)
+    })
+
     socket.on('auth_error', () => {
       toast.error('Session expired. Please login again.')
       reset()
@@ -32,10 +44,27 @@ export function useSocketConnection() {
       reset()
     })
 
+    socket.on('user:online', (data) => usePresenceStore.getState().setOnline(data.userId, true))
+    socket.on('user:offline', (data) => usePresenceStore.getState().setOnline(data.userId, false))
+
     socket.on('message:new', (data) => {
       const msg = data.message
-      // If this is a message from admin to user, optimistically bump unreadCount in user's conversation cache
       const currentUser = useAuthStore.getState().user
+      if (msg.isNote) {
+        // Internal notes are admin-only: never let one into a customer's caches
+        if (currentUser?.role === 'USER') return
+        if (msg.senderId !== userId && msg.mentions?.includes(userId)) {
+          toast.info(`${msg.sender.name} mentioned you in a note`)
+          useNotificationInboxStore.getState().record(userId, {
+            id: `mention:${msg.id}`,
+            type: 'mention',
+            title: `${msg.sender.name} mentioned you`,
+            body: messagePlainText(msg.content ?? '').slice(0, 120),
+            route: `/admin?conversationId=${msg.conversationId}`,
+          })
+        }
+      }
+      // If this is a message from admin to user, optimistically bump unreadCount in user's conversation cache
       if (currentUser?.role === 'USER' && msg.senderId !== currentUser.id) {
         queryClient.setQueryData<{ success: boolean; conversation: { unreadCount: number; lastMessageAt: number | null;[key: string]: unknown } | null }>(['conversation'],
           (old) => {
@@ -65,6 +94,7 @@ export function useSocketConnection() {
     socket.on('message:sent', (data) => {
       const convId = data.message.conversationId
       const tempId = data.tempId
+      if (tempId) useOutboxStore.getState().remove(tempId)
 
       const replaceTemp = (old: { pages: Array<{ success: boolean; messages: Message[]; hasMore: boolean }>; pageParams: unknown[] } | undefined) => {
         if (!old) return { updated: undefined, found: false }
@@ -194,10 +224,16 @@ export function useSocketConnection() {
                 c.id === data.conversationId
                   ? {
                     ...c,
-                    lastMessageAt: data.lastMessageAt,
-                    lastMessage: data.lastMessage,
+                    // Workflow-only updates (status, priority, tags) carry no message fields
+                    ...(data.lastMessageAt !== undefined && { lastMessageAt: data.lastMessageAt }),
+                    ...(data.lastMessage !== undefined && { lastMessage: data.lastMessage }),
                     ...(data.unreadCount !== undefined && { unreadCount: data.unreadCount }),
                     ...(data.adminUnreadCount !== undefined && { adminUnreadCount: data.adminUnreadCount }),
+                    ...(data.status !== undefined && { status: data.status }),
+                    ...(data.priority !== undefined && { priority: data.priority }),
+                    ...(data.tags !== undefined && { tags: data.tags }),
+                    ...(data.awaitingReplySince !== undefined && { awaitingReplySince: data.awaitingReplySince }),
+                    ...(data.firstResponseAt !== undefined && { firstResponseAt: data.firstResponseAt }),
                   }
                   : c,
               ),
@@ -214,7 +250,7 @@ export function useSocketConnection() {
             ...old,
             conversation: {
               ...old.conversation,
-              lastMessageAt: data.lastMessageAt,
+              ...(data.lastMessageAt !== undefined && { lastMessageAt: data.lastMessageAt }),
               ...(data.unreadCount !== undefined && { unreadCount: data.unreadCount }),
             },
           }
@@ -241,9 +277,59 @@ export function useSocketConnection() {
       }
     })
 
-    socket.on('admin:user_registered', () => {
+    socket.on('admin:user_registered', (data) => {
       queryClient.invalidateQueries({ queryKey: ['admin', 'users'] })
       toast.info('New user registered!')
+      useNotificationInboxStore.getState().record(userId, {
+        id: `user_registered:${data.user.id}`,
+        type: 'user_registered',
+        title: 'New user registered',
+        body: `${data.user.name} (${data.user.email})`,
+        route: `/admin/users/${data.user.id}`,
+      })
+    })
+
+    socket.on('conversation:assigned_to_you', (data) => {
+      // Keyed on the server's assignment time so a replayed event stays deduped but a later
+      // re-assignment of the same conversation is still a new notification
+      useNotificationInboxStore.getState().record(userId, {
+        id: data.assignedAt !== undefined
+          ? `assigned:${data.conversationId}:${parseTimestamp(data.assignedAt).getTime()}`
+          : `assigned:${data.conversationId}`,
+        type: 'assigned',
+        title: data.auto ? 'Conversation auto-assigned to you' : 'Conversation assigned to you',
+        body: data.ruleName ? `Conversation with ${data.userName} · ${data.ruleName}` : `Conversation with ${data.userName}`,
+        route: `/admin?conversationId=${data.conversationId}`,
+      })
+    })
+
+    socket.on('conversation:transfer_requested', (data) => {
+      const { transfer } = data
+      toast.info(`${transfer.fromAdmin.name} wants to hand ${data.userName}'s conversation to you`, { duration: 8000 })
+      useNotificationInboxStore.getState().record(userId, {
+        id: `transfer:${transfer.id}`,
+        type: 'transfer',
+        title: 'Transfer request',
+        body: `${transfer.fromAdmin.name} · conversation with ${data.userName}`,
+        route: `/admin?conversationId=${transfer.conversationId}`,
+      })
+    })
+
+    socket.on('conversation:transfer_resolved', (data) => {
+      const { transfer } = data
+      // The receiver answered it themselves — only the sender needs telling
+      if (transfer.fromAdmin.id !== userId) return
+      const accepted = transfer.status === 'ACCEPTED'
+      const text = `${transfer.toAdmin.name} ${accepted ? 'accepted' : 'declined'} ${data.userName}'s conversation`
+      if (accepted) toast.success(text)
+      else toast.warning(transfer.declineReason ? `${text}: ${transfer.declineReason}` : text)
+      useNotificationInboxStore.getState().record(userId, {
+        id: `transfer:${transfer.id}:${transfer.status}`,
+        type: 'transfer',
+        title: accepted ? 'Transfer accepted' : 'Transfer declined',
+        body: text,
+        route: `/admin?conversationId=${transfer.conversationId}`,
+      })
     })
 
     socket.on('preferences:updated', (data) => {
@@ -253,21 +339,52 @@ export function useSocketConnection() {
       }
     })
 
+    // Also fires when a scheduled announcement goes live (and on each recurrence), so the item
+    // may already be cached — from the admin list or an earlier occurrence — and moves to the top
     socket.on('announcement:new', (data) => {
       if (data.announcement) {
+        const ann = data.announcement
         queryClient.setQueriesData<{ success: boolean; announcements: unknown[] }>(
           { queryKey: ['announcements'] },
           (old) => {
             if (!old) return old
-            return { ...old, announcements: [data.announcement, ...old.announcements] }
+            return { ...old, announcements: [ann, ...old.announcements.filter((a) => (a as { id: string }).id !== ann.id)] }
           },
         )
+        queryClient.setQueryData<{ success: boolean; announcement: unknown }>(
+          ['announcement', ann.id],
+          (old) => old ? { ...old, announcement: ann } : old,
+        )
+        if (ann.publishAt || ann.recurrence) {
+          queryClient.invalidateQueries({ queryKey: ['scheduled-announcements'] })
+        }
+        if (ann.requiresAcknowledgement) {
+          queryClient.invalidateQueries({ queryKey: ['announcement-acknowledgements', 'pending'] })
+        }
       } else {
         queryClient.invalidateQueries({ queryKey: ['announcements'] })
       }
       if (data.announcement?.title) {
         toast.info(`📢 ${data.announcement.title}`)
       }
+      const published = data.announcement
+      if (published && published.createdBy !== userId) {
+        const currentUser = useAuthStore.getState().user
+        const isAdmin = currentUser?.role === 'ADMIN' || currentUser?.role === 'SUPER_ADMIN'
+        // Each occurrence of a recurring announcement is its own notification. publishAt is only
+        // the recurrence anchor, so key on the occurrence that just went live; the small lead
+        // covers a client clock running behind the server's
+        const occurrence = data.occurrenceAt !== undefined
+          ? parseTimestamp(data.occurrenceAt)
+          : published.publishAt ? lastOccurrence(published, Date.now() + 5 * 60_000) : null
+        useNotificationInboxStore.getState().record(userId, {
+          id: occurrence ? `announcement:${published.id}:${occurrence.getTime()}` : `announcement:${published.id}`,
+          type: 'announcement',
+          title: 'Announcement published',
+          body: published.title,
+          route: `${isAdmin ? '/admin' : '/home'}/announcements/${published.id}`,
+        })
+      }
     })
 
     socket.on('announcement:updated', (data) => {
@@ -293,10 +410,11 @@ export function useSocketConnection() {
               }),
             }
           }
-          // Non-admin users: remove the item if it's now inactive or expired
+          // Non-admin users: remove the item if it's now inactive, expired or pushed back to a later publish time
           const now = Date.now()
           const visible =
             ann.isActive &&
+            !isScheduled(ann, now) &&
             (!ann.expiresAt || new Date(ann.expiresAt).getTime() > now) &&
             (!ann.targetRoles || (ann.targetRoles as string[]).includes(currentUser?.role ?? ''))
           return {
@@ -315,6 +433,12 @@ export function useSocketConnection() {
         ['announcement', ann.id],
         (old) => old ? { ...old, announcement: ann } : old,
       )
+      queryClient.invalidateQueries({ queryKey: ['announcement-revisions', ann.id] })
+      if (isAdmin) {
+        queryClient.invalidateQueries({ queryKey: ['scheduled-announcements'] })
+      }
+      // Acknowledgement may have been switched on or off, or the audience changed
+      queryClient.invalidateQueries({ queryKey: ['announcement-acknowledgements', 'pending'] })
     })
 
     socket.on('message:reaction', (data) => {
@@ -352,6 +476,7 @@ export function useSocketConnection() {
     return () => {
       socket.removeAllListeners()
       disconnectSocket()
+      usePresenceStore.getState().clear()
     }
   }, [isAuthenticated, userId, queryClient, reset, setUser])
 
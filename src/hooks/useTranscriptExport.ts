@@ -0,0 +1,41 @@
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { useAppConfig } from '@/hooks/useConfig'
+import { useAuthStore } from '@/stores/authStore'
+import { deliverTranscript, fetchTranscriptMessages, type TranscriptFormat } from '@/lib/transcript'
+
+export function useTranscriptExport() {
+  const { data: config } = useAppConfig()
+  const user = useAuthStore((s) => s.user)
+  const [exporting, setExporting] = useState<TranscriptFormat | null>(null)
+
+  const exportTranscript = async (
+    conversationId: string,
+    customer: { name: string; email?: string },
+    type: TranscriptFormat,
+  ) => {
+    if (exporting || !config) return
+    setExporting(type)
+    const toastId = toast.loading('Preparing transcript…')
+    try {
+      const messages = await fetchTranscriptMessages(conversationId, (loaded) =>
+        toast.loading(`Preparing transcript… ${loaded} messages`, { id: toastId }),
+      )
+      deliverTranscript({
+        brand: config.brand,
+        conversationId,
+        customer,
+        exportedBy: user?.name ?? 'Unknown',
+        exportedAt: Date.now(),
+        messages,
+      }, type)
+      toast.success(`Transcript exported (${messages.length} messages)`, { id: toastId })
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to export transcript', { id: toastId })
+    } finally {
+      setExporting(null)
+    }
+  }
+
+  return { exportTranscript, exporting }
+}
@@ -0,0 +1,59 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { auth, adminAdmins, ApiError } from '@/lib/api'
+import { useAuthStore } from '@/stores/authStore'
+
+function errorMessage(err: unknown, fallback: string) {
+  return err instanceof ApiError ? err.message : fallback
+}
+
+export function useSetupTwoFactor() {
+  return useMutation({
+    mutationFn: () => auth.setupTwoFactor(),
+    onError: (err) => toast.error(errorMessage(err, 'Failed to start 2FA setup')),
+  })
+}
+
+export function useEnableTwoFactor() {
+  const setUser = useAuthStore((s) => s.setUser)
+  return useMutation({
+    mutationFn: (code: string) => auth.enableTwoFactor(code),
+    onSuccess: (res) => {
+      setUser(res.user)
+      toast.success('Two-factor authentication enabled')
+    },
+    onError: (err) => toast.error(errorMessage(err, 'Invalid code')),
+  })
+}
+
+export function useDisableTwoFactor() {
+  const setUser = useAuthStore((s) => s.setUser)
+  return useMutation({
+    mutationFn: (data: { password: string; code: string }) => auth.disableTwoFactor(data),
+    onSuccess: (res) => {
+      setUser(res.user)
+      toast.success('Two-factor authentication disabled')
+    },
+    onError: (err) => toast.error(errorMessage(err, 'Failed to disable 2FA')),
+  })
+}
+
+export function useRegenerateRecoveryCodes() {
+  return useMutation({
+    mutationFn: (code: string) => auth.regenerateRecoveryCodes(code),
+    onError: (err) => toast.error(errorMessage(err, 'Failed to generate recovery codes')),
+  })
+}
+
+/** SUPER_ADMIN only: clears another account's 2FA so they can enroll again */
+export function useResetTwoFactor() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (userId: string) => adminAdmins.resetTwoFactor(userId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'admins'] })
+      toast.success('Two-factor authentication reset')
+    },
+    onError: (err) => toast.error(errorMessage(err, 'Failed to reset 2FA')),
+  })
+}
@@ -3,12 +3,14 @@ import { adminUsers, adminAdmins, auth } from '@/lib/api'
 import type { Status, User } from '@/lib/schemas'
 import { toast } from 'sonner'
 import { getSocket } from '@/lib/socket'
-import { useEffect } from 'react'
+import { useEffect, useMemo } from 'react'
+import { usePresenceStore } from '@/stores/presenceStore'
 
 export function useAdminUsers(params?: {
   status?: Status
   role?: string
   search?: string
+  pendingDeletion?: boolean
 }) {
   const queryClient = useQueryClient()
 
@@ -201,17 +203,32 @@ export function useAuditLogs(params?: {
   })
 }
 
-export function useAdminList() {
+export function useAdminList(enabled = true) {
   return useQuery({
     queryKey: ['admin', 'admins'],
     queryFn: async () => {
       const res = await adminAdmins.list()
       return { ...res, allAdmins: [...(res.superAdmins ?? []), ...res.admins] }
     },
+    enabled,
     staleTime: 60_000,
   })
 }
 
+/** Admin list with live availability: the listing's presence snapshot, updated by socket events. */
+export function useAdminAvailability(enabled = true) {
+  const { data, isLoading } = useAdminList(enabled)
+  const online = usePresenceStore((s) => s.online)
+  const admins = useMemo(
+    () => (data?.allAdmins ?? []).map((admin) => ({
+      ...admin,
+      available: admin.status !== 'SUSPENDED' && (online[admin.id] ?? admin.isOnline ?? false),
+    })),
+    [data, online],
+  )
+  return { admins, isLoading }
+}
+
 export function useCreateAdmin() {
   const queryClient = useQueryClient()
 
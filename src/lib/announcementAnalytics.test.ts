@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest'
+import { nonReadersToCsv } from '@/lib/announcementAnalytics'
+import type { AnnouncementNonReader } from '@/lib/schemas'
+
+describe('nonReadersToCsv', () => {
+  const users: AnnouncementNonReader[] = [
+    { id: 'u1', name: 'Ada Lovelace', email: 'ada@example.com', role: 'USER', status: 'APPROVED', lastSeenAt: null },
+    { id: 'u2', name: '=HYPERLINK("http://evil.example","Ada")', email: '@evil.example', role: 'USER', status: 'APPROVED', lastSeenAt: null },
+  ]
+
+  it('writes a header and one row per user', () => {
+    const lines = nonReadersToCsv(users).replace(/^\uFEFF/, '').split('\r\n')
+    expect(lines[0]).toBe('name,email,role,status,last_seen')
+    expect(lines[1]).toBe('Ada Lovelace,ada@example.com,USER,APPROVED,')
+    expect(lines).toHaveLength(3)
+  })
+
+  it('neutralizes formula-like names and emails', () => {
+    const [, , row] = nonReadersToCsv(users).split('\r\n')
+    expect(row).toBe(`"'=HYPERLINK(""http://evil.example"",""Ada"")",'@evil.example,USER,APPROVED,`)
+  })
+})
@@ -0,0 +1,66 @@
+// Read receipts for announcements: the engagement funnel shown to admins and the CSV of
+// targeted users who never opened one (for follow-up on IMPORTANT notices).
+import { format } from 'date-fns'
+import { announcementsApi } from '@/lib/api'
+import { csvCell } from '@/lib/transcript'
+import { parseTimestamp } from '@/lib/utils'
+import type { Announcement, AnnouncementAnalytics, AnnouncementNonReader } from '@/lib/schemas'
+
+export type EngagementMetric = 'views' | 'reactions' | 'comments' | 'votes'
+
+export const ENGAGEMENT_METRICS: { value: EngagementMetric; label: string }[] = [
+  { value: 'views', label: 'Views' },
+  { value: 'reactions', label: 'Reactions' },
+  { value: 'comments', label: 'Comments' },
+  { value: 'votes', label: 'Votes' },
+]
+
+export interface FunnelStep {
+  label: string
+  count: number
+  /** Share of the targeted audience, 0–100 */
+  pct: number
+}
+
+export function engagementFunnel(analytics: AnnouncementAnalytics): FunnelStep[] {
+  const pct = (count: number) => analytics.audience > 0 ? Math.round((count / analytics.audience) * 100) : 0
+  return [
+    { label: 'Targeted', count: analytics.audience, pct: analytics.audience > 0 ? 100 : 0 },
+    { label: 'Viewed', count: analytics.viewers, pct: pct(analytics.viewers) },
+    { label: 'Voted', count: analytics.voters, pct: pct(analytics.voters) },
+    { label: 'Reacted', count: analytics.reactors, pct: pct(analytics.reactors) },
+    { label: 'Commented', count: analytics.commenters, pct: pct(analytics.commenters) },
+  ]
+}
+
+const PAGE_SIZE = 200
+
+export async function fetchNonReaders(announcementId: string, onProgress?: (loaded: number) => void): Promise<AnnouncementNonReader[]> {
+  const all: AnnouncementNonReader[] = []
+  let before: string | undefined
+  for (;;) {
+    const res = await announcementsApi.nonReaders(announcementId, { before, limit: PAGE_SIZE })
+    all.push(...res.users)
+    onProgress?.(all.length)
+    if (!res.hasMore || res.users.length === 0) return all
+    before = res.users[res.users.length - 1].id
+  }
+}
+
+const CSV_COLUMNS = ['name', 'email', 'role', 'status', 'last_seen']
+
+export function nonReadersToCsv(users: AnnouncementNonReader[]): string {
+  const rows = users.map((u) => [
+    u.name,
+    u.email,
+    u.role,
+    u.status,
+    u.lastSeenAt ? format(parseTimestamp(u.lastSeenAt), 'yyyy-MM-dd HH:mm:ss') : '',
+  ])
+  return '\uFEFF' + [CSV_COLUMNS, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n')
+}
+
+export function nonReadersFilename(announcement: Announcement) {
+  const slug = announcement.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'announcement'
+  return `non-readers-${slug}-${format(new Date(), 'yyyy-MM-dd')}.csv`
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { lastOccurrence } from '@/lib/announcementSchedule'
+import type { Announcement } from '@/lib/schemas'
+
+const DAY = 24 * 60 * 60_000
+const anchor = Date.UTC(2026, 0, 1, 9)
+
+const base: Announcement = {
+  id: 'a1',
+  title: 'Standup',
+  content: '',
+  type: 'INFO',
+  template: 'DEFAULT',
+  targetRoles: null,
+  upvoteCount: 0,
+  downvoteCount: 0,
+  userVote: null,
+  isActive: true,
+  createdBy: 'admin1',
+  createdAt: anchor - DAY,
+  expiresAt: null,
+  publishAt: anchor,
+}
+
+function announcement(overrides: Partial<Announcement> = {}): Announcement {
+  return { ...base, ...overrides }
+}
+
+describe('lastOccurrence', () => {
+  it('returns the anchor for a one-off scheduled announcement', () => {
+    expect(lastOccurrence(announcement(), anchor + DAY)?.getTime()).toBe(anchor)
+  })
+
+  it('returns the most recent occurrence of a recurring announcement, not the anchor', () => {
+    const ann = announcement({ recurrence: { frequency: 'DAILY', endsAt: null } })
+    expect(lastOccurrence(ann, anchor + 3 * DAY + 60_000)?.getTime()).toBe(anchor + 3 * DAY)
+  })
+
+  it('keeps advancing past the first fifty occurrences', () => {
+    const ann = announcement({ recurrence: { frequency: 'DAILY', endsAt: null } })
+    expect(lastOccurrence(ann, anchor + 120 * DAY)?.getTime()).toBe(anchor + 120 * DAY)
+  })
+
+  it('stops at the end of the recurrence', () => {
+    const ann = announcement({ recurrence: { frequency: 'WEEKLY', endsAt: anchor + 15 * DAY } })
+    expect(lastOccurrence(ann, anchor + 60 * DAY)?.getTime()).toBe(anchor + 14 * DAY)
+  })
+
+  it('is null before the first publish time', () => {
+    expect(lastOccurrence(announcement(), anchor - 1)).toBeNull()
+  })
+})
@@ -0,0 +1,63 @@
+// Scheduled and recurring announcements. The server publishes each occurrence (emitting
+// `announcement:new`); the client only needs to know what is still pending and when it lands.
+import { addDays, addMonths, addWeeks, format } from 'date-fns'
+import { parseTimestamp } from '@/lib/utils'
+import type { Announcement, AnnouncementRecurrence, AnnouncementRecurrenceFrequency } from '@/lib/schemas'
+
+export const RECURRENCE_OPTIONS: { value: AnnouncementRecurrenceFrequency; label: string }[] = [
+  { value: 'DAILY', label: 'Daily' },
+  { value: 'WEEKLY', label: 'Weekly' },
+  { value: 'MONTHLY', label: 'Monthly' },
+]
+
+const STEP: Record<AnnouncementRecurrenceFrequency, (date: Date, amount: number) => Date> = {
+  DAILY: addDays,
+  WEEKLY: addWeeks,
+  MONTHLY: addMonths,
+}
+
+/** Not live yet: its first publish time is still ahead. */
+export function isScheduled(announcement: Announcement, now = Date.now()) {
+  return !!announcement.publishAt && parseTimestamp(announcement.publishAt).getTime() > now
+}
+
+/**
+ * Publish times that fall inside [from, to], oldest first. Occurrences are stepped from the
+ * anchor rather than from each other so monthly runs on the 31st don't drift to the 28th.
+ */
+export function occurrencesBetween(announcement: Announcement, from: number, to: number, max = 50): Date[] {
+  if (!announcement.isActive) return []
+  const anchor = parseTimestamp(announcement.publishAt ?? announcement.createdAt)
+  const { recurrence } = announcement
+  if (!recurrence) {
+    const t = anchor.getTime()
+    return t >= from && t <= to ? [anchor] : []
+  }
+
+  const endsAt = recurrence.endsAt ? parseTimestamp(recurrence.endsAt).getTime() : Infinity
+  const step = STEP[recurrence.frequency]
+  const result: Date[] = []
+  for (let i = 0; result.length < max; i++) {
+    const at = step(anchor, i)
+    const t = at.getTime()
+    if (t > to || t > endsAt) break
+    if (t >= from) result.push(at)
+  }
+  return result
+}
+
+export function nextOccurrence(announcement: Announcement, now = Date.now()): Date | null {
+  return occurrencesBetween(announcement, now, Infinity, 1)[0] ?? null
+}
+
+/** The latest publish time at or before `now`, i.e. the occurrence that most recently went live. */
+export function lastOccurrence(announcement: Announcement, now = Date.now()): Date | null {
+  return occurrencesBetween(announcement, 0, now, Infinity).at(-1) ?? null
+}
+
+export function recurrenceLabel(recurrence: AnnouncementRecurrence) {
+  const frequency = RECURRENCE_OPTIONS.find((o) => o.value === recurrence.frequency)?.label ?? recurrence.frequency
+  return recurrence.endsAt
+    ? `${frequency} until ${format(parseTimestamp(recurrence.endsAt), 'MMM d, yyyy')}`
+    : frequency
+}
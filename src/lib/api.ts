@@ -1,7 +1,11 @@
 import type {
   User,
   Session,
+  Passkey,
   Conversation,
+  ConversationStatus,
+  ConversationTransfer,
+  ConversationPriority,
   Message,
   AuditLog,
   StatusHistoryEntry,
@@ -9,14 +13,27 @@ import type {
   Announcement,
   AnnouncementComment,
   AnnouncementType,
+  AnnouncementRecurrenceFrequency,
+  AnnouncementViewSource,
+  AnnouncementAnalytics,
+  AnnouncementNonReader,
+  AnnouncementAcknowledgement,
+  AcknowledgementStatus,
+  AudienceSegment,
+  AudienceSegmentRules,
+  AnnouncementRevision,
   InternalMessage,
   DirectMessage,
   Subsidiary,
+  RoutingConfig,
+  LinkPreview,
+  SavedReply,
   LoginInput,
   RegisterInput,
   ChangePasswordInput,
   Status,
 } from '@/lib/schemas'
+import type { AuthenticationResponseJSON, RegistrationResponseJSON } from '@/lib/webauthn'
 import ImageKit from 'imagekit-javascript'
 
 const API_URL = import.meta.env.VITE_API_URL || ''
@@ -88,6 +105,17 @@ async function tryRefreshToken(): Promise<boolean> {
   }
 }
 
+// Auth endpoints whose response carries a fresh access token
+const TOKEN_ISSUING_PATHS = new Set([
+  '/auth/login',
+  '/auth/2fa/verify',
+  '/auth/passkeys/login/verify',
+  '/auth/email-login/verify',
+  '/auth/email-login/link',
+  '/auth/refresh',
+  '/auth/password/change',
+])
+
 async function requestOnce(
   path: string,
   options: RequestInit,
@@ -141,7 +169,7 @@ async function request<T>(
     if ('csrfToken' in data && typeof data.csrfToken === 'string') {
       memoryCsrfToken = data.csrfToken
     }
-    if ('token' in data && typeof data.token === 'string' && isAuthPath && (path === '/auth/login' || path === '/auth/refresh' || path === '/auth/password/change')) {
+    if ('token' in data && typeof data.token === 'string' && isAuthPath && TOKEN_ISSUING_PATHS.has(path)) {
       setAuthToken(data.token)
     }
     if (isAuthPath && (path === '/auth/logout' || path === '/auth/sessions/revoke-all')) {
@@ -173,16 +201,29 @@ function del<T>(path: string) {
   return request<T>(path, { method: 'DELETE' })
 }
 
+export interface LoginSuccess {
+  success: boolean
+  token: string
+  csrfToken: string
+  refreshToken: string
+  user: User
+  session: { id: string; expiresAt: number }
+  twoFactorRequired?: false
+}
+
+/** Returned instead of a session when the account has 2FA on; finish with `auth.verifyTwoFactor` */
+export interface TwoFactorChallenge {
+  success: boolean
+  twoFactorRequired: true
+  challengeToken: string
+}
+
 export const auth = {
   login: (data: LoginInput) =>
-    post<{
-      success: boolean
-      token: string
-      csrfToken: string
-      refreshToken: string
-      user: User
-      session: { id: string; expiresAt: number }
-    }>('/auth/login', data),
+    post<LoginSuccess | TwoFactorChallenge>('/auth/login', data),
+
+  verifyTwoFactor: (data: { challengeToken: string; code?: string; recoveryCode?: string }) =>
+    post<LoginSuccess>('/auth/2fa/verify', data),
 
   register: (data: RegisterInput) =>
     post<{ success: boolean; message: string; user: User }>('/auth/register', data),
@@ -222,6 +263,55 @@ export const auth = {
       token,
       newPassword,
     }),
+
+  requestEmailLogin: (email: string) =>
+    post<{ success: boolean; message: string; challengeId: string; expiresIn: number }>('/auth/email-login', { email }),
+
+  verifyEmailLogin: (data: { challengeId: string; code: string }) =>
+    post<LoginSuccess | TwoFactorChallenge>('/auth/email-login/verify', data),
+
+  consumeMagicLink: (token: string) =>
+    post<LoginSuccess | TwoFactorChallenge>('/auth/email-login/link', { token }),
+
+  setupTwoFactor: () =>
+    post<{ success: boolean; secret: string; otpauthUrl: string; qrCode: string }>('/auth/2fa/setup'),
+
+  enableTwoFactor: (code: string) =>
+    post<{ success: boolean; user: User; recoveryCodes: string[] }>('/auth/2fa/enable', { code }),
+
+  disableTwoFactor: (data: { password: string; code: string }) =>
+    post<{ success: boolean; user: User }>('/auth/2fa/disable', data),
+
+  regenerateRecoveryCodes: (code: string) =>
+    post<{ success: boolean; recoveryCodes: string[] }>('/auth/2fa/recovery-codes', { code }),
+
+  requestDeletion: (data: { password: string; reason?: string }) =>
+    post<{ success: boolean; user: User }>('/auth/account/deletion', data),
+
+  cancelDeletion: () =>
+    del<{ success: boolean; user: User }>('/auth/account/deletion'),
+}
+
+export const passkeys = {
+  list: () => get<{ success: boolean; passkeys: Passkey[] }>('/auth/passkeys'),
+
+  registrationOptions: () =>
+    post<{ success: boolean; options: PublicKeyCredentialCreationOptionsJSON }>('/auth/passkeys/register/options'),
+
+  register: (data: { name: string; credential: RegistrationResponseJSON }) =>
+    post<{ success: boolean; passkey: Passkey }>('/auth/passkeys/register/verify', data),
+
+  rename: (id: string, name: string) =>
+    patch<{ success: boolean; passkey: Passkey }>(`/auth/passkeys/${id}`, { name }),
+
+  remove: (id: string) => del<{ success: boolean }>(`/auth/passkeys/${id}`),
+
+  /** Email is optional: without it the browser offers any discoverable passkey for this site */
+  loginOptions: (email?: string) =>
+    post<{ success: boolean; challengeId: string; options: PublicKeyCredentialRequestOptionsJSON }>('/auth/passkeys/login/options', email ? { email } : undefined),
+
+  login: (data: { challengeId: string; credential: AuthenticationResponseJSON }) =>
+    post<LoginSuccess>('/auth/passkeys/login/verify', data),
 }
 
 export const conversations = {
@@ -244,12 +334,15 @@ export const conversations = {
       `/conversations/${conversationId}/messages${buildQs({ before: params?.before, limit: params?.limit })}`,
     ),
 
-  sendMessage: (conversationId: string, data: { type: string; content?: string; mediaId?: string; replyToId?: string; announcementId?: string }) =>
+  sendMessage: (conversationId: string, data: { type: string; content?: string; mediaId?: string; replyToId?: string; announcementId?: string; linkPreview?: boolean; tempId?: string }) =>
     post<{ success: boolean; message: Message }>(
       `/conversations/${conversationId}/messages`,
       data,
     ),
 
+  createNote: (conversationId: string, data: { content: string; mentions: string[] }) =>
+    post<{ success: boolean; message: Message }>(`/conversations/${conversationId}/notes`, data),
+
   markRead: (conversationId: string) =>
     patch<{ success: boolean; readCount: number }>(
       `/conversations/${conversationId}/mark-read`,
@@ -258,6 +351,24 @@ export const conversations = {
   assign: (conversationId: string, adminId: string | null) =>
     patch<{ success: boolean }>(`/conversations/${conversationId}/assign`, { adminId }),
 
+  transfer: (conversationId: string, data: { toAdminId: string; note: string }) =>
+    post<{ success: boolean; transfer: ConversationTransfer }>(`/conversations/${conversationId}/transfers`, data),
+
+  acceptTransfer: (conversationId: string, transferId: string) =>
+    post<{ success: boolean; transfer: ConversationTransfer }>(`/conversations/${conversationId}/transfers/${transferId}/accept`),
+
+  declineTransfer: (conversationId: string, transferId: string, reason?: string) =>
+    post<{ success: boolean; transfer: ConversationTransfer }>(`/conversations/${conversationId}/transfers/${transferId}/decline`, { reason }),
+
+  updateStatus: (conversationId: string, status: ConversationStatus) =>
+    patch<{ success: boolean; conversation: Conversation }>(`/conversations/${conversationId}/status`, { status }),
+
+  updatePriority: (conversationId: string, priority: ConversationPriority) =>
+    patch<{ success: boolean; conversation: Conversation }>(`/conversations/${conversationId}/priority`, { priority }),
+
+  updateTags: (conversationId: string, tags: string[]) =>
+    patch<{ success: boolean; conversation: Conversation }>(`/conversations/${conversationId}/tags`, { tags }),
+
   forUser: (userId: string) =>
     post<{ success: boolean; conversation: { id: string } }>('/conversations/for-user', { userId }),
 
@@ -275,9 +386,9 @@ export const conversations = {
 }
 
 export const adminUsers = {
-  list: (params?: { status?: Status; role?: string; search?: string; before?: string; limit?: number }) =>
+  list: (params?: { status?: Status; role?: string; search?: string; pendingDeletion?: boolean; before?: string; limit?: number }) =>
     get<{ success: boolean; users: User[]; hasMore: boolean }>(
-      `/admin/users${buildQs({ status: params?.status, role: params?.role, search: params?.search, before: params?.before, limit: params?.limit })}`,
+      `/admin/users${buildQs({ status: params?.status, role: params?.role, search: params?.search, ...(params?.pendingDeletion ? { pendingDeletion: 'true' } : {}), before: params?.before, limit: params?.limit })}`,
     ),
 
   getUser: (userId: string) =>
@@ -321,6 +432,9 @@ export const adminAdmins = {
 
   reactivate: (userId: string) =>
     patch<{ success: boolean; message: string }>(`/admin/admins/${userId}/reactivate`, {}),
+
+  resetTwoFactor: (userId: string) =>
+    del<{ success: boolean; message: string }>(`/admin/admins/${userId}/2fa`),
 }
 
 export const media = {
@@ -489,6 +603,18 @@ export const preferences = {
     }),
 }
 
+// Web Push — the server stores one subscription per browser and pushes new-message alerts to it
+export const pushNotifications = {
+  getPublicKey: () =>
+    get<{ success: boolean; publicKey: string }>('/push/public-key'),
+
+  subscribe: (subscription: PushSubscriptionJSON) =>
+    post<{ success: boolean }>('/push/subscriptions', subscription),
+
+  unsubscribe: (endpoint: string) =>
+    del<{ success: boolean }>(`/push/subscriptions${buildQs({ endpoint })}`),
+}
+
 export const adminStats = {
   get: () =>
     get<{
@@ -499,14 +625,21 @@ export const adminStats = {
         messages: number
         activeSessions: number
         activeAnnouncements: number
+        /** Open conversations past / nearing their response target */
+        sla?: { breached: number; atRisk: number }
       }
     }>('/admin/stats'),
 }
 
 export const announcementsApi = {
-  list: (params?: { before?: string; limit?: number; includeInactive?: boolean }) =>
+  list: (params?: { before?: string; limit?: number; includeInactive?: boolean; scheduled?: boolean }) =>
     get<{ success: boolean; announcements: Announcement[]; hasMore: boolean }>(
-      `/announcements${buildQs({ before: params?.before, limit: params?.limit, ...(params?.includeInactive ? { includeInactive: 'true' } : {}) })}`,
+      `/announcements${buildQs({
+        before: params?.before,
+        limit: params?.limit,
+        ...(params?.includeInactive ? { includeInactive: 'true' } : {}),
+        ...(params?.scheduled ? { scheduled: 'true' } : {}),
+      })}`,
     ),
 
   get: (id: string) =>
@@ -520,6 +653,11 @@ export const announcementsApi = {
     mediaId?: string
     targetRoles?: string[]
     expiresAt?: string
+    publishAt?: string
+    recurrence?: { frequency: AnnouncementRecurrenceFrequency; endsAt: string | null }
+    requiresAcknowledgement?: boolean
+    /** Saved segment to copy, or ad-hoc rules; the announcement keeps its own snapshot */
+    segment?: { segmentId?: string; rules: AudienceSegmentRules }
   }) => post<{ success: boolean; announcement: Announcement }>('/announcements', data),
 
   update: (id: string, data: {
@@ -530,6 +668,10 @@ export const announcementsApi = {
     mediaId?: string | null
     targetRoles?: string[] | null
     expiresAt?: string | null
+    publishAt?: string | null
+    recurrence?: { frequency: AnnouncementRecurrenceFrequency; endsAt: string | null } | null
+    requiresAcknowledgement?: boolean
+    segment?: { segmentId?: string; rules: AudienceSegmentRules } | null
     isActive?: boolean
   }) => patch<{ success: boolean; announcement: Announcement }>(`/announcements/${id}`, data),
 
@@ -560,6 +702,59 @@ export const announcementsApi = {
 
   remove: (id: string) =>
     del<{ success: boolean }>(`/announcements/${id}`),
+
+  // Read receipts — recording a view is idempotent per user
+  markViewed: (id: string, source: AnnouncementViewSource) =>
+    post<{ success: boolean; viewedAt: number }>(`/announcements/${id}/view`, { source }),
+
+  analytics: (id: string, params?: { days?: number }) =>
+    get<{ success: boolean; analytics: AnnouncementAnalytics }>(`/announcements/${id}/analytics${buildQs({ days: params?.days })}`),
+
+  nonReaders: (id: string, params?: { before?: string; limit?: number }) =>
+    get<{ success: boolean; users: AnnouncementNonReader[]; hasMore: boolean }>(
+      `/announcements/${id}/non-readers${buildQs({ before: params?.before, limit: params?.limit })}`,
+    ),
+
+  // Mandatory acknowledgement
+  pendingAcknowledgements: () =>
+    get<{ success: boolean; announcements: Announcement[] }>('/announcements/acknowledgements/pending'),
+
+  acknowledge: (id: string) =>
+    post<{ success: boolean; acknowledgedAt: number }>(`/announcements/${id}/acknowledge`),
+
+  acknowledgements: (id: string, params: { status: AcknowledgementStatus; before?: string; limit?: number }) =>
+    get<{
+      success: boolean
+      acknowledgements: AnnouncementAcknowledgement[]
+      hasMore: boolean
+      acknowledgedCount: number
+      outstandingCount: number
+    }>(`/announcements/${id}/acknowledgements${buildQs({ status: params.status, before: params.before, limit: params.limit })}`),
+
+  // Revision history, newest first
+  revisions: (id: string) =>
+    get<{ success: boolean; revisions: AnnouncementRevision[] }>(`/announcements/${id}/revisions`),
+
+  restoreRevision: (id: string, revisionId: string) =>
+    post<{ success: boolean; announcement: Announcement; revision: AnnouncementRevision }>(`/announcements/${id}/revisions/${revisionId}/restore`),
+}
+
+export const audienceSegments = {
+  list: () =>
+    get<{ success: boolean; segments: AudienceSegment[] }>('/announcements/segments'),
+
+  create: (data: { name: string; rules: AudienceSegmentRules }) =>
+    post<{ success: boolean; segment: AudienceSegment }>('/announcements/segments', data),
+
+  update: (id: string, data: { name?: string; rules?: AudienceSegmentRules }) =>
+    patch<{ success: boolean; segment: AudienceSegment }>(`/announcements/segments/${id}`, data),
+
+  remove: (id: string) =>
+    del<{ success: boolean }>(`/announcements/segments/${id}`),
+
+  /** How many users an announcement with this targeting would reach right now */
+  preview: (data: { targetRoles: string[] | null; rules: AudienceSegmentRules | null }) =>
+    post<{ success: boolean; count: number }>('/announcements/segments/preview', data),
 }
 
 export interface AppConfig {
@@ -576,6 +771,8 @@ export interface AppConfig {
     mediaUpload: boolean
     messageDelete: boolean
     messageDeleteTimeLimit: number
+    /** Passwordless sign-in with an emailed link or 6-digit code */
+    emailLogin?: boolean
   }
   limits: {
     message: {
@@ -596,6 +793,10 @@ export interface AppConfig {
     api?: { requestsPerMinute: number }
   }
   session?: { maxDevices: number; accessTokenDays: number }
+  twoFactor?: { requiredForAdmins: boolean }
+  sla?: { firstResponseMinutes: number; nextResponseMinutes: number; warningPercent: number }
+  routing?: RoutingConfig
+  accountDeletion?: { graceDays: number }
   allowedMimeTypes: Record<string, string[]>
   subsidiaries: Subsidiary[]
 }
@@ -606,7 +807,7 @@ export const adminInternal = {
       `/admin/internal${buildQs({ before: params?.before, limit: params?.limit })}`,
     ),
 
-  send: (data: { type?: string; content?: string; mediaId?: string; replyToId?: string }) =>
+  send: (data: { type?: string; content?: string; mediaId?: string; replyToId?: string; linkPreview?: boolean; tempId?: string }) =>
     post<{ success: boolean; message: InternalMessage }>('/admin/internal', data),
 
   delete: (id: string, scope: 'me' | 'all' = 'me') =>
@@ -635,7 +836,7 @@ export const adminDM = {
     get<{ success: boolean; messages: DirectMessage[]; hasMore: boolean; partner: { id: string; name: string; role: string } }>(
       `/admin/dm/${adminId}${buildQs({ before: params?.before, limit: params?.limit })}`,
     ),
-  send: (adminId: string, data: { content?: string; type?: string; mediaId?: string; tempId?: string; replyToId?: string }) =>
+  send: (adminId: string, data: { content?: string; type?: string; mediaId?: string; tempId?: string; replyToId?: string; linkPreview?: boolean }) =>
     post<{ success: boolean; message: DirectMessage; tempId?: string }>(`/admin/dm/${adminId}`, data),
   deleteMessage: (messageId: string, scope: 'me' | 'all' = 'all') =>
     del<{ success: boolean }>(`/admin/dm/message/${messageId}?scope=${scope}`),
@@ -657,8 +858,13 @@ export const appConfig = {
   updateSecurity: (body: {
     rateLimit?: { login?: { maxAttempts: number; windowMinutes: number; lockoutMinutes: number }; api?: { requestsPerMinute: number } }
     session?: { maxDevices: number; accessTokenDays: number }
+    twoFactor?: { requiredForAdmins: boolean }
   }) => patch<{ success: boolean }>('/config/security', body),
 
+  updateSla: (sla: NonNullable<AppConfig['sla']>) => patch<{ success: boolean; sla: AppConfig['sla'] }>('/config/sla', sla),
+
+  updateRouting: (routing: RoutingConfig) => patch<{ success: boolean; routing: RoutingConfig }>('/config/routing', routing),
+
   updateSubsidiaries: (subsidiaries: Subsidiary[]) =>
     patch<{ success: boolean; subsidiaries: Subsidiary[] }>('/config/subsidiaries', subsidiaries),
 }
@@ -675,4 +881,31 @@ export const adminSearch = {
     get<{ success: boolean } & SearchResults>(`/admin/search${buildQs({ q, type, limit })}`),
 }
 
+// Unfurled server-side (preview images are proxied too) so the browser never requests third-party pages directly
+export const linkPreviews = {
+  get: (url: string) =>
+    get<{ success: boolean; preview: LinkPreview | null }>(`/link-preview${buildQs({ url })}`),
+}
+
+export type SavedReplyInput = {
+  title: string
+  body: string
+  mediaId?: string | null
+  shared: boolean
+}
+
+export const savedReplies = {
+  list: () =>
+    get<{ success: boolean; replies: SavedReply[] }>('/admin/saved-replies'),
+
+  create: (data: SavedReplyInput) =>
+    post<{ success: boolean; reply: SavedReply }>('/admin/saved-replies', data),
+
+  update: (id: string, data: Partial<SavedReplyInput>) =>
+    patch<{ success: boolean; reply: SavedReply }>(`/admin/saved-replies/${id}`, data),
+
+  delete: (id: string) =>
+    del<{ success: boolean }>(`/admin/saved-replies/${id}`),
+}
+
 export { ApiError }
@@ -0,0 +1,34 @@
+// Announcement audience segments: readable summaries of the rules for the editor, the saved
+// segment picker and the announcement page.
+import { format } from 'date-fns'
+import { parseTimestamp } from '@/lib/utils'
+import type { AudienceSegmentRules, Subsidiary } from '@/lib/schemas'
+
+export function isEmptySegment(rules: AudienceSegmentRules | null | undefined) {
+  if (!rules) return true
+  return !rules.subsidiaryIds?.length
+    && !rules.registeredAfter
+    && (rules.mediaPermission === undefined || rules.mediaPermission === null)
+    && !rules.users?.length
+}
+
+/** One clause per criterion, e.g. ["Subsidiary: Acme", "Registered after Mar 3, 2026"]. */
+export function segmentSummary(rules: AudienceSegmentRules, subsidiaries: Subsidiary[] = []): string[] {
+  const clauses: string[] = []
+  if (rules.subsidiaryIds?.length) {
+    const names = rules.subsidiaryIds.map((id) => subsidiaries.find((s) => s.id === id)?.name ?? id)
+    clauses.push(`${names.length > 1 ? 'Subsidiaries' : 'Subsidiary'}: ${names.join(', ')}`)
+  }
+  if (rules.registeredAfter) {
+    clauses.push(`Registered after ${format(parseTimestamp(rules.registeredAfter), 'MMM d, yyyy')}`)
+  }
+  if (rules.mediaPermission === true) clauses.push('Can send media')
+  if (rules.mediaPermission === false) clauses.push('Cannot send media')
+  if (rules.users?.length) {
+    const { length } = rules.users
+    clauses.push(clauses.length > 0
+      ? `plus ${length} hand-picked user${length !== 1 ? 's' : ''}`
+      : `${length} hand-picked user${length !== 1 ? 's' : ''}`)
+  }
+  return clauses
+}
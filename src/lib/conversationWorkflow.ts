@@ -0,0 +1,40 @@
+// Conversation workflow state (status, priority, tags): display metadata and the
+// defaults applied to conversations that predate it.
+import type { Conversation, ConversationPriority, ConversationStatus } from '@/lib/schemas'
+
+export const CONVERSATION_STATUSES: { value: ConversationStatus; label: string; className: string }[] = [
+  { value: 'OPEN', label: 'Open', className: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400' },
+  { value: 'WAITING', label: 'Waiting on customer', className: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400' },
+  { value: 'RESOLVED', label: 'Resolved', className: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400' },
+  { value: 'CLOSED', label: 'Closed', className: 'bg-muted text-muted-foreground' },
+]
+
+export const CONVERSATION_PRIORITIES: { value: ConversationPriority; label: string; className: string }[] = [
+  { value: 'LOW', label: 'Low', className: 'text-muted-foreground' },
+  { value: 'NORMAL', label: 'Normal', className: 'text-foreground' },
+  { value: 'HIGH', label: 'High', className: 'text-orange-600 dark:text-orange-400' },
+  { value: 'URGENT', label: 'Urgent', className: 'text-red-600 dark:text-red-400' },
+]
+
+export const MAX_CONVERSATION_TAGS = 10
+
+export function conversationStatus(conversation: Conversation): ConversationStatus {
+  return conversation.status ?? 'OPEN'
+}
+
+export function conversationPriority(conversation: Conversation): ConversationPriority {
+  return conversation.priority ?? 'NORMAL'
+}
+
+export function statusMeta(status: ConversationStatus) {
+  return CONVERSATION_STATUSES.find((s) => s.value === status) ?? CONVERSATION_STATUSES[0]
+}
+
+export function priorityMeta(priority: ConversationPriority) {
+  return CONVERSATION_PRIORITIES.find((p) => p.value === priority) ?? CONVERSATION_PRIORITIES[1]
+}
+
+/** Tags are case-insensitive slugs: "Billing Issue " → "billing-issue". */
+export function normalizeTag(raw: string): string {
+  return raw.trim().toLowerCase().replace(/^#/, '').replace(/\s+/g, '-').replace(/[^a-z0-9\-_]/g, '').slice(0, 32)
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest'
+import { buildDataExportZip } from '@/lib/dataExport'
+import { readZip } from '@/test/readZip'
+import type { AppConfig } from '@/lib/api'
+import type { Message, User } from '@/lib/schemas'
+
+type MyData = Parameters<typeof buildDataExportZip>[0]
+
+const brand: AppConfig['brand'] = { siteName: 'Support', tagline: '', company: 'Acme', supportEmail: 'help@acme.test' }
+
+const user: User = {
+  id: 'u1',
+  email: 'zoë@example.com',
+  name: 'Zoë <script>alert(1)</script>',
+  role: 'USER',
+  status: 'APPROVED',
+  mediaPermission: true,
+  emailNotifyOnMessage: false,
+  createdAt: Date.UTC(2025, 0, 10),
+}
+
+function message(id: string, senderId: string, extra: Pick<Message, 'media' | 'deletedAt'>): Message {
+  return {
+    id,
+    conversationId: 'c1',
+    senderId,
+    sender: { id: senderId, name: senderId === user.id ? user.name : 'Agent', role: senderId === user.id ? 'USER' : 'ADMIN' },
+    type: extra.media ? 'IMAGE' : 'TEXT',
+    content: `message ${id}`,
+    status: 'SENT',
+    readAt: null,
+    createdAt: Date.UTC(2026, 0, 1, 10),
+    ...extra,
+  }
+}
+
+const photo = (id: string) => ({ id, type: 'IMAGE' as const, cdnUrl: `https://cdn.test/${id}.jpg`, filename: `${id}.jpg`, size: 1024, mimeType: 'image/jpeg' })
+
+const data: MyData = {
+  user,
+  sessions: [{ id: 's1', deviceInfo: { browser: 'Firefox', os: 'Linux', device: 'desktop' }, ipAddress: '203.0.113.7', createdAt: Date.UTC(2026, 0, 1), lastActiveAt: Date.UTC(2026, 0, 2), isCurrent: true }],
+  conversationId: 'c1',
+  messages: [
+    message('m1', user.id, { media: photo('mine'), deletedAt: null }),
+    message('m2', user.id, { media: photo('deleted'), deletedAt: Date.UTC(2026, 0, 3) }),
+    message('m3', 'admin', { media: photo('theirs'), deletedAt: null }),
+    message('m4', user.id, { media: null, deletedAt: null }),
+  ],
+  announcements: [{ announcement: { id: 'a1', title: 'Welcome', createdAt: '2026-01-01T00:00:00.000Z' }, vote: 'UP', reaction: null, comments: [] }],
+}
+
+const text = (bytes: Uint8Array) => new TextDecoder().decode(bytes)
+
+describe('buildDataExportZip', () => {
+  it('packages the summary, chat history and one JSON file per dataset', async () => {
+    const zip = await readZip(buildDataExportZip(data, brand))
+    expect(zip.entries.map((e) => e.name)).toEqual([
+      'index.html',
+      'chat-history.html',
+      'data/profile.json',
+      'data/sessions.json',
+      'data/messages.json',
+      'data/media.json',
+      'data/announcements.json',
+    ])
+  })
+
+  it('writes the datasets as parseable JSON', async () => {
+    const zip = await readZip(buildDataExportZip(data, brand))
+    const json = (name: string) => JSON.parse(text(zip.entries.find((e) => e.name === name)!.data))
+    expect(json('data/profile.json')).toEqual(user)
+    expect(json('data/sessions.json')).toEqual(data.sessions)
+    expect(json('data/messages.json')).toHaveLength(4)
+    expect(json('data/announcements.json')).toEqual(data.announcements)
+  })
+
+  it('lists only files the user uploaded and did not delete', async () => {
+    const zip = await readZip(buildDataExportZip(data, brand))
+    const media = JSON.parse(text(zip.entries.find((e) => e.name === 'data/media.json')!.data))
+    expect(media).toEqual([{
+      messageId: 'm1',
+      sentAt: '2026-01-01T10:00:00.000Z',
+      filename: 'mine.jpg',
+      mimeType: 'image/jpeg',
+      size: 1024,
+      url: 'https://cdn.test/mine.jpg',
+    }])
+  })
+
+  it('escapes user-controlled text in the HTML summary', async () => {
+    const zip = await readZip(buildDataExportZip(data, brand))
+    const html = text(zip.entries.find((e) => e.name === 'index.html')!.data)
+    expect(html).not.toContain('<script>alert(1)</script>')
+    expect(html).toContain('Zoë &lt;script&gt;')
+    expect(html).toContain('Sessions (1)')
+  })
+})
@@ -0,0 +1,204 @@
+// "Download my data": gathers everything the API exposes about the signed-in user and
+// packages it as a ZIP of JSON files plus a human-readable HTML summary.
+import { format } from 'date-fns'
+import { announcementsApi, auth, conversations as convApi, type AppConfig } from '@/lib/api'
+import { escapeHtml, fetchTranscriptMessages, transcriptToHtml } from '@/lib/transcript'
+import { createZip } from '@/lib/zip'
+import { parseTimestamp } from '@/lib/utils'
+import type { Announcement, AnnouncementComment, Message, Session, User } from '@/lib/schemas'
+
+export type DataExportStep = 'profile' | 'sessions' | 'messages' | 'announcements' | 'packaging'
+
+export const DATA_EXPORT_STEPS: { step: DataExportStep; label: string }[] = [
+  { step: 'profile', label: 'Profile' },
+  { step: 'sessions', label: 'Sessions' },
+  { step: 'messages', label: 'Chat history' },
+  { step: 'announcements', label: 'Announcement activity' },
+  { step: 'packaging', label: 'Building archive' },
+]
+
+export interface DataExportProgress {
+  step: DataExportStep
+  /** Free-form detail for the current step, e.g. "120 messages" */
+  detail?: string
+}
+
+interface AnnouncementActivity {
+  announcement: { id: string; title: string; createdAt: string }
+  vote: 'UP' | 'DOWN' | null
+  reaction: string | null
+  comments: { id: string; content: string; createdAt: string }[]
+}
+
+interface MyData {
+  user: User
+  sessions: Session[]
+  conversationId: string | null
+  messages: Message[]
+  announcements: AnnouncementActivity[]
+}
+
+const PAGE_SIZE = 50
+
+function iso(value: unknown) {
+  return parseTimestamp(value).toISOString()
+}
+
+async function fetchAllAnnouncements(): Promise<Announcement[]> {
+  const all: Announcement[] = []
+  let before: string | undefined
+  for (;;) {
+    const res = await announcementsApi.list({ before, limit: PAGE_SIZE })
+    all.push(...res.announcements)
+    if (!res.hasMore || res.announcements.length === 0) return all
+    before = res.announcements[res.announcements.length - 1].id
+  }
+}
+
+async function fetchMyComments(announcementId: string, userId: string): Promise<AnnouncementComment[]> {
+  const mine: AnnouncementComment[] = []
+  let before: string | undefined
+  for (;;) {
+    const res = await announcementsApi.listComments(announcementId, { before, limit: PAGE_SIZE })
+    mine.push(...res.comments.filter((c) => c.user.id === userId))
+    if (!res.hasMore || res.comments.length === 0) return mine
+    before = res.comments[res.comments.length - 1].id
+  }
+}
+
+export async function collectMyData(onProgress: (progress: DataExportProgress) => void): Promise<MyData> {
+  onProgress({ step: 'profile' })
+  const { user } = await auth.me()
+
+  onProgress({ step: 'sessions' })
+  const { sessions } = await auth.sessions()
+
+  onProgress({ step: 'messages' })
+  const { conversation } = await convApi.get()
+  const messages = conversation
+    ? await fetchTranscriptMessages(conversation.id, (loaded) => onProgress({ step: 'messages', detail: `${loaded} messages` }))
+    : []
+
+  onProgress({ step: 'announcements' })
+  const announcementList = await fetchAllAnnouncements()
+  const announcements: AnnouncementActivity[] = []
+  for (const [i, a] of announcementList.entries()) {
+    onProgress({ step: 'announcements', detail: `${i + 1} of ${announcementList.length}` })
+    const comments = await fetchMyComments(a.id, user.id)
+    const reaction = a.userReaction?.emoji ?? a.reactions?.find((r) => r.userId === user.id)?.emoji ?? null
+    if (!a.userVote && !reaction && comments.length === 0) continue
+    announcements.push({
+      announcement: { id: a.id, title: a.title, createdAt: iso(a.createdAt) },
+      vote: a.userVote,
+      reaction,
+      comments: comments.map((c) => ({ id: c.id, content: c.content, createdAt: iso(c.createdAt) })),
+    })
+  }
+
+  return { user, sessions, conversationId: conversation?.id ?? null, messages, announcements }
+}
+
+// ─── Archive ─────────────────────────────────────────────────────────────────
+
+function mediaLinks(data: MyData) {
+  return data.messages
+    .filter((m) => m.senderId === data.user.id && m.media && !m.deletedAt)
+    .map((m) => ({
+      messageId: m.id,
+      sentAt: iso(m.createdAt),
+      filename: m.media!.filename,
+      mimeType: m.media!.mimeType,
+      size: m.media!.size,
+      url: m.media!.cdnUrl,
+    }))
+}
+
+function summaryHtml(data: MyData, brand: AppConfig['brand'], exportedAt: Date) {
+  const { user } = data
+  const row = (label: string, value: string) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`
+  const media = mediaLinks(data)
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(`${brand.siteName} — Data export for ${user.name}`)}</title>
+<style>
+  body { font: 14px/1.5 system-ui, -apple-system, "Segoe UI", sans-serif; color: #111; max-width: 820px; margin: 0 auto; padding: 32px 24px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 16px; margin: 28px 0 8px; border-bottom: 1px solid #ddd; padding-bottom: 4px; }
+  table { border-collapse: collapse; width: 100%; font-size: 13px; }
+  th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid #eee; vertical-align: top; }
+  th { color: #555; font-weight: 600; white-space: nowrap; }
+  .muted { color: #777; font-size: 12px; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(brand.siteName)} — your data</h1>
+<p class="muted">Exported ${format(exportedAt, 'yyyy-MM-dd HH:mm')} · ${escapeHtml(brand.company)} · ${escapeHtml(brand.supportEmail)}</p>
+
+<h2>Profile</h2>
+<table>
+${row('Name', user.name)}
+${row('Email', user.email)}
+${row('Phone', user.phone ?? '—')}
+${row('Account status', user.status)}
+${row('Member since', format(parseTimestamp(user.createdAt), 'yyyy-MM-dd'))}
+${row('Email notifications', user.emailNotifyOnMessage ? 'On' : 'Off')}
+</table>
+
+<h2>Sessions (${data.sessions.length})</h2>
+<table>
+<tr><th>Device</th><th>IP address</th><th>Signed in</th><th>Last active</th></tr>
+${data.sessions.map((s) => `<tr><td>${escapeHtml(`${s.deviceInfo.browser} on ${s.deviceInfo.os}`)}</td><td>${escapeHtml(s.ipAddress)}</td><td>${format(parseTimestamp(s.createdAt), 'yyyy-MM-dd HH:mm')}</td><td>${format(parseTimestamp(s.lastActiveAt), 'yyyy-MM-dd HH:mm')}</td></tr>`).join('\n')}
+</table>
+
+<h2>Chat history</h2>
+<p>${data.messages.length} messages — see <a href="chat-history.html">chat-history.html</a>.</p>
+
+<h2>Uploaded files (${media.length})</h2>
+<table>
+${media.map((m) => `<tr><td><a href="${escapeHtml(m.url)}">${escapeHtml(m.filename)}</a></td><td class="muted">${escapeHtml(m.mimeType)}</td><td class="muted">${m.sentAt.slice(0, 10)}</td></tr>`).join('\n') || '<tr><td class="muted">None</td></tr>'}
+</table>
+
+<h2>Announcement activity (${data.announcements.length})</h2>
+<table>
+${data.announcements.map((a) => `<tr><th>${escapeHtml(a.announcement.title)}</th><td>${[
+    a.vote ? `Voted ${a.vote === 'UP' ? 'up' : 'down'}` : '',
+    a.reaction ? `Reacted ${escapeHtml(a.reaction)}` : '',
+    ...a.comments.map((c) => `Comment (${c.createdAt.slice(0, 10)}): ${escapeHtml(c.content)}`),
+  ].filter(Boolean).join('<br>')}</td></tr>`).join('\n') || '<tr><td class="muted">None</td></tr>'}
+</table>
+</body>
+</html>`
+}
+
+export function buildDataExportZip(data: MyData, brand: AppConfig['brand']): Blob {
+  const exportedAt = new Date()
+  const json = (value: unknown) => JSON.stringify(value, null, 2)
+
+  return createZip([
+    { name: 'index.html', data: summaryHtml(data, brand, exportedAt) },
+    {
+      name: 'chat-history.html',
+      data: transcriptToHtml({
+        brand,
+        conversationId: data.conversationId ?? '—',
+        customer: { name: data.user.name, email: data.user.email },
+        exportedBy: data.user.name,
+        exportedAt: exportedAt.getTime(),
+        messages: data.messages,
+      }),
+    },
+    { name: 'data/profile.json', data: json(data.user) },
+    { name: 'data/sessions.json', data: json(data.sessions) },
+    { name: 'data/messages.json', data: json(data.messages) },
+    { name: 'data/media.json', data: json(mediaLinks(data)) },
+    { name: 'data/announcements.json', data: json(data.announcements) },
+  ], exportedAt)
+}
+
+export function dataExportFilename(user: User) {
+  const slug = user.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'account'
+  return `my-data-${slug}-${format(new Date(), 'yyyy-MM-dd')}.zip`
+}
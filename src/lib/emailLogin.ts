@@ -0,0 +1,30 @@
+// Resend pacing for emailed sign-in codes. Requests count against the same login rate limit
+// as password attempts, so the client mirrors `rateLimit.login` to avoid offering a resend the
+// server would reject.
+import type { AppConfig } from '@/lib/api'
+
+type LoginRateLimit = NonNullable<NonNullable<AppConfig['rateLimit']>['login']>
+
+export const DEFAULT_LOGIN_RATE_LIMIT: LoginRateLimit = { maxAttempts: 5, windowMinutes: 15, lockoutMinutes: 30 }
+
+/** Minimum gap between two code emails, even well inside the rate limit */
+export const EMAIL_LOGIN_RESEND_SECONDS = 30
+
+/** Seconds until another code can be requested, given when earlier ones were sent (ms timestamps). */
+export function resendCooldown(sentAt: number[], limit: LoginRateLimit | undefined, now: number): number {
+  const last = sentAt[sentAt.length - 1]
+  if (last === undefined) return 0
+  const { maxAttempts, windowMinutes, lockoutMinutes } = limit ?? DEFAULT_LOGIN_RATE_LIMIT
+
+  const recent = sentAt.filter((t) => now - t < windowMinutes * 60_000)
+  const readyAt = recent.length >= maxAttempts
+    ? last + lockoutMinutes * 60_000
+    : last + EMAIL_LOGIN_RESEND_SECONDS * 1000
+  return Math.max(0, Math.ceil((readyAt - now) / 1000))
+}
+
+export function formatCooldown(seconds: number) {
+  const m = Math.floor(seconds / 60)
+  const s = seconds % 60
+  return m > 0 ? `${m}:${String(s).padStart(2, '0')}` : `${s}s`
+}
@@ -0,0 +1,56 @@
+// Minimal promise wrapper around IndexedDB — one object store per database,
+// which is all the offline features need. Every call rejects when IndexedDB is
+// unavailable (private browsing, old Safari), so callers should treat
+// persistence as best-effort.
+
+export interface IdbStore<T> {
+  get: (key: IDBValidKey) => Promise<T | undefined>
+  getAll: () => Promise<T[]>
+  put: (value: T, key?: IDBValidKey) => Promise<void>
+  delete: (key: IDBValidKey) => Promise<void>
+  clear: () => Promise<void>
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export function createIdbStore<T>(dbName: string, storeName: string, keyPath?: string): IdbStore<T> {
+  let dbPromise: Promise<IDBDatabase> | null = null
+
+  const open = () => {
+    if (!dbPromise) {
+      dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available'))
+          return
+        }
+        const request = indexedDB.open(dbName, 1)
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(storeName, keyPath ? { keyPath } : undefined)
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+      // Allow a later call to try again instead of caching the failure forever
+      dbPromise.catch(() => { dbPromise = null })
+    }
+    return dbPromise
+  }
+
+  const run = async <R>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> => {
+    const db = await open()
+    return promisify(fn(db.transaction(storeName, mode).objectStore(storeName)))
+  }
+
+  return {
+    get: (key) => run('readonly', (s) => s.get(key) as IDBRequest<T | undefined>),
+    getAll: () => run('readonly', (s) => s.getAll() as IDBRequest<T[]>),
+    put: async (value, key) => { await run('readwrite', (s) => s.put(value, key)) },
+    delete: async (key) => { await run('readwrite', (s) => s.delete(key)) },
+    clear: async () => { await run('readwrite', (s) => s.clear()) },
+  }
+}
@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest'
+import { parseInline, parseMarkdown, sanitizeUrl, type MarkdownBlock, type MarkdownInline } from '@/lib/markdown'
+
+function links(nodes: MarkdownInline[]): Extract<MarkdownInline, { type: 'link' }>[] {
+  return nodes.flatMap((n) => {
+    if (n.type === 'link') return [n, ...links(n.children)]
+    return n.type === 'strong' || n.type === 'em' ? links(n.children) : []
+  })
+}
+
+function blockLinks(blocks: MarkdownBlock[]): Extract<MarkdownInline, { type: 'link' }>[] {
+  return blocks.flatMap((b) => {
+    switch (b.type) {
+      case 'heading':
+      case 'paragraph':
+        return links(b.children)
+      case 'list':
+        return b.items.flatMap(links)
+      case 'blockquote':
+        return blockLinks(b.children)
+      default:
+        return []
+    }
+  })
+}
+
+describe('sanitizeUrl', () => {
+  it.each([
+    'https://example.com/path?q=1#top',
+    'http://example.com',
+    'mailto:support@example.com',
+    'tel:+15551234567',
+    '/announcements/42',
+    '#section',
+    '?tab=comments',
+  ])('keeps %s', (url) => {
+    expect(sanitizeUrl(url)).toBe(url)
+  })
+
+  it('prefixes bare domains with https://', () => {
+    expect(sanitizeUrl('example.com/docs')).toBe('https://example.com/docs')
+  })
+
+  it.each([
+    'javascript:alert(1)',
+    'data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==',
+    'data:image/svg+xml,<svg onload=alert(1)>',
+    'vbscript:msgbox(1)',
+    'file:///etc/passwd',
+  ])('rejects %s', (url) => {
+    expect(sanitizeUrl(url)).toBeNull()
+  })
+
+  it.each(['JavaScript:alert(1)', 'JAVASCRIPT:alert(1)', 'DaTa:text/html,x', 'VBScript:msgbox(1)'])(
+    'rejects mixed-case scheme %s',
+    (url) => {
+      expect(sanitizeUrl(url)).toBeNull()
+    },
+  )
+
+  it.each([
+    'java\tscript:alert(1)',
+    'java\nscript:alert(1)',
+    'java\u0000script:alert(1)',
+    '\u0001javascript:alert(1)',
+    '  javascript:alert(1)',
+    'javascript\u007F:alert(1)',
+  ])('rejects control-character obfuscated scheme %j', (url) => {
+    expect(sanitizeUrl(url)).toBeNull()
+  })
+
+  it.each([
+    'javascript&#58;alert(1)',
+    'javascript&colon;alert(1)',
+    '&#106;avascript:alert(1)',
+    '&#x6A;avascript:alert(1)',
+    'jav&#x09;ascript:alert(1)',
+  ])('rejects entity-obfuscated scheme %s', (url) => {
+    expect(sanitizeUrl(url)).toBeNull()
+  })
+
+  it.each(['//evil.com', '/\\evil.com', '/\\/evil.com', '//\tevil.com', ' //evil.com'])(
+    'rejects protocol-relative %j',
+    (url) => {
+      expect(sanitizeUrl(url)).toBeNull()
+    },
+  )
+
+  it('rejects empty and whitespace-only targets', () => {
+    expect(sanitizeUrl('')).toBeNull()
+    expect(sanitizeUrl(' \t\n')).toBeNull()
+  })
+})
+
+describe('parseInline links', () => {
+  it('links safe targets', () => {
+    expect(parseInline('[docs](https://example.com)')).toEqual([
+      { type: 'link', href: 'https://example.com', children: [{ type: 'text', text: 'docs' }] },
+    ])
+  })
+
+  it('drops the link but keeps the text for unsafe targets', () => {
+    const nodes = parseInline('[click me](javascript:alert(1))')
+    expect(links(nodes)).toEqual([])
+    expect(nodes[0]).toEqual({ type: 'text', text: 'click me)' })
+  })
+
+  it.each([
+    '[x](JaVaScRiPt:alert(1))',
+    '[x](data:text/html,hi)',
+    '[x](vbscript:msgbox)',
+    '[x](//evil.com)',
+    '[x](/\\evil.com)',
+    '[x](javascript&#58;alert(1))',
+  ])('never produces a link for %s', (source) => {
+    expect(links(parseInline(source))).toEqual([])
+  })
+
+  it('never nests a link inside another link', () => {
+    for (const source of [
+      '[a [b](https://inner.com)](https://outer.com)',
+      '[see https://inner.com](https://outer.com)',
+      '[**bold https://inner.com**](https://outer.com)',
+    ]) {
+      for (const link of links(parseInline(source))) {
+        expect(links(link.children)).toEqual([])
+      }
+    }
+  })
+
+  it('leaves unclosed links as text', () => {
+    expect(links(parseInline('[docs](/announcements'))).toEqual([])
+    expect(links(parseInline('[docs(https://example.com)'))).toEqual([
+      expect.objectContaining({ href: 'https://example.com' }),
+    ])
+    expect(parseInline('[docs]')).toEqual([{ type: 'text', text: '[docs]' }])
+  })
+
+  it('keeps HTML in link text as literal text', () => {
+    const [link] = links(parseInline('[<img src=x onerror=alert(1)>](https://example.com)'))
+    expect(link.children).toEqual([{ type: 'text', text: '<img src=x onerror=alert(1)>' }])
+  })
+
+  it('keeps HTML outside links as literal text', () => {
+    expect(parseInline('<script>alert(1)</script>')).toEqual([{ type: 'text', text: '<script>alert(1)</script>' }])
+  })
+})
+
+describe('parseMarkdown', () => {
+  it('sanitizes links in every block type', () => {
+    const source = [
+      '# [x](javascript:alert(1))',
+      '> [x](data:text/html,hi)',
+      '- [x](vbscript:msgbox)',
+      '1. [x](//evil.com)',
+      '[ok](https://example.com)',
+    ].join('\n\n')
+    expect(blockLinks(parseMarkdown(source)).map((l) => l.href)).toEqual(['https://example.com'])
+  })
+
+  it('does not parse links inside code', () => {
+    const blocks = parseMarkdown('```\n[x](javascript:alert(1))\n```\n\n`[y](https://example.com)`')
+    expect(blocks[0]).toEqual({ type: 'code', text: '[x](javascript:alert(1))' })
+    expect(blockLinks(blocks)).toEqual([])
+  })
+})
@@ -0,0 +1,232 @@
+// Minimal Markdown parser for announcement content.
+// Produces a plain AST that components render as React elements — raw HTML is
+// never interpreted, so the only injection surface left is link targets, which
+// all go through sanitizeUrl().
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'em'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'break' }
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownInline[][] }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'code'; text: string }
+  | { type: 'rule' }
+
+const SAFE_PROTOCOLS = new Set(['http:', 'https:', 'mailto:', 'tel:'])
+
+/**
+ * Returns a safe href for a user-supplied link target, or null if it must not be linked.
+ * Allows http(s), mailto, tel and same-site relative paths; bare domains get https://.
+ */
+export function sanitizeUrl(raw: string): string | null {
+  // Browsers strip tabs/newlines inside URLs, so "java\tscript:" must be normalised first
+  // eslint-disable-next-line no-control-regex
+  const url = raw.replace(/[\u0000-\u001F\u007F\s]+/g, '')
+  if (!url) return null
+
+  if (url.startsWith('#') || url.startsWith('?')) return url
+  if (url.startsWith('/')) return url.startsWith('//') || url.startsWith('/\\') ? null : url
+
+  const scheme = url.match(/^([a-z][a-z0-9+.-]*):/i)
+  if (scheme) {
+    return SAFE_PROTOCOLS.has(`${scheme[1].toLowerCase()}:`) ? url : null
+  }
+
+  if (/^[\w-]+(\.[\w-]+)+([/?#].*)?$/.test(url)) return `https://${url}`
+  return null
+}
+
+export function isExternalUrl(href: string): boolean {
+  return /^https?:\/\//i.test(href)
+}
+
+// ── Inline ──────────────────────────────────────────────────────────────────
+
+const INLINE_PATTERN = new RegExp([
+  /\\([\\`*_[\]()#>+\-.!~|])/.source,                         // 1: escaped char
+  /`([^`\n]+)`/.source,                                      // 2: code
+  /\*\*(?=\S)([\s\S]*?\S)\*\*/.source,                       // 3: **strong**
+  /__(?=\S)([\s\S]*?\S)__/.source,                           // 4: __strong__
+  /\*(?=\S)([\s\S]*?\S)\*/.source,                           // 5: *em*
+  /(?<![\w])_(?=\S)([\s\S]*?\S)_(?![\w])/.source,            // 6: _em_
+  /\[([^\]\n]+)\]\(\s*([^)\s]+)\s*\)/.source,                // 7, 8: [text](url)
+  /(https?:\/\/[^\s<]*[^\s<.,:;"')\]!?*_])/.source,           // 9: bare URL
+  /( {2,}\n|\n)/.source,                                     // 10: line break
+].join('|'), 'g')
+
+export function parseInline(text: string, allowLinks = true): MarkdownInline[] {
+  const nodes: MarkdownInline[] = []
+  let last = 0
+
+  const pushText = (value: string) => {
+    if (!value) return
+    const prev = nodes[nodes.length - 1]
+    if (prev?.type === 'text') prev.text += value
+    else nodes.push({ type: 'text', text: value })
+  }
+
+  // Fresh instance per call: recursion into nested spans must not share lastIndex
+  const pattern = new RegExp(INLINE_PATTERN)
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text)) !== null) {
+    const [whole, escaped, code, strongA, strongB, emA, emB, linkText, linkUrl, bareUrl, lineBreak] = match
+    // Nested links or autolinks inside link text would produce invalid <a><a> markup
+    if (!allowLinks && (linkText !== undefined || bareUrl !== undefined)) continue
+
+    pushText(text.slice(last, match.index))
+    last = match.index + whole.length
+
+    if (escaped !== undefined) {
+      pushText(escaped)
+    } else if (code !== undefined) {
+      nodes.push({ type: 'code', text: code })
+    } else if (strongA !== undefined || strongB !== undefined) {
+      nodes.push({ type: 'strong', children: parseInline(strongA ?? strongB, allowLinks) })
+    } else if (emA !== undefined || emB !== undefined) {
+      nodes.push({ type: 'em', children: parseInline(emA ?? emB, allowLinks) })
+    } else if (linkText !== undefined) {
+      const href = sanitizeUrl(linkUrl)
+      const children = parseInline(linkText, false)
+      if (href) nodes.push({ type: 'link', href, children })
+      else nodes.push(...children)
+    } else if (bareUrl !== undefined) {
+      const href = sanitizeUrl(bareUrl)
+      if (href) nodes.push({ type: 'link', href, children: [{ type: 'text', text: bareUrl }] })
+      else pushText(bareUrl)
+    } else if (lineBreak !== undefined) {
+      nodes.push({ type: 'break' })
+    }
+  }
+
+  pushText(text.slice(last))
+  return nodes
+}
+
+// ── Blocks ──────────────────────────────────────────────────────────────────
+
+const FENCE = /^\s*```/
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/
+const QUOTE = /^\s{0,3}>\s?(.*)$/
+const BULLET = /^\s*[-*+•]\s+(.*)$/
+const ORDERED = /^\s*(\d{1,9})[.)]\s+(.*)$/
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/
+
+function startsBlock(line: string): boolean {
+  return FENCE.test(line) || HEADING.test(line) || QUOTE.test(line) ||
+    RULE.test(line) || BULLET.test(line) || ORDERED.test(line)
+}
+
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n')
+  const blocks: MarkdownBlock[] = []
+  let i = 0
+
+  while (i < lines.length) {
+    const line = lines[i]
+
+    if (!line.trim()) { i++; continue }
+
+    if (FENCE.test(line)) {
+      const body: string[] = []
+      i++
+      while (i < lines.length && !FENCE.test(lines[i])) body.push(lines[i++])
+      i++ // closing fence (or EOF)
+      blocks.push({ type: 'code', text: body.join('\n') })
+      continue
+    }
+
+    const heading = line.match(HEADING)
+    if (heading) {
+      const level = Math.min(heading[1].length, 3) as 1 | 2 | 3
+      blocks.push({ type: 'heading', level, children: parseInline(heading[2]) })
+      i++
+      continue
+    }
+
+    // Checked before lists so "---" / "***" are not read as empty bullets
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' })
+      i++
+      continue
+    }
+
+    if (QUOTE.test(line)) {
+      const body: string[] = []
+      while (i < lines.length && QUOTE.test(lines[i])) body.push(lines[i++].match(QUOTE)![1])
+      blocks.push({ type: 'blockquote', children: parseMarkdown(body.join('\n')) })
+      continue
+    }
+
+    const ordered = line.match(ORDERED)
+    if (ordered || BULLET.test(line)) {
+      const pattern = ordered ? ORDERED : BULLET
+      const items: string[] = []
+      while (i < lines.length && lines[i].trim()) {
+        const item = lines[i].match(pattern)
+        if (item) {
+          items.push(item[item.length - 1])
+        } else if (/^\s+\S/.test(lines[i]) && !startsBlock(lines[i])) {
+          // Indented continuation of the previous item
+          items[items.length - 1] += `\n${lines[i].trim()}`
+        } else {
+          break
+        }
+        i++
+      }
+      blocks.push({
+        type: 'list',
+        ordered: !!ordered,
+        start: ordered ? Number(ordered[1]) : 1,
+        items: items.map((item) => parseInline(item)),
+      })
+      continue
+    }
+
+    const body: string[] = [line]
+    i++
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines[i])) body.push(lines[i++])
+    blocks.push({ type: 'paragraph', children: parseInline(body.join('\n')) })
+  }
+
+  return blocks
+}
+
+/** Flattens Markdown to plain text — for titles, notifications and other single-line surfaces. */
+export function markdownToPlainText(source: string): string {
+  const inlineText = (nodes: MarkdownInline[]): string => nodes.map((n) => {
+    switch (n.type) {
+      case 'text':
+      case 'code':
+        return n.text
+      case 'break':
+        return ' '
+      default:
+        return inlineText(n.children)
+    }
+  }).join('')
+
+  const blockText = (blocks: MarkdownBlock[]): string[] => blocks.flatMap((b) => {
+    switch (b.type) {
+      case 'heading':
+      case 'paragraph':
+        return [inlineText(b.children)]
+      case 'list':
+        return b.items.map(inlineText)
+      case 'blockquote':
+        return blockText(b.children)
+      case 'code':
+        return [b.text]
+      case 'rule':
+        return []
+    }
+  })
+
+  return blockText(parseMarkdown(source)).join(' ').replace(/\s+/g, ' ').trim()
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { formatMessage, type MessageToken } from '@/lib/messageFormat'
+
+function phoneLinks(text: string): string[] {
+  return formatMessage(text)
+    .filter((t): t is Extract<MessageToken, { type: 'link' }> => t.type === 'link' && t.kind === 'phone')
+    .map((t) => t.href)
+}
+
+describe('phone numbers', () => {
+  it.each([
+    ['+1 555 123 4567', 'tel:+15551234567'],
+    ['+442079460958', 'tel:+442079460958'],
+    ['+49 30 901820', 'tel:+4930901820'],
+  ])('links international number %s', (text, href) => {
+    expect(phoneLinks(`call ${text} today`)).toEqual([href])
+  })
+
+  it.each([
+    ['(555) 123-4567', 'tel:5551234567'],
+    ['555-123-4567', 'tel:5551234567'],
+    ['555.123.4567', 'tel:5551234567'],
+    ['020 7946 0958', 'tel:02079460958'],
+    ['07700 900123', 'tel:07700900123'],
+    ['1 (555) 123-4567', 'tel:15551234567'],
+  ])('links grouped local number %s', (text, href) => {
+    expect(phoneLinks(`call ${text} today`)).toEqual([href])
+  })
+
+  it.each([
+    'Order 1234567890 has shipped',
+    'Tracking: 940011189922385',
+    'Account 000123456789',
+    'ref 1234567890 2 items',
+    'server at 192.168.100.200',
+    'call 555-1234',
+    '+12345',
+  ])('leaves %j as text', (text) => {
+    expect(phoneLinks(text)).toEqual([])
+  })
+})
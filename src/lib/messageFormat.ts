@@ -0,0 +1,142 @@
+// Lightweight chat formatter — WhatsApp-style markers rather than full Markdown,
+// since chat text is short and typed on phones. Link targets share the
+// announcement renderer's sanitizer.
+import { sanitizeUrl } from '@/lib/markdown'
+
+export type MessageToken =
+  | { type: 'text'; text: string }
+  | { type: 'bold'; children: MessageToken[] }
+  | { type: 'italic'; children: MessageToken[] }
+  | { type: 'code'; text: string }
+  | { type: 'codeBlock'; text: string }
+  | { type: 'link'; href: string; text: string; kind: 'url' | 'email' | 'phone' }
+  | { type: 'mention'; name: string }
+
+const TOKEN_PATTERN = new RegExp([
+  /```\n?([\s\S]*?)\n?```/.source,                                       // 1: ```block```
+  /`([^`\n]+)`/.source,                                                  // 2: `code`
+  /(?<![\w*])\*(?=\S)([^*\n]*?\S)\*(?![\w*])/.source,                    // 3: *bold*
+  /(?<![\w_])_(?=\S)([^_\n]*?\S)_(?![\w_])/.source,                      // 4: _italic_
+  /((?:https?:\/\/|www\.)[^\s<]*[^\s<.,:;"')\]!?*_])/.source,             // 5: URL
+  /([\w.+-]+@[\w-]+(?:\.[\w-]+)*\.[a-z]{2,})/.source,                    // 6: email
+  /(?<![\w@.])@([A-Za-z][\w.-]*[\w])/.source,                            // 7: @mention
+  /(?<![\w+])(\+?\d[\d\s().-]{5,}\d)(?![\w:])/.source,                   // 8: phone candidate
+].join('|'), 'gi')
+
+function isPhoneNumber(candidate: string): boolean {
+  const digits = candidate.replace(/\D/g, '').length
+  if (digits > 15) return false
+  if (candidate.startsWith('+')) return digits >= 7
+  // Without a country code a bare digit run is more likely an order, tracking or account
+  // number, so only numbers written in groups count, e.g. "(555) 123-4567" or "020 7946 0958"
+  if (digits < 10 || /^\d{1,3}(\.\d{1,3}){3}$/.test(candidate)) return false
+  const groups = candidate.match(/\d+/g) ?? []
+  return groups.length >= 2 && groups.every((g, i) => g.length <= 6 && (i === 0 || g.length >= 2))
+}
+
+export function formatMessage(text: string): MessageToken[] {
+  const tokens: MessageToken[] = []
+  let last = 0
+
+  const pushText = (value: string) => {
+    if (!value) return
+    const prev = tokens[tokens.length - 1]
+    if (prev?.type === 'text') prev.text += value
+    else tokens.push({ type: 'text', text: value })
+  }
+
+  // Fresh instance per call: bold/italic recurse and must not share lastIndex
+  const pattern = new RegExp(TOKEN_PATTERN)
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text)) !== null) {
+    const [whole, block, code, bold, italic, url, email, mention, phone] = match
+
+    if (phone !== undefined && !isPhoneNumber(phone)) continue
+
+    pushText(text.slice(last, match.index))
+    last = match.index + whole.length
+
+    if (block !== undefined) {
+      tokens.push({ type: 'codeBlock', text: block })
+    } else if (code !== undefined) {
+      tokens.push({ type: 'code', text: code })
+    } else if (bold !== undefined) {
+      tokens.push({ type: 'bold', children: formatMessage(bold) })
+    } else if (italic !== undefined) {
+      tokens.push({ type: 'italic', children: formatMessage(italic) })
+    } else if (url !== undefined) {
+      const href = sanitizeUrl(url)
+      if (href) tokens.push({ type: 'link', href, text: url, kind: 'url' })
+      else pushText(url)
+    } else if (email !== undefined) {
+      tokens.push({ type: 'link', href: `mailto:${email}`, text: email, kind: 'email' })
+    } else if (mention !== undefined) {
+      tokens.push({ type: 'mention', name: mention })
+    } else if (phone !== undefined) {
+      tokens.push({ type: 'link', href: `tel:${phone.replace(/[^\d+]/g, '')}`, text: phone, kind: 'phone' })
+    }
+  }
+
+  pushText(text.slice(last))
+  return tokens
+}
+
+/** First web URL in a message (ignoring code spans), as a sanitized href — the link preview target. */
+export function firstMessageUrl(text: string): string | null {
+  const find = (tokens: MessageToken[]): string | null => {
+    for (const t of tokens) {
+      if (t.type === 'link' && t.kind === 'url') return t.href
+      if (t.type === 'bold' || t.type === 'italic') {
+        const nested = find(t.children)
+        if (nested) return nested
+      }
+    }
+    return null
+  }
+  return find(formatMessage(text))
+}
+
+/** Strips formatting markers — for reply previews, notifications and conversation list snippets. */
+export function messagePlainText(text: string): string {
+  const flatten = (tokens: MessageToken[]): string => tokens.map((t) => {
+    switch (t.type) {
+      case 'text':
+      case 'code':
+      case 'codeBlock':
+      case 'link':
+        return t.text
+      case 'mention':
+        return `@${t.name}`
+      default:
+        return flatten(t.children)
+    }
+  }).join('')
+  return flatten(formatMessage(text))
+}
+
+/** How a person is @mentioned: their name with spaces removed, e.g. "@JaneDoe". */
+export function mentionHandle(name: string): string {
+  return name.replace(/[^\w.-]/g, '')
+}
+
+/** Ids of the `candidates` @mentioned in `text` by handle or first name (case-insensitive). */
+export function extractMentions(text: string, candidates: { id: string; name: string }[]): string[] {
+  const mentioned = new Set<string>()
+  const collect = (tokens: MessageToken[]) => {
+    for (const t of tokens) {
+      if (t.type === 'mention') mentioned.add(t.name.toLowerCase())
+      else if (t.type === 'bold' || t.type === 'italic') collect(t.children)
+    }
+  }
+  collect(formatMessage(text))
+  return candidates
+    .filter((c) => mentioned.has(mentionHandle(c.name).toLowerCase()) || mentioned.has(c.name.split(/\s+/)[0].toLowerCase()))
+    .map((c) => c.id)
+}
+
+export const MESSAGE_FORMAT_HINTS: { marker: string; label: string; example: string }[] = [
+  { marker: '*', label: 'Bold', example: '*bold*' },
+  { marker: '_', label: 'Italic', example: '_italic_' },
+  { marker: '`', label: 'Code', example: '`code`' },
+  { marker: '```', label: 'Code block', example: '```block```' },
+]
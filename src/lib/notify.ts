@@ -0,0 +1,127 @@
+// In-tab notification helpers: browser Notification API alerts, short synthesized
+// chimes and the unread badge in the tab title and favicon.
+import type { NotificationEvent } from '@/stores/notificationPrefsStore'
+
+// ── Desktop alerts ──────────────────────────────────────────────────────────
+
+export function canShowDesktopNotifications(): boolean {
+  return 'Notification' in window && Notification.permission === 'granted'
+}
+
+export function showDesktopNotification(options: { title: string; body: string; tag?: string; onClick?: () => void }): void {
+  if (!canShowDesktopNotifications()) return
+  try {
+    const notification = new Notification(options.title, {
+      body: options.body,
+      tag: options.tag,
+      icon: document.querySelector<HTMLLinkElement>('link[rel="icon"]')?.href,
+    })
+    notification.onclick = () => {
+      window.focus()
+      options.onClick?.()
+      notification.close()
+    }
+  } catch {
+    // Some mobile browsers only allow notifications from a service worker
+  }
+}
+
+// ── Sounds ──────────────────────────────────────────────────────────────────
+
+// Synthesized rather than shipped as audio files; each event gets its own pitch pattern
+const TONES: Record<NotificationEvent, number[]> = {
+  message: [880, 1175],
+  dm: [988, 988],
+  internal: [660],
+  assigned: [784, 988, 1319],
+}
+
+let audioContext: AudioContext | null = null
+
+export function playNotificationSound(event: NotificationEvent): void {
+  try {
+    audioContext ??= new AudioContext()
+    const ctx = audioContext
+    // Autoplay policy: the context stays suspended until the user has interacted with the page
+    if (ctx.state === 'suspended') ctx.resume().catch(() => {})
+
+    TONES[event].forEach((frequency, i) => {
+      const start = ctx.currentTime + i * 0.12
+      const osc = ctx.createOscillator()
+      const gain = ctx.createGain()
+      osc.type = 'sine'
+      osc.frequency.value = frequency
+      gain.gain.setValueAtTime(0.0001, start)
+      gain.gain.exponentialRampToValueAtTime(0.15, start + 0.01)
+      gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.1)
+      osc.connect(gain).connect(ctx.destination)
+      osc.start(start)
+      osc.stop(start + 0.11)
+    })
+  } catch {
+    // Web Audio unavailable — alerts stay silent
+  }
+}
+
+// ── Unread badge ────────────────────────────────────────────────────────────
+
+const TITLE_COUNT = /^\(\d+\+?\)\s*/
+
+let originalFavicon: string | null = null
+let faviconImage: HTMLImageElement | null = null
+let badgeLabel: string | null = null
+
+function getFaviconLink(): HTMLLinkElement {
+  let link = document.querySelector<HTMLLinkElement>('link[rel="icon"]')
+  if (!link) {
+    link = document.createElement('link')
+    link.rel = 'icon'
+    document.head.appendChild(link)
+  }
+  return link
+}
+
+function drawFaviconBadge(link: HTMLLinkElement) {
+  const draw = () => {
+    // The badge may have been cleared while the base icon was loading
+    const label = badgeLabel
+    if (!label) return
+    const size = 64
+    const canvas = document.createElement('canvas')
+    canvas.width = size
+    canvas.height = size
+    const ctx = canvas.getContext('2d')
+    if (!ctx || !faviconImage) return
+    ctx.drawImage(faviconImage, 0, 0, size, size)
+    ctx.beginPath()
+    ctx.arc(size - 18, 18, 18, 0, Math.PI * 2)
+    ctx.fillStyle = '#ef4444'
+    ctx.fill()
+    ctx.fillStyle = '#ffffff'
+    ctx.font = `bold ${label.length > 1 ? 22 : 28}px sans-serif`
+    ctx.textAlign = 'center'
+    ctx.textBaseline = 'middle'
+    ctx.fillText(label, size - 18, 19)
+    link.href = canvas.toDataURL('image/png')
+  }
+
+  if (faviconImage?.complete) {
+    draw()
+    return
+  }
+  faviconImage = new Image()
+  faviconImage.onload = draw
+  faviconImage.src = originalFavicon!
+}
+
+/** Shows `count` in the tab title and as a favicon badge; 0 restores both. */
+export function setUnreadBadge(count: number): void {
+  const baseTitle = document.title.replace(TITLE_COUNT, '')
+  badgeLabel = count > 0 ? (count > 9 ? '9+' : String(count)) : null
+  document.title = count > 0 ? `(${count > 99 ? '99+' : count}) ${baseTitle}` : baseTitle
+
+  const link = getFaviconLink()
+  originalFavicon ??= link.href || '/vite.svg'
+  if (count > 0) drawFaviconBadge(link)
+  else link.href = originalFavicon
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import type { InfiniteData } from '@tanstack/react-query'
+import { ApiError } from '@/lib/api'
+import { isRetryableError, mergePending, replaceOptimistic } from '@/lib/outbox'
+
+interface Item { id: string }
+type Page = { success: boolean; messages: Item[]; hasMore: boolean }
+
+const items = (...ids: string[]): Item[] => ids.map((id) => ({ id }))
+
+function pages(...lists: string[][]): InfiniteData<Page, unknown> {
+  return {
+    pages: lists.map((ids, i) => ({ success: true, messages: items(...ids), hasMore: i < lists.length - 1 })),
+    pageParams: lists.map((_, i) => (i === 0 ? undefined : `cursor-${i}`)),
+  }
+}
+
+const ids = (data: InfiniteData<Page, unknown> | undefined) => data?.pages.map((p) => p.messages.map((m) => m.id))
+
+describe('isRetryableError', () => {
+  it('retries network failures', () => {
+    expect(isRetryableError(new TypeError('Failed to fetch'))).toBe(true)
+  })
+
+  it.each([500, 502, 503, 408, 429])('retries HTTP %i', (status) => {
+    expect(isRetryableError(new ApiError('x', status))).toBe(true)
+  })
+
+  it.each([400, 401, 403, 404, 413, 422])('gives up on HTTP %i', (status) => {
+    expect(isRetryableError(new ApiError('x', status))).toBe(false)
+  })
+})
+
+describe('mergePending', () => {
+  it('returns the same object when nothing is pending or missing', () => {
+    const data = pages(['b', 'a'])
+    expect(mergePending<Item, Page>(data, [], true)).toBe(data)
+    expect(mergePending(data, items('a'), true)).toBe(data)
+  })
+
+  it('puts missing messages at the top of a newest-first list, newest on top', () => {
+    const merged = mergePending(pages(['b', 'a'], ['z']), items('temp-1', 'temp-2'), true)
+    expect(ids(merged)).toEqual([['temp-2', 'temp-1', 'b', 'a'], ['z']])
+  })
+
+  it('appends missing messages to the end of an oldest-first list', () => {
+    const merged = mergePending(pages(['a', 'b']), items('temp-1', 'temp-2'), false)
+    expect(ids(merged)).toEqual([['a', 'b', 'temp-1', 'temp-2']])
+  })
+
+  it('skips pending messages already on any page', () => {
+    const merged = mergePending(pages(['b'], ['temp-1']), items('temp-1', 'temp-2'), true)
+    expect(ids(merged)).toEqual([['temp-2', 'b'], ['temp-1']])
+  })
+
+  it('keeps pageParams untouched', () => {
+    const data = pages(['b'], ['a'])
+    expect(mergePending(data, items('temp-1'), true).pageParams).toBe(data.pageParams)
+  })
+})
+
+describe('replaceOptimistic', () => {
+  it('is a no-op without cached data', () => {
+    expect(replaceOptimistic<Item, Page>(undefined, 'temp-1', { id: 'm1' }, true)).toBeUndefined()
+  })
+
+  it('swaps the optimistic message for the real one', () => {
+    expect(ids(replaceOptimistic(pages(['temp-1', 'b']), 'temp-1', { id: 'm1' }, true))).toEqual([['m1', 'b']])
+    expect(ids(replaceOptimistic(pages(['a', 'temp-1']), 'temp-1', { id: 'm1' }, false))).toEqual([['a', 'm1']])
+  })
+
+  it('does not duplicate a message the socket already delivered', () => {
+    expect(ids(replaceOptimistic(pages(['m1', 'temp-1', 'b']), 'temp-1', { id: 'm1' }, true))).toEqual([['m1', 'b']])
+  })
+
+  it('removes the optimistic message from older pages too', () => {
+    expect(ids(replaceOptimistic(pages(['b'], ['temp-1']), 'temp-1', { id: 'm1' }, true))).toEqual([['m1', 'b'], []])
+  })
+})
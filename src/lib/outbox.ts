@@ -0,0 +1,98 @@
+// Durable outbox for chat sends. Every Message / DirectMessage / InternalMessage
+// send is recorded here under its tempId before it leaves the browser, so a
+// send that can't reach the server survives a reload and is replayed in order
+// once the socket reconnects.
+import type { InfiniteData } from '@tanstack/react-query'
+import { createIdbStore } from '@/lib/idb'
+import { ApiError } from '@/lib/api'
+import type { Message, DirectMessage, InternalMessage } from '@/lib/schemas'
+
+export type OutboxKind = 'message' | 'dm' | 'internal'
+
+/**
+ * sending  — first attempt in flight
+ * queued   — waiting for connectivity
+ * retrying — being replayed
+ * failed   — gave up; the sender has to tap to retry
+ */
+export type OutboxState = 'sending' | 'queued' | 'retrying' | 'failed'
+
+export interface OutboxPayload {
+  type: string
+  content?: string
+  mediaId?: string
+  replyToId?: string
+  announcementId?: string
+  linkPreview?: boolean
+}
+
+export interface OutboxEntry {
+  tempId: string
+  kind: OutboxKind
+  /** Conversation id, DM partner id or 'internal'; undefined for a user's first message before their conversation exists */
+  targetId?: string
+  userId: string
+  payload: OutboxPayload
+  /** The optimistic bubble, restored into the message list after a reload */
+  message: Message | DirectMessage | InternalMessage
+  state: OutboxState
+  attempts: number
+  createdAt: number
+}
+
+export const MAX_OUTBOX_ATTEMPTS = 5
+
+const store = createIdbStore<OutboxEntry>('wighaven-outbox', 'entries', 'tempId')
+
+export const outboxDb = {
+  list: async (userId: string): Promise<OutboxEntry[]> => {
+    const entries = await store.getAll()
+    return entries.filter((e) => e.userId === userId).sort((a, b) => a.createdAt - b.createdAt)
+  },
+  put: (entry: OutboxEntry) => store.put(entry),
+  remove: (tempId: string) => store.delete(tempId),
+  clear: () => store.clear(),
+}
+
+/** Network failures and server-side hiccups are worth replaying; validation or permission errors are not. */
+export function isRetryableError(err: unknown): boolean {
+  // fetch() rejects with a TypeError when the network is down
+  if (!(err instanceof ApiError)) return true
+  return err.status >= 500 || err.status === 408 || err.status === 429
+}
+
+/**
+ * Adds pending outbox messages that are missing from a message list (e.g. after
+ * a reload wiped the optimistic inserts). `newestFirst` matches the page order
+ * of the list: DMs and team chat are newest-first, conversations oldest-first.
+ */
+export function mergePending<T extends { id: string }, P extends { messages: T[] }>(
+  data: InfiniteData<P, unknown>,
+  pending: T[],
+  newestFirst: boolean,
+): InfiniteData<P, unknown> {
+  if (pending.length === 0 || data.pages.length === 0) return data
+  const known = new Set(data.pages.flatMap((p) => p.messages.map((m) => m.id)))
+  const missing = pending.filter((m) => !known.has(m.id))
+  if (missing.length === 0) return data
+
+  const [first, ...rest] = data.pages
+  const messages = newestFirst ? [...[...missing].reverse(), ...first.messages] : [...first.messages, ...missing]
+  return { ...data, pages: [{ ...first, messages }, ...rest] }
+}
+
+/** Swaps an optimistic message for the server's copy in an infinite message list. */
+export function replaceOptimistic<T extends { id: string }, P extends { messages: T[] }>(
+  data: InfiniteData<P, unknown> | undefined,
+  tempId: string,
+  message: T,
+  newestFirst: boolean,
+): InfiniteData<P, unknown> | undefined {
+  if (!data || data.pages.length === 0) return data
+  const pages = data.pages.map((p) => ({ ...p, messages: p.messages.filter((m) => m.id !== tempId) }))
+  if (!pages.some((p) => p.messages.some((m) => m.id === message.id))) {
+    const first = pages[0]
+    pages[0] = { ...first, messages: newestFirst ? [message, ...first.messages] : [...first.messages, message] }
+  }
+  return { ...data, pages }
+}
@@ -0,0 +1,115 @@
+// Installability and Web Push helpers. The service worker itself lives in
+// public/sw.js so it is served from the site root and can control every route.
+import { pushNotifications, type AppConfig } from '@/lib/api'
+
+const DEFAULT_THEME_COLOR = '#008069'
+
+// ── Manifest ────────────────────────────────────────────────────────────────
+
+let manifestUrl: string | null = null
+
+/**
+ * Replaces the static manifest with one built from the admin-configured brand.
+ * Blob manifests resolve relative URLs against the blob, so every URL is absolute.
+ */
+export function applyBrandManifest(brand: AppConfig['brand']): void {
+  const origin = window.location.origin
+  const themeColor = brand.primaryColor || DEFAULT_THEME_COLOR
+  const manifest = {
+    name: brand.siteName,
+    short_name: brand.siteName.length > 12 ? brand.siteName.slice(0, 12) : brand.siteName,
+    description: brand.tagline,
+    start_url: `${origin}/`,
+    scope: `${origin}/`,
+    display: 'standalone',
+    background_color: '#ffffff',
+    theme_color: themeColor,
+    icons: brand.logoUrl
+      ? [{ src: new URL(brand.logoUrl, origin).href, sizes: 'any', purpose: 'any' }]
+      : [{ src: `${origin}/vite.svg`, sizes: 'any', type: 'image/svg+xml', purpose: 'any' }],
+  }
+
+  if (manifestUrl) URL.revokeObjectURL(manifestUrl)
+  manifestUrl = URL.createObjectURL(new Blob([JSON.stringify(manifest)], { type: 'application/manifest+json' }))
+
+  let link = document.querySelector<HTMLLinkElement>('link[rel="manifest"]')
+  if (!link) {
+    link = document.createElement('link')
+    link.rel = 'manifest'
+    document.head.appendChild(link)
+  }
+  link.href = manifestUrl
+
+  let meta = document.querySelector<HTMLMetaElement>('meta[name="theme-color"]')
+  if (!meta) {
+    meta = document.createElement('meta')
+    meta.name = 'theme-color'
+    document.head.appendChild(meta)
+  }
+  meta.content = themeColor
+}
+
+// ── Service worker ──────────────────────────────────────────────────────────
+
+export function registerServiceWorker(): void {
+  // The dev server serves modules uncached and changes constantly — only register in builds
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((err) => {
+      console.error('Service worker registration failed:', err)
+    })
+  })
+}
+
+// ── Web Push ────────────────────────────────────────────────────────────────
+
+export function isPushSupported(): boolean {
+  return 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window
+}
+
+function base64UrlToUint8Array(base64Url: string): Uint8Array<ArrayBuffer> {
+  const padding = '='.repeat((4 - (base64Url.length % 4)) % 4)
+  const raw = atob((base64Url + padding).replace(/-/g, '+').replace(/_/g, '/'))
+  const bytes = new Uint8Array(new ArrayBuffer(raw.length))
+  for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i)
+  return bytes
+}
+
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null
+  const registration = await navigator.serviceWorker.getRegistration()
+  return registration ? registration.pushManager.getSubscription() : null
+}
+
+/** Asks for permission, subscribes this browser and registers the subscription with the server. */
+export async function subscribeToPush(): Promise<void> {
+  if (!isPushSupported()) throw new Error('Push notifications are not supported in this browser')
+
+  const permission = await Notification.requestPermission()
+  if (permission !== 'granted') throw new Error('Notification permission was denied')
+
+  // Not registered in dev builds (see registerServiceWorker)
+  const registration = await navigator.serviceWorker.getRegistration()
+  if (!registration) throw new Error('Push notifications are not available yet — reload the page and try again')
+  const { publicKey } = await pushNotifications.getPublicKey()
+  const subscription = await registration.pushManager.getSubscription()
+    ?? await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: base64UrlToUint8Array(publicKey),
+    })
+
+  try {
+    await pushNotifications.subscribe(subscription.toJSON())
+  } catch (err) {
+    // Don't leave a browser subscription the server doesn't know about
+    await subscription.unsubscribe().catch(() => {})
+    throw err
+  }
+}
+
+export async function unsubscribeFromPush(): Promise<void> {
+  const subscription = await getPushSubscription()
+  if (!subscription) return
+  await pushNotifications.unsubscribe(subscription.endpoint).catch(() => {})
+  await subscription.unsubscribe()
+}
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { QueryClient, type InfiniteData } from '@tanstack/react-query'
+import { clearPersistedQueryCache, persistQueryCache, restoreQueryCache } from '@/lib/queryPersist'
+import { memoryDatabases } from '@/test/memoryIdb'
+
+vi.mock('@/lib/idb', () => import('@/test/memoryIdb'))
+
+type Page = { success: boolean; messages: { id: string }[]; hasMore: boolean }
+
+const snapshots = () => memoryDatabases.get('wighaven-query-cache')!
+
+function messagePages(count: number): InfiniteData<Page, unknown> {
+  return {
+    pages: Array.from({ length: count }, (_, i) => ({
+      success: true,
+      messages: [{ id: `m${i}` }, ...(i === 0 ? [{ id: 'temp-123' }] : [])],
+      hasMore: i < count - 1,
+    })),
+    pageParams: Array.from({ length: count }, (_, i) => (i === 0 ? undefined : `m${i - 1}`)),
+  }
+}
+
+/** Lets the debounced save run and waits for its IndexedDB write */
+async function flushSave() {
+  await vi.advanceTimersByTimeAsync(1000)
+}
+
+describe('query cache persistence', () => {
+  let stop: (() => void) | undefined
+
+  beforeEach(async () => {
+    vi.useFakeTimers()
+    vi.stubGlobal('window', { addEventListener: vi.fn(), removeEventListener: vi.fn() })
+    await clearPersistedQueryCache()
+  })
+
+  afterEach(() => {
+    stop?.()
+    stop = undefined
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  it('restores chat queries for the same user and marks them stale', async () => {
+    const source = new QueryClient()
+    stop = persistQueryCache(source, 'u1')
+    source.setQueryData(['conversations'], { success: true, conversations: [] })
+    await flushSave()
+
+    const target = new QueryClient()
+    expect(await restoreQueryCache(target, 'u1')).toBe(true)
+    expect(target.getQueryData(['conversations'])).toEqual({ success: true, conversations: [] })
+    expect(target.getQueryState(['conversations'])?.isInvalidated).toBe(true)
+  })
+
+  it('only persists the chat and announcement roots', async () => {
+    const source = new QueryClient()
+    stop = persistQueryCache(source, 'u1')
+    source.setQueryData(['announcements', { limit: 20 }], { success: true, announcements: [], hasMore: false })
+    source.setQueryData(['admin', 'admins'], { admins: [] })
+    await flushSave()
+
+    const target = new QueryClient()
+    await restoreQueryCache(target, 'u1')
+    expect(target.getQueryData(['announcements', { limit: 20 }])).toBeDefined()
+    expect(target.getQueryData(['admin', 'admins'])).toBeUndefined()
+  })
+
+  it('keeps only the first pages of infinite lists and drops optimistic messages', async () => {
+    const source = new QueryClient()
+    stop = persistQueryCache(source, 'u1')
+    source.setQueryData(['messages', 'c1'], messagePages(5))
+    await flushSave()
+
+    const target = new QueryClient()
+    await restoreQueryCache(target, 'u1')
+    const restored = target.getQueryData<InfiniteData<Page, unknown>>(['messages', 'c1'])!
+    expect(restored.pages.map((p) => p.messages.map((m) => m.id))).toEqual([['m0'], ['m1'], ['m2']])
+    expect(restored.pageParams).toEqual([undefined, 'm0', 'm1'])
+  })
+
+  it('keeps each user\'s snapshot separate', async () => {
+    const source = new QueryClient()
+    stop = persistQueryCache(source, 'u1')
+    source.setQueryData(['conversations'], { success: true, conversations: [] })
+    await flushSave()
+
+    expect(await restoreQueryCache(new QueryClient(), 'u2')).toBe(false)
+  })
+
+  it('discards snapshots from another cache version or older than a week', async () => {
+    snapshots().set('old-version', { version: 0, savedAt: Date.now(), state: { mutations: [], queries: [] } })
+    snapshots().set('expired', { version: 1, savedAt: Date.now() - 8 * 24 * 60 * 60_000, state: { mutations: [], queries: [] } })
+
+    expect(await restoreQueryCache(new QueryClient(), 'old-version')).toBe(false)
+    expect(await restoreQueryCache(new QueryClient(), 'expired')).toBe(false)
+    expect(snapshots().size).toBe(0)
+  })
+
+  it('clearing wipes snapshots and drops a save scheduled before the wipe', async () => {
+    const source = new QueryClient()
+    stop = persistQueryCache(source, 'u1')
+    source.setQueryData(['conversations'], { success: true, conversations: [] })
+    await flushSave()
+    source.setQueryData(['conversations'], { success: true, conversations: [{ id: 'c1' }] })
+
+    await clearPersistedQueryCache()
+    await flushSave()
+    expect(snapshots().size).toBe(0)
+  })
+})
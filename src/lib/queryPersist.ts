@@ -0,0 +1,128 @@
+// Persists the chat and announcement parts of the React Query cache to
+// IndexedDB so reloads render instantly from the last snapshot. Snapshots are
+// keyed by user id and wiped on logout; restored queries are marked stale so
+// they reconcile with the server as soon as they mount.
+import { dehydrate, hydrate, type DehydratedState, type Query, type QueryClient } from '@tanstack/react-query'
+import { createIdbStore } from '@/lib/idb'
+
+interface CacheSnapshot {
+  version: number
+  savedAt: number
+  state: DehydratedState
+}
+
+// Bump when a persisted response shape changes so old snapshots are discarded
+const CACHE_VERSION = 1
+const MAX_AGE_MS = 7 * 24 * 60 * 60_000
+const SAVE_DELAY_MS = 1000
+// Older pages are cheap to refetch through the `before` cursor when scrolled to
+const MAX_PERSISTED_PAGES = 3
+
+const PERSISTED_ROOTS = new Set([
+  'conversation',
+  'conversations',
+  'messages',
+  'dm',
+  'internal-messages',
+  'announcements',
+  'announcement',
+])
+
+const store = createIdbStore<CacheSnapshot>('wighaven-query-cache', 'snapshots')
+
+// Bumped on every wipe so a save already scheduled for the old session is dropped
+let generation = 0
+
+function isPersisted(query: Query): boolean {
+  return PERSISTED_ROOTS.has(String(query.queryKey[0]))
+}
+
+type InfiniteLike = { pages: unknown[]; pageParams: unknown[] }
+
+function isInfinite(data: unknown): data is InfiniteLike {
+  return !!data && typeof data === 'object' && Array.isArray((data as InfiniteLike).pages) && Array.isArray((data as InfiniteLike).pageParams)
+}
+
+// Optimistic bubbles live in the outbox — persisting them here would resurrect
+// them next to the real message after it is delivered.
+function withoutTempMessages(page: unknown): unknown {
+  if (!page || typeof page !== 'object' || !Array.isArray((page as { messages?: unknown }).messages)) return page
+  const messages = (page as { messages: Array<{ id?: string }> }).messages
+  return { ...page, messages: messages.filter((m) => !m.id?.startsWith('temp-')) }
+}
+
+function trimForStorage(state: DehydratedState): DehydratedState {
+  return {
+    ...state,
+    queries: state.queries.map((q) => {
+      const data = q.state.data
+      if (!isInfinite(data)) return q
+      return {
+        ...q,
+        state: {
+          ...q.state,
+          data: {
+            pages: data.pages.slice(0, MAX_PERSISTED_PAGES).map(withoutTempMessages),
+            pageParams: data.pageParams.slice(0, MAX_PERSISTED_PAGES),
+          },
+        },
+      }
+    }),
+  }
+}
+
+/** Loads the user's last snapshot into the cache. Resolves to false when there was nothing usable. */
+export async function restoreQueryCache(queryClient: QueryClient, userId: string): Promise<boolean> {
+  const snapshot = await store.get(userId).catch(() => undefined)
+  if (!snapshot) return false
+  if (snapshot.version !== CACHE_VERSION || Date.now() - snapshot.savedAt > MAX_AGE_MS) {
+    store.delete(userId).catch(() => {})
+    return false
+  }
+
+  hydrate(queryClient, snapshot.state)
+  // Restored data renders immediately; marking it stale makes every query refetch
+  // on mount (infinite lists walk their loaded pages again via the `before` cursor).
+  queryClient.invalidateQueries({ predicate: isPersisted, refetchType: 'none' })
+  return true
+}
+
+/** Writes the cache to IndexedDB shortly after each change. Returns a function that stops persisting. */
+export function persistQueryCache(queryClient: QueryClient, userId: string): () => void {
+  let timer: ReturnType<typeof setTimeout> | null = null
+  const startedIn = generation
+
+  const save = () => {
+    timer = null
+    if (startedIn !== generation) return
+    const state = dehydrate(queryClient, {
+      shouldDehydrateQuery: (query) => query.state.status === 'success' && isPersisted(query),
+    })
+    store.put({ version: CACHE_VERSION, savedAt: Date.now(), state: trimForStorage(state) }, userId).catch(() => {})
+  }
+
+  const unsubscribe = queryClient.getQueryCache().subscribe((event) => {
+    if (timer || !isPersisted(event.query)) return
+    timer = setTimeout(save, SAVE_DELAY_MS)
+  })
+
+  const onPageHide = () => {
+    if (!timer) return
+    clearTimeout(timer)
+    save()
+  }
+  window.addEventListener('pagehide', onPageHide)
+
+  return () => {
+    unsubscribe()
+    window.removeEventListener('pagehide', onPageHide)
+    if (timer) clearTimeout(timer)
+    timer = null
+  }
+}
+
+/** Drops every persisted snapshot — called on logout and when the session is revoked. */
+export function clearPersistedQueryCache(): Promise<void> {
+  generation++
+  return store.clear().catch(() => {})
+}
@@ -0,0 +1,39 @@
+// Automatic conversation routing: rule metadata and defaults for the settings editor.
+// Matching and assignment run on the server when a conversation opens.
+import type { AppConfig } from '@/lib/api'
+import type { RoutingConfig, RoutingRule, RoutingStrategy } from '@/lib/schemas'
+
+export const ROUTING_STRATEGIES: { value: RoutingStrategy; label: string; description: string }[] = [
+  { value: 'ROUND_ROBIN', label: 'Round-robin', description: 'Rotate through eligible admins in turn' },
+  { value: 'LEAST_LOADED', label: 'Least loaded', description: 'Pick the admin with the fewest open conversations' },
+]
+
+export const DEFAULT_ROUTING: RoutingConfig = {
+  enabled: false,
+  onlyAvailable: true,
+  defaultStrategy: 'ROUND_ROBIN',
+  rules: [],
+}
+
+export const MAX_ROUTING_RULES = 20
+
+export function routingConfig(config?: Pick<AppConfig, 'routing'> | null): RoutingConfig {
+  return { ...DEFAULT_ROUTING, ...config?.routing }
+}
+
+export function createRoutingRule(): RoutingRule {
+  return {
+    id: crypto.randomUUID(),
+    name: 'New rule',
+    enabled: true,
+    subsidiaryId: null,
+    keywords: [],
+    strategy: 'ROUND_ROBIN',
+    adminIds: [],
+  }
+}
+
+/** "refund, Billing ,invoice" → ["refund", "billing", "invoice"] */
+export function parseKeywords(raw: string): string[] {
+  return [...new Set(raw.split(',').map((k) => k.trim().toLowerCase()).filter(Boolean))]
+}
@@ -0,0 +1,41 @@
+// Saved reply templates: placeholder substitution and the slash-command search
+// used by the MessageInput picker.
+import type { SavedReply } from '@/lib/schemas'
+
+export interface SavedReplyVariables {
+  user?: { name: string } | null
+  brand?: { siteName: string } | null
+}
+
+export const SAVED_REPLY_VARIABLES = [
+  { token: '{{user.name}}', description: "Customer's name" },
+  { token: '{{brand.siteName}}', description: 'Site name' },
+] as const
+
+const PLACEHOLDER = /\{\{\s*(user\.name|brand\.siteName)\s*\}\}/g
+
+/** Fills in known placeholders; unknown or unavailable ones are left as typed. */
+export function renderSavedReply(body: string, vars: SavedReplyVariables): string {
+  return body.replace(PLACEHOLDER, (match, key: string) => {
+    const value = key === 'user.name' ? vars.user?.name : vars.brand?.siteName
+    return value ?? match
+  })
+}
+
+/** Replies matching `query`, title-prefix matches first. An empty query lists everything. */
+export function searchSavedReplies(replies: SavedReply[], query: string): SavedReply[] {
+  const q = query.trim().toLowerCase()
+  if (!q) return replies
+  const rank = (reply: SavedReply) => {
+    const title = reply.title.toLowerCase()
+    if (title.startsWith(q)) return 0
+    if (title.includes(q)) return 1
+    if (reply.body.toLowerCase().includes(q)) return 2
+    return -1
+  }
+  return replies
+    .map((reply) => ({ reply, score: rank(reply) }))
+    .filter((r) => r.score >= 0)
+    .sort((a, b) => a.score - b.score)
+    .map((r) => r.reply)
+}
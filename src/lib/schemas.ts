@@ -63,6 +63,22 @@ export interface User {
   emailNotifyOnMessage: boolean
   createdAt: number
   lastSeenAt?: number | null
+  /** Presence snapshot, only included on admin listings */
+  isOnline?: boolean
+  twoFactorEnabled?: boolean
+  /** Set while a self-service deletion is in its grace period */
+  deletionRequestedAt?: number | null
+  deletionScheduledAt?: number | null
+}
+
+export interface Passkey {
+  id: string
+  name: string
+  /** e.g. "singleDevice" or "multiDevice" (synced across the user's devices) */
+  deviceType?: string
+  backedUp?: boolean
+  createdAt: number
+  lastUsedAt?: number | null
 }
 
 export interface Session {
@@ -131,12 +147,43 @@ export interface Message {
     deletedAt?: number | string | null
   } | null
   announcementId?: string | null
+  /** Admin-only note inside a customer conversation — never shown to the customer */
+  isNote?: boolean
+  /** Admin ids @mentioned in a note */
+  mentions?: string[]
   linkedAnnouncement?: {
     id: string
     title: string
     type: AnnouncementType
     template: AnnouncementTemplate
   } | null
+  /** false when the sender dismissed the link preview before sending */
+  linkPreview?: boolean
+}
+
+export interface LinkPreview {
+  url: string
+  title: string | null
+  description: string | null
+  image: string | null
+  siteName: string | null
+}
+
+export type ConversationStatus = 'OPEN' | 'WAITING' | 'RESOLVED' | 'CLOSED'
+export type ConversationPriority = 'LOW' | 'NORMAL' | 'HIGH' | 'URGENT'
+export type TransferStatus = 'PENDING' | 'ACCEPTED' | 'DECLINED'
+
+export interface ConversationTransfer {
+  id: string
+  conversationId: string
+  fromAdmin: { id: string; name: string }
+  toAdmin: { id: string; name: string }
+  /** Handoff summary written by the sender, pinned for the receiver */
+  note: string
+  status: TransferStatus
+  declineReason?: string | null
+  createdAt: number
+  respondedAt?: number | null
 }
 
 export interface Conversation {
@@ -154,6 +201,16 @@ export interface Conversation {
   adminUnreadCount?: number
   lastMessageAt: number | null
   lastMessage?: Message | null
+  /** Missing on conversations created before workflow state existed — treat as OPEN / NORMAL */
+  status?: ConversationStatus
+  priority?: ConversationPriority
+  tags?: string[]
+  /** Start of the customer's current unanswered stretch; null once the team has replied */
+  awaitingReplySince?: number | null
+  /** First admin reply — null until someone has answered */
+  firstResponseAt?: number | null
+  /** Most recent transfer — pending, or the accepted handoff still pinned for the new owner */
+  transfer?: ConversationTransfer | null
   createdAt: number
 }
 
@@ -167,6 +224,7 @@ export interface InternalMessage {
   replyToId?: string | null
   replyTo?: (Omit<InternalMessage, 'replyTo'>) | null
   reactions?: { id?: string; userId: string; emoji: string; user?: { name: string } }[]
+  linkPreview?: boolean
   createdAt: number | string
 }
 
@@ -181,6 +239,7 @@ export interface DirectMessage {
   replyToId?: string | null
   replyTo?: Omit<DirectMessage, 'replyTo'> | null
   reactions?: { id?: string; userId: string; emoji: string; user?: { name: string } }[]
+  linkPreview?: boolean
   deletedAt: number | null
   createdAt: number | string
 }
@@ -209,6 +268,37 @@ export interface StatusHistoryEntry {
 
 export type AnnouncementType = 'INFO' | 'WARNING' | 'IMPORTANT'
 export type AnnouncementTemplate = 'DEFAULT' | 'BANNER' | 'CARD' | 'MINIMAL'
+export type AnnouncementRecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY'
+
+/**
+ * Narrows an announcement's audience beyond `targetRoles`. Every criterion that is set must
+ * match; hand-picked `users` are added to whoever the criteria select, or are the whole
+ * segment when no other criterion is set.
+ */
+export interface AudienceSegmentRules {
+  subsidiaryIds?: string[]
+  registeredAfter?: number | string | null
+  /** true/false to require the permission or its absence; null or unset for either */
+  mediaPermission?: boolean | null
+  /** Names are a snapshot for display; only the ids are matched */
+  users?: Array<{ id: string; name: string }>
+}
+
+export interface AudienceSegment {
+  id: string
+  name: string
+  rules: AudienceSegmentRules
+  createdBy: string
+  createdAt: number | string
+  updatedAt: number | string
+}
+
+/** Re-publishes the announcement on a fixed cadence, anchored on `publishAt` */
+export interface AnnouncementRecurrence {
+  frequency: AnnouncementRecurrenceFrequency
+  /** Last moment an occurrence may go live; null repeats until the announcement is deactivated */
+  endsAt: number | string | null
+}
 
 export interface Announcement {
   id: string
@@ -218,6 +308,8 @@ export interface Announcement {
   template: AnnouncementTemplate
   mediaAttachment?: Media | null
   targetRoles: Role[] | null
+  /** Segment the audience was narrowed to, copied from a saved segment or built ad hoc */
+  segment?: { id: string | null; name: string | null; rules: AudienceSegmentRules } | null
   author?: { id: string; name: string; role: Role }
   upvoteCount: number
   downvoteCount: number
@@ -226,8 +318,69 @@ export interface Announcement {
   createdBy: string
   createdAt: number | string
   expiresAt: number | string | null
+  /** Goes live at this time; null or past means it was published immediately */
+  publishAt?: number | string | null
+  recurrence?: AnnouncementRecurrence | null
   reactions?: Array<{ id: string; emoji: string; userId: string }> | null
   userReaction?: { id: string; emoji: string; userId: string } | null
+  /** Distinct users who have seen it */
+  viewCount?: number
+  /** When the current user first saw it */
+  userViewedAt?: number | string | null
+  /** Targeted users must confirm it ("I understand") before they can keep using the app */
+  requiresAcknowledgement?: boolean
+  userAcknowledgedAt?: number | string | null
+  /** Last time the title, content, type, template or targeting changed after publishing */
+  editedAt?: number | string | null
+  /** Number of stored revisions, including the original */
+  revisionCount?: number
+}
+
+/**
+ * Snapshot of an announcement's editable fields. Version 1 is what was first published; every
+ * edit or restore adds the next version, so the highest one matches the live announcement.
+ */
+export interface AnnouncementRevision {
+  id: string
+  announcementId: string
+  version: number
+  title: string
+  content: string
+  type: AnnouncementType
+  template: AnnouncementTemplate
+  targetRoles: Role[] | null
+  segment?: Announcement['segment']
+  editedBy: { id: string; name: string }
+  /** Set when this version was created by restoring an older one */
+  restoredFrom?: number | null
+  createdAt: number | string
+}
+
+export type AnnouncementViewSource = 'PAGE' | 'BANNER' | 'ACKNOWLEDGEMENT'
+
+export interface AnnouncementAnalytics {
+  /** Users the announcement targets — everyone when `targetRoles` is null */
+  audience: number
+  audienceByRole: Partial<Record<Role, number>>
+  viewers: number
+  viewersByRole: Partial<Record<Role, number>>
+  /** Distinct users per engagement; each one is a subset of viewers */
+  reactors: number
+  commenters: number
+  voters: number
+  /** One entry per day since publish, counting distinct users who first did each that day */
+  daily: Array<{ date: string; views: number; reactions: number; comments: number; votes: number }>
+}
+
+/** A targeted user who hasn't viewed the announcement */
+export type AnnouncementNonReader = Pick<User, 'id' | 'name' | 'email' | 'role' | 'status' | 'lastSeenAt'>
+
+export type AcknowledgementStatus = 'ACKNOWLEDGED' | 'OUTSTANDING'
+
+export interface AnnouncementAcknowledgement {
+  user: Pick<User, 'id' | 'name' | 'email' | 'role'>
+  /** Null while outstanding */
+  acknowledgedAt: number | string | null
 }
 
 export interface AnnouncementReaction {
@@ -245,6 +398,44 @@ export interface AnnouncementComment {
   user: { id: string; name: string; role: Role }
 }
 
+export interface SavedReply {
+  id: string
+  title: string
+  /** May contain `{{user.name}}` / `{{brand.siteName}}` placeholders, filled in when inserted */
+  body: string
+  mediaId: string | null
+  media?: Media | null
+  /** Shared replies are visible to every admin; personal ones only to their owner */
+  shared: boolean
+  ownerId: string
+  owner?: { id: string; name: string }
+  createdAt: number | string
+  updatedAt: number | string
+}
+
+export type RoutingStrategy = 'ROUND_ROBIN' | 'LEAST_LOADED'
+
+export interface RoutingRule {
+  id: string
+  name: string
+  enabled: boolean
+  /** Both conditions must match when set; a rule with neither catches everything */
+  subsidiaryId?: string | null
+  keywords: string[]
+  strategy: RoutingStrategy
+  /** Admins eligible under this rule — empty means every admin */
+  adminIds: string[]
+}
+
+export interface RoutingConfig {
+  enabled: boolean
+  /** Skip admins who are offline when picking an assignee */
+  onlyAvailable: boolean
+  /** Used when no rule matches */
+  defaultStrategy: RoutingStrategy
+  rules: RoutingRule[]
+}
+
 export interface Subsidiary {
   id: string
   name: string
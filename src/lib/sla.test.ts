@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_SLA_TARGETS, awaitingReplySince, firstResponseMs, getSlaState } from '@/lib/sla'
+import type { Conversation, Message } from '@/lib/schemas'
+
+const now = Date.UTC(2026, 5, 1, 12)
+const MINUTE = 60_000
+
+const base: Conversation = {
+  id: 'c1',
+  userId: 'u1',
+  unreadCount: 0,
+  lastMessageAt: null,
+  createdAt: now - 30 * MINUTE,
+}
+
+const customerMessage: Message = {
+  id: 'm1',
+  conversationId: 'c1',
+  senderId: 'u1',
+  sender: { id: 'u1', name: 'Ada', role: 'USER' },
+  type: 'TEXT',
+  content: 'Still waiting on this',
+  media: null,
+  status: 'SENT',
+  readAt: null,
+  deletedAt: null,
+  createdAt: now - 5 * MINUTE,
+}
+
+function conversation(overrides: Partial<Conversation> = {}): Conversation {
+  return { ...base, ...overrides }
+}
+
+describe('SLA timestamps', () => {
+  it('treats Unix seconds and milliseconds the same', () => {
+    const since = now - 10 * MINUTE
+    const inMs = getSlaState(conversation({ awaitingReplySince: since, firstResponseAt: null }), DEFAULT_SLA_TARGETS, now)
+    const inSeconds = getSlaState(conversation({ awaitingReplySince: since / 1000, firstResponseAt: null }), DEFAULT_SLA_TARGETS, now)
+    expect(inSeconds).toEqual(inMs)
+    expect(inSeconds?.level).toBe('ok')
+    expect(inSeconds?.elapsedMs).toBe(10 * MINUTE)
+  })
+
+  it('normalizes the inferred lastMessageAt', () => {
+    const conv = conversation({
+      lastMessageAt: (now - 5 * MINUTE) / 1000,
+      lastMessage: customerMessage,
+    })
+    expect(awaitingReplySince(conv)).toBe(now - 5 * MINUTE)
+  })
+
+  it('measures first response time across mixed units', () => {
+    const conv = conversation({ createdAt: (now - 30 * MINUTE) / 1000, firstResponseAt: now - 20 * MINUTE })
+    expect(firstResponseMs(conv)).toBe(10 * MINUTE)
+  })
+
+  it('stops the clock once nobody is waiting', () => {
+    expect(getSlaState(conversation({ awaitingReplySince: null }), DEFAULT_SLA_TARGETS, now)).toBeNull()
+  })
+})
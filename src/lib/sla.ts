@@ -0,0 +1,105 @@
+// Response-time targets for customer conversations: how long the customer has been
+// waiting, and how close the first / next reply is to breaching the configured SLA.
+import type { AppConfig } from '@/lib/api'
+import type { Conversation } from '@/lib/schemas'
+import { conversationStatus } from '@/lib/conversationWorkflow'
+import { parseTimestamp } from '@/lib/utils'
+
+export type SlaTargets = NonNullable<AppConfig['sla']>
+
+export const DEFAULT_SLA_TARGETS: SlaTargets = {
+  firstResponseMinutes: 60,
+  nextResponseMinutes: 240,
+  warningPercent: 75,
+}
+
+export type SlaLevel = 'ok' | 'warning' | 'breached'
+
+export interface SlaState {
+  /** 'first' until an admin has replied once, then 'next' */
+  kind: 'first' | 'next'
+  waitingSince: number
+  /** How long the customer has been waiting, as of the `now` passed in */
+  elapsedMs: number
+  dueAt: number
+  /** Negative once the target has passed */
+  remainingMs: number
+  level: SlaLevel
+}
+
+export function slaTargets(config?: Pick<AppConfig, 'sla'> | null): SlaTargets {
+  return { ...DEFAULT_SLA_TARGETS, ...config?.sla }
+}
+
+// Timestamps may arrive as Unix seconds or milliseconds; the SLA maths needs milliseconds
+function toMs(value: number | string): number {
+  return parseTimestamp(value).getTime()
+}
+
+/** When the customer started waiting for a reply (in ms), or null if the team spoke last. */
+export function awaitingReplySince(conversation: Conversation): number | null {
+  if (conversation.awaitingReplySince !== undefined) {
+    return conversation.awaitingReplySince ? toMs(conversation.awaitingReplySince) : null
+  }
+  // Older API responses lack the field — infer from the last message (a trailing note hides it)
+  const last = conversation.lastMessage
+  if (!last || last.isNote || last.sender.role !== 'USER') return null
+  return conversation.lastMessageAt ? toMs(conversation.lastMessageAt) : null
+}
+
+/** Milliseconds between the conversation opening and the first admin reply. */
+export function firstResponseMs(conversation: Conversation): number | null {
+  if (!conversation.firstResponseAt) return null
+  return Math.max(0, toMs(conversation.firstResponseAt) - toMs(conversation.createdAt))
+}
+
+/** Null when the clock is stopped: nobody is waiting, or the conversation is parked / done. */
+export function getSlaState(conversation: Conversation, targets: SlaTargets, now: number): SlaState | null {
+  if (conversationStatus(conversation) !== 'OPEN') return null
+  const waitingSince = awaitingReplySince(conversation)
+  if (!waitingSince) return null
+
+  // `firstResponseAt` is only null (not undefined) when the server knows nobody has replied
+  const kind = conversation.firstResponseAt === null ? 'first' : 'next'
+  const targetMs = (kind === 'first' ? targets.firstResponseMinutes : targets.nextResponseMinutes) * 60_000
+  const elapsed = now - waitingSince
+  const remainingMs = targetMs - elapsed
+  const level: SlaLevel = remainingMs <= 0
+    ? 'breached'
+    : elapsed >= targetMs * (targets.warningPercent / 100) ? 'warning' : 'ok'
+
+  return { kind, waitingSince, elapsedMs: elapsed, dueAt: waitingSince + targetMs, remainingMs, level }
+}
+
+export function isAtRisk(state: SlaState | null | undefined): boolean {
+  return state?.level === 'warning' || state?.level === 'breached'
+}
+
+/** Most urgent first; conversations without a running clock keep their order at the end. */
+export function compareSlaRisk(a: SlaState | null | undefined, b: SlaState | null | undefined): number {
+  if (a && b) return a.remainingMs - b.remainingMs
+  if (a) return -1
+  if (b) return 1
+  return 0
+}
+
+export function countSla(states: Iterable<SlaState | null>): { breached: number; atRisk: number } {
+  let breached = 0
+  let atRisk = 0
+  for (const state of states) {
+    if (state?.level === 'breached') breached++
+    else if (state?.level === 'warning') atRisk++
+  }
+  return { breached, atRisk }
+}
+
+/** Compact duration for badges: "<1m", "45m", "2h 5m", "3d 4h". */
+export function formatSlaDuration(ms: number): string {
+  const minutes = Math.floor(Math.abs(ms) / 60_000)
+  if (minutes < 1) return '<1m'
+  if (minutes < 60) return `${minutes}m`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`
+  const days = Math.floor(hours / 24)
+  return hours % 24 ? `${days}d ${hours % 24}h` : `${days}d`
+}
@@ -1,5 +1,5 @@
 import { io, type Socket } from 'socket.io-client'
-import type { Message, Role, Status, Announcement, Conversation, MessageReaction, InternalMessage } from '@/lib/schemas'
+import type { Message, Role, Status, Announcement, Conversation, MessageReaction, InternalMessage, ConversationStatus, ConversationPriority, ConversationTransfer } from '@/lib/schemas'
 
 interface ServerToClientEvents {
   authenticated: (data: { userId: string; role: Role; status: Status }) => void
@@ -11,12 +11,17 @@ interface ServerToClientEvents {
   'messages:read': (data: { conversationId: string; messageIds: string[]; readBy: string; readAt: number }) => void
   'message:reaction': (data: { messageId: string; reaction: MessageReaction | { userId: string; emoji: string }; action: 'add' | 'remove' }) => void
 
-  'conversation:updated': (data: { conversationId: string; userId?: string; unreadCount?: number; adminUnreadCount?: number; lastMessageAt?: number; lastMessage?: Message; assignedAdminId?: string | null }) => void
+  'conversation:updated': (data: { conversationId: string; userId?: string; unreadCount?: number; adminUnreadCount?: number; lastMessageAt?: number; lastMessage?: Message; assignedAdminId?: string | null; status?: ConversationStatus; priority?: ConversationPriority; tags?: string[]; awaitingReplySince?: number | null; firstResponseAt?: number | null }) => void
   'conversation:assigned': (data: { conversationId: string; assignedAdminId: string | null; oldAdminId?: string | null }) => void
   'conversation:removed': (data: { conversationId: string; userName: string }) => void
-  'conversation:assigned_to_you': (data: { conversationId: string; userName: string }) => void
-
-  'internal:message': (data: { message: InternalMessage }) => void
+  /** `auto` is set when a routing rule picked the assignee rather than a super admin */
+  'conversation:assigned_to_you': (data: { conversationId: string; userName: string; auto?: boolean; ruleName?: string | null; assignedAt?: number | string }) => void
+  /** Sent to the receiving admin */
+  'conversation:transfer_requested': (data: { transfer: ConversationTransfer; userName: string }) => void
+  /** Sent to both admins once the receiver accepts or declines */
+  'conversation:transfer_resolved': (data: { transfer: ConversationTransfer; userName: string }) => void
+
+  'internal:message': (data: { message: InternalMessage; tempId?: string }) => void
   'internal:message:sent': (data: { tempId?: string; message: InternalMessage }) => void
   'internal:message:deleted': (data: { id: string }) => void
   'internal:chat:cleared': (data: { scope: string }) => void
@@ -38,7 +43,7 @@ interface ServerToClientEvents {
   'admin:user_registered': (data: { user: { id: string; email: string; name: string; status: Status; createdAt: number } }) => void
 
   'preferences:updated': (data: { emailNotifyOnMessage: boolean }) => void
-  'announcement:new': (data: { announcement: Announcement }) => void
+  'announcement:new': (data: { announcement: Announcement; occurrenceAt?: number | string }) => void
   'announcement:updated': (data: { announcement: Announcement | null }) => void
   'cache:invalidate': (data: { keys: string[] }) => void
   'dm:message': (data: { message: import('@/lib/schemas').DirectMessage; tempId?: string }) => void
@@ -49,8 +54,8 @@ interface ServerToClientEvents {
 
 interface ClientToServerEvents {
   authenticate: (data: { token: string }) => void
-  'message:send': (data: { conversationId: string; type: string; content?: string; mediaId?: string; tempId?: string; replyToId?: string; announcementId?: string }) => void
-  'internal:message:send': (data: { type?: string; content?: string; mediaId?: string; tempId?: string }) => void
+  'message:send': (data: { conversationId: string; type: string; content?: string; mediaId?: string; tempId?: string; replyToId?: string; announcementId?: string; linkPreview?: boolean }) => void
+  'internal:message:send': (data: { type?: string; content?: string; mediaId?: string; tempId?: string; replyToId?: string; linkPreview?: boolean }) => void
   'internal:typing': (data: { isTyping: boolean }) => void
   'messages:mark_read': (data: { conversationId: string }) => void
   'message:react': (data: { messageId: string; emoji: string }) => void
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import { diffLines, diffSequence, diffWords, type DiffPart, type DiffRow } from '@/lib/textDiff'
+
+const side = (parts: DiffPart[], skip: DiffPart['op']) => parts.filter((p) => p.op !== skip).map((p) => p.value)
+const leftLines = (rows: DiffRow[]) => rows.flatMap((r) => (r.left ? [r.left.value] : []))
+const rightLines = (rows: DiffRow[]) => rows.flatMap((r) => (r.right ? [r.right.value] : []))
+
+const pairs: [string, string][] = [
+  ['Scheduled maintenance tonight', 'Scheduled  maintenance on Friday night'],
+  ['', 'New announcement'],
+  ['Old title', ''],
+  ['a b c d', 'd c b a'],
+  ['one\ntwo\nthree\nfour', 'one\n2\nthree\nfour\nfive'],
+  ['## Heading\n\n- item 1\n- item 2\n', '## Heading\n- item 2\n- item 3\n\nFooter'],
+  ['same\nsame', 'same\nsame'],
+]
+
+describe('diffWords', () => {
+  it.each(pairs)('keeps both sides intact: %j → %j', (before, after) => {
+    const parts = diffWords(before, after)
+    expect(side(parts, 'added').join('')).toBe(before)
+    expect(side(parts, 'removed').join('')).toBe(after)
+  })
+
+  it('marks only the changed words', () => {
+    expect(diffWords('the quick fox', 'the slow fox')).toEqual([
+      { op: 'equal', value: 'the' },
+      { op: 'equal', value: ' ' },
+      { op: 'removed', value: 'quick' },
+      { op: 'added', value: 'slow' },
+      { op: 'equal', value: ' ' },
+      { op: 'equal', value: 'fox' },
+    ])
+  })
+})
+
+describe('diffLines', () => {
+  it.each(pairs)('keeps each column in order: %j → %j', (before, after) => {
+    const rows = diffLines(before, after)
+    expect(leftLines(rows)).toEqual(before.split('\n'))
+    expect(rightLines(rows)).toEqual(after.split('\n'))
+  })
+
+  it('never pairs a change with an equal line or leaves a row empty', () => {
+    for (const [before, after] of pairs) {
+      for (const { left, right } of diffLines(before, after)) {
+        expect(left ?? right).not.toBeNull()
+        if (left?.op === 'equal' || right?.op === 'equal') expect(left).toBe(right)
+        else {
+          expect(left?.op ?? 'removed').toBe('removed')
+          expect(right?.op ?? 'added').toBe('added')
+        }
+      }
+    }
+  })
+
+  it('pairs a removed run with the added run after it, padding the shorter side', () => {
+    expect(diffLines('a\nb\nc\nz', 'a\nx\nz')).toEqual([
+      { left: { op: 'equal', value: 'a' }, right: { op: 'equal', value: 'a' } },
+      { left: { op: 'removed', value: 'b' }, right: { op: 'added', value: 'x' } },
+      { left: { op: 'removed', value: 'c' }, right: null },
+      { left: { op: 'equal', value: 'z' }, right: { op: 'equal', value: 'z' } },
+    ])
+  })
+})
+
+describe('diffSequence', () => {
+  it('falls back to remove-all, add-all when the inputs are too large to compare', () => {
+    const a = Array.from({ length: 600 }, (_, i) => `line ${i}`)
+    const b = [...a.slice(1), 'new line']
+    const parts = diffSequence(a, b)
+    expect(parts.map((p) => p.op)).toEqual([...a.map(() => 'removed'), ...b.map(() => 'added')])
+    expect(side(parts, 'added')).toEqual(a)
+    expect(side(parts, 'removed')).toEqual(b)
+  })
+})
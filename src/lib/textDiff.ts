@@ -0,0 +1,91 @@
+// Minimal diffing for announcement revisions: word-level for short fields like the title,
+// line-level (paired into side-by-side rows) for the markdown content.
+
+export type DiffOp = 'equal' | 'added' | 'removed'
+
+export interface DiffPart {
+  op: DiffOp
+  value: string
+}
+
+export interface DiffRow {
+  left: DiffPart | null
+  right: DiffPart | null
+}
+
+// Above this many cells the LCS table gets too slow to build on every render; treat it as a rewrite
+const MAX_CELLS = 250_000
+
+/** Longest-common-subsequence diff of two token lists, in document order. */
+export function diffSequence(a: string[], b: string[]): DiffPart[] {
+  if (a.length * b.length > MAX_CELLS) {
+    return [
+      ...a.map((value) => ({ op: 'removed' as const, value })),
+      ...b.map((value) => ({ op: 'added' as const, value })),
+    ]
+  }
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const parts: DiffPart[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      parts.push({ op: 'equal', value: a[i] })
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      parts.push({ op: 'removed', value: a[i++] })
+    } else {
+      parts.push({ op: 'added', value: b[j++] })
+    }
+  }
+  while (i < a.length) parts.push({ op: 'removed', value: a[i++] })
+  while (j < b.length) parts.push({ op: 'added', value: b[j++] })
+  return parts
+}
+
+/** Word diff that keeps whitespace, so joining the parts of one side reproduces that text. */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const tokenize = (s: string) => s.split(/(\s+)/).filter(Boolean)
+  return diffSequence(tokenize(before), tokenize(after))
+}
+
+/**
+ * Line diff laid out for two columns. Equal lines sit side by side; a run of removed lines is
+ * paired with the run of added lines that follows it, padding the shorter side with blanks.
+ */
+export function diffLines(before: string, after: string): DiffRow[] {
+  const parts = diffSequence(before.split('\n'), after.split('\n'))
+  const rows: DiffRow[] = []
+  let removed: DiffPart[] = []
+  let added: DiffPart[] = []
+
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k] ?? null, right: added[k] ?? null })
+    }
+    removed = []
+    added = []
+  }
+
+  for (const part of parts) {
+    if (part.op === 'equal') {
+      flush()
+      rows.push({ left: part, right: part })
+    } else if (part.op === 'removed') {
+      removed.push(part)
+    } else {
+      added.push(part)
+    }
+  }
+  flush()
+  return rows
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { csvCell, transcriptToCsv, type Transcript } from '@/lib/transcript'
+import type { Message } from '@/lib/schemas'
+
+describe('csvCell', () => {
+  it('leaves plain values alone', () => {
+    expect(csvCell('Hello there')).toBe('Hello there')
+    expect(csvCell('')).toBe('')
+  })
+
+  it('quotes values with commas, quotes or line breaks', () => {
+    expect(csvCell('a, b')).toBe('"a, b"')
+    expect(csvCell('say "hi"')).toBe('"say ""hi"""')
+    expect(csvCell('line 1\nline 2')).toBe('"line 1\nline 2"')
+  })
+
+  it.each([
+    ['=1+1', "'=1+1"],
+    ['+1 555 0100', "'+1 555 0100"],
+    ['-2+3', "'-2+3"],
+    ['@SUM(A1:A2)', "'@SUM(A1:A2)"],
+    ['\t=cmd', "'\t=cmd"],
+  ])('neutralizes formula-like %j', (value, expected) => {
+    expect(csvCell(value)).toBe(expected)
+  })
+
+  it('neutralizes before quoting', () => {
+    expect(csvCell('=HYPERLINK("http://evil.example","click")')).toBe(`"'=HYPERLINK(""http://evil.example"",""click"")"`)
+    expect(csvCell('\r=1+1')).toBe(`"'\r=1+1"`)
+  })
+
+  it('only looks at the first character', () => {
+    expect(csvCell('1+1=2')).toBe('1+1=2')
+    expect(csvCell('email me @ home')).toBe('email me @ home')
+  })
+})
+
+describe('transcriptToCsv', () => {
+  const message: Message = {
+    id: 'm1',
+    conversationId: 'c1',
+    senderId: 'u1',
+    sender: { id: 'u1', name: '=cmd|\' /C calc\'!A0', role: 'USER' },
+    type: 'TEXT',
+    content: '=HYPERLINK("http://evil.example","Refund")',
+    status: 'SENT',
+    readAt: null,
+    deletedAt: null,
+    createdAt: Date.UTC(2026, 2, 1, 12),
+    media: null,
+  }
+  const transcript: Transcript = {
+    brand: { siteName: 'Support', tagline: '', company: 'Acme', supportEmail: 'help@acme.test' },
+    conversationId: 'c1',
+    customer: { name: 'Customer' },
+    exportedBy: 'Admin',
+    exportedAt: Date.UTC(2026, 2, 2),
+    messages: [message],
+  }
+
+  it('never emits a cell that starts a formula', () => {
+    const [, row] = transcriptToCsv(transcript).split('\r\n')
+    expect(row).toContain(`,'=cmd|' /C calc'!A0,`)
+    expect(row).toContain(`,"'=HYPERLINK(""http://evil.example"",""Refund"")",`)
+  })
+})
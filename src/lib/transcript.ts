@@ -0,0 +1,250 @@
+// Conversation transcripts for compliance / escalation: the full thread, paged in from the
+// API, rendered as standalone HTML (also printed to PDF), JSON or CSV.
+import { format } from 'date-fns'
+import { conversations as convApi, type AppConfig } from '@/lib/api'
+import { parseTimestamp } from '@/lib/utils'
+import type { Message } from '@/lib/schemas'
+
+export type TranscriptFormat = 'pdf' | 'html' | 'json' | 'csv'
+
+export const TRANSCRIPT_FORMATS: { value: TranscriptFormat; label: string }[] = [
+  { value: 'pdf', label: 'PDF (print)' },
+  { value: 'html', label: 'HTML' },
+  { value: 'json', label: 'JSON' },
+  { value: 'csv', label: 'CSV' },
+]
+
+export interface Transcript {
+  brand: AppConfig['brand']
+  conversationId: string
+  customer: { name: string; email?: string }
+  exportedBy: string
+  exportedAt: number
+  messages: Message[]
+}
+
+const PAGE_SIZE = 100
+
+/** Every message in the conversation, oldest first. */
+export async function fetchTranscriptMessages(conversationId: string, onProgress?: (loaded: number) => void): Promise<Message[]> {
+  const pages: Message[][] = []
+  let before: string | undefined
+  let loaded = 0
+  for (;;) {
+    const res = await convApi.messages(conversationId, { before, limit: PAGE_SIZE })
+    if (res.messages.length === 0) break
+    pages.unshift(res.messages)
+    loaded += res.messages.length
+    onProgress?.(loaded)
+    if (!res.hasMore) break
+    // Pages come back oldest-first; the next page ends before this one's first message
+    before = res.messages[0].id
+  }
+  return pages.flat()
+}
+
+// ─── Shared field formatting ─────────────────────────────────────────────────
+
+function timestamp(value: unknown) {
+  return format(parseTimestamp(value), 'yyyy-MM-dd HH:mm:ss')
+}
+
+function reactionSummary(message: Message) {
+  const byEmoji = new Map<string, string[]>()
+  for (const r of message.reactions ?? []) {
+    byEmoji.set(r.emoji, [...(byEmoji.get(r.emoji) ?? []), r.user?.name ?? r.userId])
+  }
+  return [...byEmoji.entries()].map(([emoji, names]) => `${emoji} ${names.join(', ')}`).join('; ')
+}
+
+function replySummary(message: Message) {
+  const reply = message.replyTo
+  if (!reply) return ''
+  if (reply.deletedAt) return `${reply.sender.name}: [deleted]`
+  return `${reply.sender.name}: ${reply.content ?? `[${reply.type.toLowerCase()}]`}`
+}
+
+export function transcriptFilename(transcript: Transcript, ext: string) {
+  const slug = transcript.customer.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'conversation'
+  return `transcript-${slug}-${format(transcript.exportedAt, 'yyyy-MM-dd')}.${ext}`
+}
+
+// ─── JSON / CSV ──────────────────────────────────────────────────────────────
+
+export function transcriptToJson(transcript: Transcript): string {
+  return JSON.stringify({
+    brand: { siteName: transcript.brand.siteName, company: transcript.brand.company },
+    conversationId: transcript.conversationId,
+    customer: transcript.customer,
+    exportedBy: transcript.exportedBy,
+    exportedAt: new Date(transcript.exportedAt).toISOString(),
+    messages: transcript.messages.map((m) => ({
+      id: m.id,
+      createdAt: parseTimestamp(m.createdAt).toISOString(),
+      sender: m.sender,
+      type: m.type,
+      content: m.deletedAt ? null : m.content,
+      internalNote: !!m.isNote,
+      deleted: !!m.deletedAt,
+      deletedAt: m.deletedAt ? parseTimestamp(m.deletedAt).toISOString() : null,
+      readAt: m.readAt ? parseTimestamp(m.readAt).toISOString() : null,
+      attachment: m.media && !m.deletedAt ? { url: m.media.cdnUrl, filename: m.media.filename, mimeType: m.media.mimeType, size: m.media.size } : null,
+      replyTo: m.replyTo ? { id: m.replyTo.id, sender: m.replyTo.sender.name, content: m.replyTo.deletedAt ? null : m.replyTo.content } : null,
+      reactions: (m.reactions ?? []).map((r) => ({ emoji: r.emoji, user: r.user?.name ?? r.userId })),
+    })),
+  }, null, 2)
+}
+
+/**
+ * One CSV field. Text starting with =, +, -, @, tab or CR is run as a formula by Excel and Sheets,
+ * and senders control names and message text, so those cells get a leading apostrophe first.
+ */
+export function csvCell(value: string) {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+const CSV_COLUMNS = ['timestamp', 'sender', 'role', 'type', 'content', 'attachment_url', 'attachment_name', 'reply_to', 'reactions', 'internal_note', 'deleted', 'read_at']
+
+export function transcriptToCsv(transcript: Transcript): string {
+  const rows = transcript.messages.map((m) => [
+    timestamp(m.createdAt),
+    m.sender.name,
+    m.sender.role,
+    m.type,
+    m.deletedAt ? '' : m.content ?? '',
+    m.media && !m.deletedAt ? m.media.cdnUrl : '',
+    m.media && !m.deletedAt ? m.media.filename : '',
+    replySummary(m),
+    reactionSummary(m),
+    m.isNote ? 'yes' : '',
+    m.deletedAt ? timestamp(m.deletedAt) : '',
+    m.readAt ? timestamp(m.readAt) : '',
+  ])
+  // BOM so spreadsheet apps pick up UTF-8 (emoji reactions, names)
+  return '\uFEFF' + [CSV_COLUMNS, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n')
+}
+
+// ─── HTML / PDF ──────────────────────────────────────────────────────────────
+
+export function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function messageHtml(m: Message) {
+  const classes = ['msg', m.sender.role === 'USER' ? 'customer' : 'team', m.isNote ? 'note' : ''].filter(Boolean).join(' ')
+  const meta = [
+    `<strong>${escapeHtml(m.sender.name)}</strong>`,
+    m.sender.role === 'USER' ? '' : '<span class="tag">Team</span>',
+    m.isNote ? '<span class="tag note-tag">Internal note</span>' : '',
+    `<time>${timestamp(m.createdAt)}</time>`,
+  ].join(' ')
+
+  if (m.deletedAt) {
+    return `<div class="${classes} deleted"><div class="meta">${meta}</div><p class="muted">Message deleted · ${timestamp(m.deletedAt)}</p></div>`
+  }
+
+  const reply = m.replyTo ? `<blockquote>${escapeHtml(replySummary(m))}</blockquote>` : ''
+  const content = m.content ? `<p class="content">${escapeHtml(m.content)}</p>` : ''
+  const attachment = m.media
+    ? `<p class="attachment">📎 <a href="${escapeHtml(m.media.cdnUrl)}">${escapeHtml(m.media.filename)}</a> <span class="muted">(${escapeHtml(m.media.mimeType)})</span></p>`
+    : ''
+  const reactions = m.reactions?.length ? `<p class="muted">Reactions: ${escapeHtml(reactionSummary(m))}</p>` : ''
+  const read = m.readAt ? `<p class="muted">Read ${timestamp(m.readAt)}</p>` : ''
+
+  return `<div class="${classes}"><div class="meta">${meta}</div>${reply}${content}${attachment}${reactions}${read}</div>`
+}
+
+export function transcriptToHtml(transcript: Transcript): string {
+  const { brand } = transcript
+  // Interpolated into CSS, so only a plain hex colour is accepted
+  const accent = brand.primaryColor && /^#[0-9a-f]{3,8}$/i.test(brand.primaryColor) ? brand.primaryColor : '#16a34a'
+  const title = `${brand.siteName} — Transcript with ${transcript.customer.name}`
+  const logo = brand.logoUrl ? `<img src="${escapeHtml(brand.logoUrl)}" alt="" class="logo">` : ''
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font: 14px/1.5 system-ui, -apple-system, "Segoe UI", sans-serif; color: #111; max-width: 820px; margin: 0 auto; padding: 32px 24px; }
+  header { display: flex; align-items: center; gap: 14px; border-bottom: 3px solid ${accent}; padding-bottom: 16px; margin-bottom: 20px; }
+  .logo { height: 40px; width: auto; }
+  h1 { font-size: 20px; margin: 0; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 2px 16px; font-size: 12px; margin: 0 0 24px; }
+  dt { color: #666; }
+  dd { margin: 0; }
+  .msg { border: 1px solid #e5e5e5; border-radius: 10px; padding: 10px 12px; margin: 0 0 10px; break-inside: avoid; }
+  .msg.team { border-left: 3px solid ${accent}; }
+  .msg.note { background: #fffbeb; border-color: #fcd34d; }
+  .msg.deleted { border-style: dashed; }
+  .meta { font-size: 12px; margin-bottom: 4px; }
+  .meta time { color: #666; margin-left: 6px; }
+  .tag { font-size: 10px; text-transform: uppercase; letter-spacing: .04em; background: #f1f1f1; border-radius: 4px; padding: 1px 5px; }
+  .note-tag { background: #fde68a; }
+  .content { white-space: pre-wrap; word-break: break-word; margin: 0; }
+  blockquote { margin: 0 0 6px; padding: 4px 8px; border-left: 2px solid #ccc; color: #555; font-size: 12px; }
+  .muted { color: #777; font-size: 11px; margin: 4px 0 0; }
+  .attachment { margin: 6px 0 0; font-size: 13px; }
+  a { color: ${accent}; }
+  footer { margin-top: 28px; font-size: 11px; color: #888; text-align: center; }
+  @media print { body { padding: 0; } a { color: inherit; } }
+</style>
+</head>
+<body>
+<header>${logo}<div><h1>${escapeHtml(brand.siteName)}</h1><div class="muted">${escapeHtml(brand.company)} · ${escapeHtml(brand.supportEmail)}</div></div></header>
+<dl>
+  <dt>Customer</dt><dd>${escapeHtml(transcript.customer.name)}${transcript.customer.email ? ` &lt;${escapeHtml(transcript.customer.email)}&gt;` : ''}</dd>
+  <dt>Conversation</dt><dd>${escapeHtml(transcript.conversationId)}</dd>
+  <dt>Messages</dt><dd>${transcript.messages.length}</dd>
+  <dt>Exported</dt><dd>${timestamp(transcript.exportedAt)} by ${escapeHtml(transcript.exportedBy)}</dd>
+</dl>
+<main>
+${transcript.messages.map(messageHtml).join('\n')}
+</main>
+<footer>Generated by ${escapeHtml(brand.siteName)} · Confidential</footer>
+</body>
+</html>`
+}
+
+// ─── Delivery ────────────────────────────────────────────────────────────────
+
+export function downloadFile(filename: string, content: string | Blob, mimeType = 'application/octet-stream') {
+  const url = URL.createObjectURL(content instanceof Blob ? content : new Blob([content], { type: mimeType }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+/** Opens the browser print dialog for the HTML — "Save as PDF" produces the PDF without a PDF library. */
+export function printHtml(html: string) {
+  const frame = document.createElement('iframe')
+  frame.style.cssText = 'position:fixed;right:0;bottom:0;width:0;height:0;border:0'
+  frame.onload = () => {
+    const win = frame.contentWindow
+    if (!win) { frame.remove(); return }
+    win.addEventListener('afterprint', () => frame.remove())
+    win.focus()
+    win.print()
+  }
+  frame.srcdoc = html
+  document.body.appendChild(frame)
+}
+
+export function deliverTranscript(transcript: Transcript, type: TranscriptFormat) {
+  switch (type) {
+    case 'pdf': return printHtml(transcriptToHtml(transcript))
+    case 'html': return downloadFile(transcriptFilename(transcript, 'html'), transcriptToHtml(transcript), 'text/html;charset=utf-8')
+    case 'json': return downloadFile(transcriptFilename(transcript, 'json'), transcriptToJson(transcript), 'application/json')
+    case 'csv': return downloadFile(transcriptFilename(transcript, 'csv'), transcriptToCsv(transcript), 'text/csv;charset=utf-8')
+  }
+}
@@ -0,0 +1,125 @@
+// Passkey ceremonies. The API speaks the WebAuthn JSON encoding (binary fields as base64url);
+// navigator.credentials wants ArrayBuffers, so options and responses are converted here rather
+// than relying on PublicKeyCredential.parse*FromJSON, which not every browser ships yet.
+
+export interface RegistrationResponseJSON {
+  id: string
+  rawId: string
+  type: string
+  response: {
+    clientDataJSON: string
+    attestationObject: string
+    transports: string[]
+  }
+  authenticatorAttachment: string | null
+  clientExtensionResults: AuthenticationExtensionsClientOutputs
+}
+
+export interface AuthenticationResponseJSON {
+  id: string
+  rawId: string
+  type: string
+  response: {
+    clientDataJSON: string
+    authenticatorData: string
+    signature: string
+    userHandle: string | null
+  }
+  authenticatorAttachment: string | null
+  clientExtensionResults: AuthenticationExtensionsClientOutputs
+}
+
+export function isPasskeySupported() {
+  return typeof window !== 'undefined' && !!window.PublicKeyCredential && !!navigator.credentials
+}
+
+// ─── base64url ───────────────────────────────────────────────────────────────
+
+function fromBase64url(value: string): ArrayBuffer {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=')
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes.buffer
+}
+
+function toBase64url(buffer: ArrayBuffer): string {
+  let binary = ''
+  for (const byte of new Uint8Array(buffer)) binary += String.fromCharCode(byte)
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function descriptor(d: PublicKeyCredentialDescriptorJSON): PublicKeyCredentialDescriptor {
+  return {
+    id: fromBase64url(d.id),
+    type: d.type as PublicKeyCredentialType,
+    transports: d.transports as AuthenticatorTransport[] | undefined,
+  }
+}
+
+// ─── Ceremonies ──────────────────────────────────────────────────────────────
+
+/** Registration: prompts the authenticator to create a passkey for the signed-in account. */
+export async function createPasskey(options: PublicKeyCredentialCreationOptionsJSON): Promise<RegistrationResponseJSON> {
+  const credential = await navigator.credentials.create({
+    publicKey: {
+      rp: options.rp,
+      user: { ...options.user, id: fromBase64url(options.user.id) },
+      challenge: fromBase64url(options.challenge),
+      pubKeyCredParams: options.pubKeyCredParams,
+      timeout: options.timeout,
+      excludeCredentials: options.excludeCredentials?.map(descriptor),
+      authenticatorSelection: options.authenticatorSelection,
+      attestation: options.attestation as AttestationConveyancePreference | undefined,
+    },
+  }) as PublicKeyCredential | null
+  if (!credential) throw new Error('No passkey was created')
+
+  const response = credential.response as AuthenticatorAttestationResponse
+  return {
+    id: credential.id,
+    rawId: toBase64url(credential.rawId),
+    type: credential.type,
+    response: {
+      clientDataJSON: toBase64url(response.clientDataJSON),
+      attestationObject: toBase64url(response.attestationObject),
+      transports: response.getTransports?.() ?? [],
+    },
+    authenticatorAttachment: credential.authenticatorAttachment,
+    clientExtensionResults: credential.getClientExtensionResults(),
+  }
+}
+
+/** Assertion: asks the browser for any passkey the relying party accepts (discoverable when allowCredentials is empty). */
+export async function getPasskeyAssertion(options: PublicKeyCredentialRequestOptionsJSON): Promise<AuthenticationResponseJSON> {
+  const credential = await navigator.credentials.get({
+    publicKey: {
+      challenge: fromBase64url(options.challenge),
+      rpId: options.rpId,
+      timeout: options.timeout,
+      allowCredentials: options.allowCredentials?.map(descriptor),
+      userVerification: options.userVerification as UserVerificationRequirement | undefined,
+    },
+  }) as PublicKeyCredential | null
+  if (!credential) throw new Error('No passkey was selected')
+
+  const response = credential.response as AuthenticatorAssertionResponse
+  return {
+    id: credential.id,
+    rawId: toBase64url(credential.rawId),
+    type: credential.type,
+    response: {
+      clientDataJSON: toBase64url(response.clientDataJSON),
+      authenticatorData: toBase64url(response.authenticatorData),
+      signature: toBase64url(response.signature),
+      userHandle: response.userHandle ? toBase64url(response.userHandle) : null,
+    },
+    authenticatorAttachment: credential.authenticatorAttachment,
+    clientExtensionResults: credential.getClientExtensionResults(),
+  }
+}
+
+/** The browser rejects with NotAllowedError when the prompt is dismissed or times out. */
+export function isPasskeyCancelled(err: unknown) {
+  return err instanceof DOMException && (err.name === 'NotAllowedError' || err.name === 'AbortError')
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { createZip } from '@/lib/zip'
+import { readZip } from '@/test/readZip'
+
+const text = (data: Uint8Array) => new TextDecoder().decode(data)
+
+describe('createZip', () => {
+  it('writes the standard CRC-32 check value', async () => {
+    const zip = await readZip(createZip([{ name: 'check.txt', data: '123456789' }]))
+    expect(zip.entries[0].crc).toBe(0xcbf43926)
+  })
+
+  it('writes the CRC-32 of an empty file as zero', async () => {
+    const zip = await readZip(createZip([{ name: 'empty.txt', data: '' }]))
+    expect(zip.entries[0].crc).toBe(0)
+    expect(zip.entries[0].size).toBe(0)
+  })
+
+  it('records the entry count and central directory position in the end record', async () => {
+    const blob = createZip([
+      { name: 'a.txt', data: 'alpha' },
+      { name: 'dir/b.json', data: '{"b":1}' },
+      { name: 'c.bin', data: new Uint8Array([0, 1, 2, 255]) },
+    ])
+    const zip = await readZip(blob)
+    expect(zip.entryCount).toBe(3)
+    // Local header (30 bytes) + name + data per entry, then the central directory
+    expect(zip.entries.map((e) => e.offset)).toEqual([0, 30 + 5 + 5, 30 + 5 + 5 + 30 + 10 + 7])
+    expect(zip.centralOffset).toBe(30 + 5 + 5 + 30 + 10 + 7 + 30 + 5 + 4)
+    // Central header (46 bytes) + name per entry
+    expect(zip.centralSize).toBe(46 * 3 + 5 + 10 + 5)
+    expect(blob.size).toBe(zip.centralOffset + zip.centralSize + 22)
+  })
+
+  it('stores contents uncompressed and byte-for-byte', async () => {
+    const zip = await readZip(createZip([
+      { name: 'a.txt', data: 'héllo 👋' },
+      { name: 'c.bin', data: new Uint8Array([0, 1, 2, 255]) },
+    ]))
+    expect(zip.entries.map((e) => e.method)).toEqual([0, 0])
+    expect(text(zip.entries[0].data)).toBe('héllo 👋')
+    expect([...zip.entries[1].data]).toEqual([0, 1, 2, 255])
+  })
+
+  it('round-trips UTF-8 names and flags them as UTF-8', async () => {
+    const names = ['résumé.txt', 'данные/профиль.json', '聊天记录.html', 'emoji-🎉.txt']
+    const zip = await readZip(createZip(names.map((name) => ({ name, data: name }))))
+    expect(zip.entries.map((e) => e.name)).toEqual(names)
+    expect(zip.entries.every((e) => (e.flags & 0x0800) !== 0)).toBe(true)
+    expect(zip.entries.map((e) => text(e.data))).toEqual(names)
+  })
+
+  it('writes an empty archive as just the end record', async () => {
+    const blob = createZip([])
+    const zip = await readZip(blob)
+    expect(zip.entryCount).toBe(0)
+    expect(blob.size).toBe(22)
+  })
+
+  it('stamps entries with the modified time in DOS format', async () => {
+    const blob = createZip([{ name: 'a.txt', data: 'a' }], new Date(2026, 4, 17, 13, 45, 30))
+    const view = new DataView(await blob.arrayBuffer())
+    const time = view.getUint16(10, true)
+    const day = view.getUint16(12, true)
+    expect({ h: time >> 11, m: (time >> 5) & 0x3f, s: (time & 0x1f) * 2 }).toEqual({ h: 13, m: 45, s: 30 })
+    expect({ y: (day >> 9) + 1980, mo: (day >> 5) & 0xf, d: day & 0x1f }).toEqual({ y: 2026, mo: 5, d: 17 })
+  })
+})
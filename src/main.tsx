@@ -2,9 +2,12 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import { App } from '@/App'
+import { registerServiceWorker } from '@/lib/pwa'
 
 document.title = import.meta.env.VITE_APP_NAME || 'Business Chat'
 
+registerServiceWorker()
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <App />
@@ -2,8 +2,8 @@ import { useState, useRef } from 'react'
 import { useParams, useNavigate } from 'react-router-dom'
 import {
   ArrowLeft, ThumbsUp, ThumbsDown, Calendar, Clock, Users,
-  EyeOff, Pencil, FileText, AlertTriangle, Share2, Download,
-  SmilePlus, Send, Trash2, MessageSquare,
+  EyeOff, Eye, Pencil, FileText, AlertTriangle, Share2, Download,
+  SmilePlus, Send, Trash2, MessageSquare, ShieldCheck, Filter, History,
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -14,12 +14,19 @@ import {
   useAnnouncement, useVoteAnnouncement,
   useAnnouncementReaction,
   useAnnouncementComments, useAddComment, useDeleteComment,
+  useTrackAnnouncementView,
 } from '@/hooks/useAnnouncements'
+import { AnnouncementAnalyticsPanel } from '@/components/admin/AnnouncementAnalyticsPanel'
+import { AnnouncementAcknowledgementReport } from '@/components/admin/AnnouncementAcknowledgementReport'
+import { AnnouncementHistorySheet } from '@/components/chat/AnnouncementHistorySheet'
+import { useAppConfig } from '@/hooks/useConfig'
+import { isEmptySegment, segmentSummary } from '@/lib/audienceSegment'
 import { useAuthStore } from '@/stores/authStore'
 import { ANNOUNCEMENT_TYPE_CONFIG as TYPE_CONFIG } from '@/lib/constants'
 import type { AnnouncementType } from '@/lib/schemas'
 import { format } from 'date-fns'
 import { EmojiPicker } from '@/components/ui/EmojiPicker'
+import { Markdown } from '@/components/ui/markdown'
 
 const TEMPLATE_LABELS: Record<string, string> = {
   DEFAULT: 'Default',
@@ -54,18 +61,21 @@ export function AnnouncementViewPage() {
   const isAdmin = user?.role === 'ADMIN' || user?.role === 'SUPER_ADMIN'
 
   const { data, isLoading, isError } = useAnnouncement(id)
+  const { data: appConfig } = useAppConfig()
   const vote = useVoteAnnouncement()
   const { react: reactMut, remove: removeReaction } = useAnnouncementReaction(id)
 
   const { data: commentsData, isLoading: commentsLoading } = useAnnouncementComments(id)
   const addComment = useAddComment(id)
   const deleteComment = useDeleteComment(id)
+  const [historyOpen, setHistoryOpen] = useState(false)
 
   const [showEmojiPicker, setShowEmojiPicker] = useState(false)
   const [commentInput, setCommentInput] = useState('')
   const commentRef = useRef<HTMLTextAreaElement>(null)
 
   const announcement = data?.announcement
+  useTrackAnnouncementView(announcement, 'PAGE')
 
   const handleBack = () => navigate(-1)
   const handleEdit = () => navigate(`/admin/announcements/${id}/edit`)
@@ -147,6 +157,11 @@ export function AnnouncementViewPage() {
           <Button variant="ghost" size="icon" className="h-8 w-8 rounded-lg text-muted-foreground" onClick={() => navigator.clipboard.writeText(window.location.href)}>
             <Share2 className="h-4 w-4" />
           </Button>
+          {announcement.editedAt && (
+            <Button variant="ghost" size="sm" className="gap-1.5 rounded-lg text-xs text-muted-foreground" onClick={() => setHistoryOpen(true)}>
+              <History className="h-3.5 w-3.5" /> History
+            </Button>
+          )}
           {isAdmin && (
             <Button variant="outline" size="sm" className="gap-1.5 rounded-lg text-xs" onClick={handleEdit}>
               <Pencil className="h-3.5 w-3.5" /> Edit
@@ -189,6 +204,14 @@ export function AnnouncementViewPage() {
                 <EyeOff className="h-3 w-3" /> Inactive
               </Badge>
             )}
+            {announcement.requiresAcknowledgement && (
+              <Badge variant="secondary" className={cn('gap-1 rounded-lg text-[11px]', announcement.userAcknowledgedAt && 'text-green-700 dark:text-green-400')}>
+                <ShieldCheck className="h-3 w-3" />
+                {announcement.userAcknowledgedAt
+                  ? `Acknowledged ${format(parseTimestamp(announcement.userAcknowledgedAt), 'MMM d, yyyy')}`
+                  : 'Acknowledgement required'}
+              </Badge>
+            )}
             {announcement.targetRoles && announcement.targetRoles.length > 0 && (
               <Badge variant="secondary" className="gap-1 rounded-lg text-[11px]">
                 <Users className="h-3 w-3" />
@@ -214,6 +237,27 @@ export function AnnouncementViewPage() {
                 </span>
                 <span>·</span>
                 <span>{formatRelativeTime(announcement.createdAt)}</span>
+                {announcement.editedAt && (
+                  <>
+                    <span>·</span>
+                    <button
+                      onClick={() => setHistoryOpen(true)}
+                      className="hover:text-foreground hover:underline underline-offset-2"
+                      title={format(parseTimestamp(announcement.editedAt), 'MMM d, yyyy h:mm a')}
+                    >
+                      Edited {formatRelativeTime(announcement.editedAt)}
+                    </button>
+                  </>
+                )}
+                {isAdmin && announcement.viewCount !== undefined && (
+                  <>
+                    <span>·</span>
+                    <span className="flex items-center gap-1">
+                      <Eye className="h-3 w-3" />
+                      {announcement.viewCount} view{announcement.viewCount !== 1 ? 's' : ''}
+                    </span>
+                  </>
+                )}
               </div>
             </div>
           </div>
@@ -225,6 +269,27 @@ export function AnnouncementViewPage() {
             </div>
           )}
 
+          {isAdmin && announcement.segment && !isEmptySegment(announcement.segment.rules) && (
+            <div className="mt-3 flex items-start gap-2 rounded-lg border bg-muted/20 px-3 py-2 text-xs w-fit max-w-full">
+              <Filter className="h-3.5 w-3.5 mt-0.5 text-muted-foreground shrink-0" />
+              <div className="min-w-0">
+                <p className="font-medium">
+                  {announcement.segment.name ? `Segment: ${announcement.segment.name}` : 'Custom segment'}
+                </p>
+                <p className="text-muted-foreground">{segmentSummary(announcement.segment.rules, appConfig?.subsidiaries).join(' · ')}</p>
+                {!!announcement.segment.rules.users?.length && (
+                  <p className="text-muted-foreground truncate" title={announcement.segment.rules.users.map((u) => u.name).join(', ')}>
+                    Hand-picked: {announcement.segment.rules.users.map((u) => u.name).join(', ')}
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {isAdmin && <AnnouncementAnalyticsPanel announcement={announcement} />}
+          {isAdmin && announcement.requiresAcknowledgement && <AnnouncementAcknowledgementReport announcementId={announcement.id} />}
+          <AnnouncementHistorySheet announcementId={announcement.id} open={historyOpen} onOpenChange={setHistoryOpen} canRestore={isAdmin} />
+
           <Separator className="my-6" />
 
           {/* Video */}
@@ -258,10 +323,8 @@ export function AnnouncementViewPage() {
           )}
 
           {/* Body content */}
-          <article className="prose prose-sm dark:prose-invert max-w-none">
-            <div className="text-[15px] leading-[1.8] whitespace-pre-wrap text-foreground">
-              {announcement.content}
-            </div>
+          <article>
+            <Markdown content={announcement.content} className="text-[15px] leading-[1.8] text-foreground" />
           </article>
 
           <Separator className="my-6" />
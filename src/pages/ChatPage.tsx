@@ -161,7 +161,7 @@ export function ChatPage() {
       queryClient.setQueryData<CacheShape>(['messages', conversationId], (old) => old ? updater(old) : old)
 
     const handleNewMessage = (data: { message: Message }) => {
-      if (data.message.conversationId !== conversationId) return
+      if (data.message.conversationId !== conversationId || data.message.isNote) return
       updateCache((old) => {
         const exists = old.pages.some((p) => p.messages.some((m) => m.id === data.message.id))
         if (exists) return old
@@ -201,7 +201,7 @@ export function ChatPage() {
   }, [conversationId, user?.id, queryClient])
 
   const handleSend = useCallback(
-    (data: { type: string; content?: string; mediaId?: string; replyToId?: string; announcementId?: string }) => {
+    (data: { type: string; content?: string; mediaId?: string; replyToId?: string; announcementId?: string; linkPreview?: boolean }) => {
       sendMessage.mutate(data)
     },
     [sendMessage],
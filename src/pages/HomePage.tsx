@@ -4,16 +4,19 @@ import {
   MessageSquare, Settings, ArrowRight, Headphones,
   Users, ScrollText, Zap, Megaphone,
   Clock, Monitor, Sun, Moon, Sparkles, UserCheck, UserX, Activity,
+  AlarmClock, Timer,
 } from 'lucide-react'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { AppHeader } from '@/components/layout/AppHeader'
+import { AccountDeletionBanner } from '@/components/layout/AccountDeletionBanner'
 import { useAuthStore } from '@/stores/authStore'
 import { useAnnouncements } from '@/hooks/useAnnouncements'
 import { useConversation } from '@/hooks/useMessages'
 import { adminStats, adminUsers } from '@/lib/api'
 import { cn, formatRelativeTime, getInitials } from '@/lib/utils'
 import { LeafLogo } from '@/components/ui/LeafLogo'
+import { Markdown } from '@/components/ui/markdown'
 import type { Announcement, Status } from '@/lib/schemas'
 import { useAppConfig } from '@/hooks/useConfig'
 import { ANNOUNCEMENT_TYPE_CONFIG } from '@/lib/constants'
@@ -38,7 +41,7 @@ function AnnouncementCard({ announcement, onView }: { announcement: Announcement
               {announcement.type}
             </Badge>
           </div>
-          <p className="text-xs text-muted-foreground mt-1 line-clamp-2">{announcement.content}</p>
+          <Markdown content={announcement.content} compact interactive={false} className="text-xs text-muted-foreground mt-1 line-clamp-2" />
           <p className="text-[10px] text-muted-foreground mt-1.5">
             {formatRelativeTime(announcement.createdAt)}
           </p>
@@ -193,6 +196,8 @@ export function HomePage() {
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
             {/* Main column */}
             <div className="lg:col-span-2 space-y-4">
+              <AccountDeletionBanner />
+
               {/* Greeting */}
               <div className="flex items-center justify-between">
                 <div>
@@ -279,11 +284,17 @@ export function HomePage() {
 
               {/* Admin Stats */}
               {isAdmin && stats && (
-                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                <div className={cn('grid grid-cols-2 gap-3', stats.sla ? 'sm:grid-cols-3' : 'sm:grid-cols-4')}>
                   <StatCard icon={Users} label="Total Users" value={stats.users.total} color="text-primary bg-primary/10 ring-primary/20" />
                   <StatCard icon={Clock} label="Pending" value={stats.users.pending} color="text-amber-500 bg-amber-500/10 ring-amber-500/20" />
                   <StatCard icon={MessageSquare} label="Messages" value={stats.messages} color="text-blue-500 bg-blue-500/10 ring-blue-500/20" />
                   <StatCard icon={Monitor} label="Online" value={stats.activeSessions} color="text-green-500 bg-green-500/10 ring-green-500/20" />
+                  {stats.sla && (
+                    <>
+                      <StatCard icon={AlarmClock} label="SLA Breached" value={stats.sla.breached} color="text-red-500 bg-red-500/10 ring-red-500/20" />
+                      <StatCard icon={Timer} label="SLA At Risk" value={stats.sla.atRisk} color="text-orange-500 bg-orange-500/10 ring-orange-500/20" />
+                    </>
+                  )}
                 </div>
               )}
 
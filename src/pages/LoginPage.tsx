@@ -1,8 +1,8 @@
-import { useState } from 'react'
-import { useNavigate, Link } from 'react-router-dom'
+import { useEffect, useState } from 'react'
+import { useNavigate, useLocation, Link } from 'react-router-dom'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
-import { AlertCircle, ArrowRight } from 'lucide-react'
+import { AlertCircle, ArrowLeft, ArrowRight, Fingerprint, Mail, ShieldCheck } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { PasswordInput } from '@/components/ui/password-input'
@@ -10,17 +10,299 @@ import { Label } from '@/components/ui/label'
 import { AuthLayout } from '@/components/layout/AuthLayout'
 import { loginSchema, type LoginInput } from '@/lib/schemas'
 import { useAuthStore } from '@/stores/authStore'
-import { ApiError } from '@/lib/api'
+import { auth, ApiError } from '@/lib/api'
+import { useAppConfig } from '@/hooks/useConfig'
+import { formatCooldown, resendCooldown } from '@/lib/emailLogin'
 import { LeafLogo } from '@/components/ui/LeafLogo'
+import { isPasskeyCancelled, isPasskeySupported } from '@/lib/webauthn'
+
+function TwoFactorStep({ challengeToken, onBack }: { challengeToken: string; onBack: () => void }) {
+  const navigate = useNavigate()
+  const verifyTwoFactor = useAuthStore((s) => s.verifyTwoFactor)
+  const [useRecovery, setUseRecovery] = useState(false)
+  const [code, setCode] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setIsSubmitting(true)
+    try {
+      await verifyTwoFactor(useRecovery
+        ? { challengeToken, recoveryCode: code.trim() }
+        : { challengeToken, code: code.replace(/\s/g, '') })
+      navigate('/')
+    } catch (err) {
+      if (err instanceof ApiError) {
+        if (err.status === 401) {
+          setError(useRecovery ? 'That recovery code is invalid or already used.' : 'Invalid code. Check your authenticator app and try again.')
+        } else if (err.status === 410) {
+          setError('This sign-in attempt expired. Please start again.')
+        } else if (err.status === 429) {
+          setError('Too many attempts. Please try again later.')
+        } else {
+          setError(err.message)
+        }
+      } else {
+        setError('An unexpected error occurred.')
+      }
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const toggleMode = () => {
+    setUseRecovery((v) => !v)
+    setCode('')
+    setError(null)
+  }
+
+  return (
+    <AuthLayout
+      title="Two-factor authentication"
+      subtitle={useRecovery ? 'Enter one of your saved recovery codes' : 'Enter the 6-digit code from your authenticator app'}
+    >
+      <form onSubmit={onSubmit} className="space-y-5">
+        {error && (
+          <div className="flex items-start gap-3 rounded-xl border border-destructive/20 bg-destructive/5 px-4 py-3">
+            <AlertCircle className="mt-0.5 h-4 w-4 shrink-0 text-destructive" />
+            <p className="text-sm text-destructive">{error}</p>
+          </div>
+        )}
+
+        <div className="space-y-1.5">
+          <Label htmlFor="code" className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+            {useRecovery ? 'Recovery Code' : 'Authentication Code'}
+          </Label>
+          <Input
+            id="code"
+            autoFocus
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder={useRecovery ? 'xxxxx-xxxxx' : '123456'}
+            autoComplete="one-time-code"
+            inputMode={useRecovery ? 'text' : 'numeric'}
+            maxLength={useRecovery ? 32 : 7}
+            className="h-11 rounded-xl bg-muted/50 border-0 focus-visible:bg-background focus-visible:ring-2 text-center font-mono tracking-widest"
+          />
+        </div>
+
+        <Button
+          type="submit"
+          className="h-11 w-full rounded-xl text-sm font-semibold gap-2"
+          disabled={isSubmitting || !code.trim()}
+        >
+          {isSubmitting ? (
+            <LeafLogo className="h-4 w-4 animate-spin" />
+          ) : (
+            <>
+              <ShieldCheck className="h-4 w-4" />
+              Verify
+            </>
+          )}
+        </Button>
+
+        <div className="flex items-center justify-between text-sm">
+          <button type="button" onClick={onBack} className="flex items-center gap-1 text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="h-3.5 w-3.5" />
+            Back
+          </button>
+          <button type="button" onClick={toggleMode} className="text-primary hover:underline underline-offset-4">
+            {useRecovery ? 'Use authenticator app' : 'Use a recovery code'}
+          </button>
+        </div>
+      </form>
+    </AuthLayout>
+  )
+}
+
+function EmailLoginStep({ initialEmail, onBack, onChallenge }: {
+  initialEmail: string
+  onBack: () => void
+  onChallenge: (challengeToken: string) => void
+}) {
+  const navigate = useNavigate()
+  const loginWithEmailCode = useAuthStore((s) => s.loginWithEmailCode)
+  const { data: configData } = useAppConfig()
+  const [email, setEmail] = useState(initialEmail)
+  const [challengeId, setChallengeId] = useState<string | null>(null)
+  const [code, setCode] = useState('')
+  const [sentAt, setSentAt] = useState<number[]>([])
+  const [now, setNow] = useState(() => Date.now())
+  const [error, setError] = useState<string | null>(null)
+  const [isSending, setIsSending] = useState(false)
+  const [isVerifying, setIsVerifying] = useState(false)
+
+  const cooldown = resendCooldown(sentAt, configData?.rateLimit?.login, now)
+  const coolingDown = cooldown > 0
+
+  useEffect(() => {
+    if (!coolingDown) return
+    const id = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(id)
+  }, [coolingDown])
+
+  const send = async () => {
+    setError(null)
+    setIsSending(true)
+    try {
+      const res = await auth.requestEmailLogin(email.trim())
+      const sent = Date.now()
+      setChallengeId(res.challengeId)
+      setSentAt((prev) => [...prev, sent])
+      setNow(sent)
+      setCode('')
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 429) {
+        setError('Too many sign-in attempts. Please try again later.')
+      } else {
+        setError(err instanceof ApiError ? err.message : 'An unexpected error occurred.')
+      }
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  const verify = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!challengeId) return
+    setError(null)
+    setIsVerifying(true)
+    try {
+      const challenge = await loginWithEmailCode({ challengeId, code })
+      if (challenge) onChallenge(challenge.challengeToken)
+      else navigate('/')
+    } catch (err) {
+      if (err instanceof ApiError) {
+        if (err.status === 401) {
+          setError('That code is incorrect. Check the latest email and try again.')
+        } else if (err.status === 403) {
+          setError('Account not approved or suspended. Check your email for details.')
+        } else if (err.status === 410) {
+          setError('This code has expired. Request a new one.')
+        } else if (err.status === 429) {
+          setError('Too many attempts. Please try again later.')
+        } else {
+          setError(err.message)
+        }
+      } else {
+        setError('An unexpected error occurred.')
+      }
+    } finally {
+      setIsVerifying(false)
+    }
+  }
+
+  const errorBanner = error && (
+    <div className="flex items-start gap-3 rounded-xl border border-destructive/20 bg-destructive/5 px-4 py-3">
+      <AlertCircle className="mt-0.5 h-4 w-4 shrink-0 text-destructive" />
+      <p className="text-sm text-destructive">{error}</p>
+    </div>
+  )
+
+  const backLink = (
+    <button type="button" onClick={onBack} className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+      <ArrowLeft className="h-3.5 w-3.5" />
+      Sign in with password
+    </button>
+  )
+
+  if (!challengeId) {
+    return (
+      <AuthLayout title="Sign in with email" subtitle="We'll email you a sign-in link and a 6-digit code">
+        <form onSubmit={(e) => { e.preventDefault(); send() }} className="space-y-5">
+          {errorBanner}
+          <div className="space-y-1.5">
+            <Label htmlFor="login-email" className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+              Email Address
+            </Label>
+            <Input
+              id="login-email"
+              type="email"
+              autoFocus
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="you@company.com"
+              autoComplete="email"
+              className="h-11 rounded-xl bg-muted/50 border-0 focus-visible:bg-background focus-visible:ring-2"
+            />
+          </div>
+          <Button
+            type="submit"
+            className="h-11 w-full rounded-xl text-sm font-semibold gap-2"
+            disabled={isSending || coolingDown || !email.trim()}
+          >
+            {isSending ? <LeafLogo className="h-4 w-4 animate-spin" /> : <><Mail className="h-4 w-4" />Send sign-in email</>}
+          </Button>
+          {backLink}
+        </form>
+      </AuthLayout>
+    )
+  }
+
+  return (
+    <AuthLayout title="Check your email" subtitle={`Click the link we sent to ${email.trim()}, or enter the code here`}>
+      <form onSubmit={verify} className="space-y-5">
+        {errorBanner}
+        <div className="space-y-1.5">
+          <Label htmlFor="email-code" className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+            Sign-in Code
+          </Label>
+          <Input
+            id="email-code"
+            autoFocus
+            value={code}
+            onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+            placeholder="123456"
+            autoComplete="one-time-code"
+            inputMode="numeric"
+            className="h-11 rounded-xl bg-muted/50 border-0 focus-visible:bg-background focus-visible:ring-2 text-center font-mono tracking-widest"
+          />
+        </div>
+        <Button
+          type="submit"
+          className="h-11 w-full rounded-xl text-sm font-semibold gap-2"
+          disabled={isVerifying || code.length !== 6}
+        >
+          {isVerifying ? <LeafLogo className="h-4 w-4 animate-spin" /> : <>Sign In<ArrowRight className="h-4 w-4" /></>}
+        </Button>
+        <div className="flex items-center justify-between text-sm">
+          {backLink}
+          <button
+            type="button"
+            onClick={send}
+            disabled={isSending || coolingDown}
+            className="text-primary hover:underline underline-offset-4 disabled:text-muted-foreground disabled:no-underline"
+          >
+            {coolingDown ? `Resend in ${formatCooldown(cooldown)}` : 'Resend email'}
+          </button>
+        </div>
+      </form>
+    </AuthLayout>
+  )
+}
 
 export function LoginPage() {
   const navigate = useNavigate()
   const login = useAuthStore((s) => s.login)
+  const loginWithPasskey = useAuthStore((s) => s.loginWithPasskey)
+  const location = useLocation()
+  const { data: configData } = useAppConfig()
   const [error, setError] = useState<string | null>(null)
+  // A magic link that still needs a second factor lands here with its challenge
+  const [challengeToken, setChallengeToken] = useState<string | null>(
+    () => (location.state as { challengeToken?: string } | null)?.challengeToken ?? null,
+  )
+  const [passkeyPending, setPasskeyPending] = useState(false)
+  const [emailMode, setEmailMode] = useState(false)
+  const emailLoginEnabled = configData?.features?.emailLogin === true
+  const passkeysAvailable = isPasskeySupported()
 
   const {
     register,
     handleSubmit,
+    getValues,
     formState: { errors, isSubmitting },
   } = useForm<LoginInput>({
     resolver: zodResolver(loginSchema),
@@ -29,7 +311,11 @@ export function LoginPage() {
   const onSubmit = async (data: LoginInput) => {
     setError(null)
     try {
-      await login(data.email, data.password)
+      const challenge = await login(data.email, data.password)
+      if (challenge) {
+        setChallengeToken(challenge.challengeToken)
+        return
+      }
       navigate('/')
     } catch (err) {
       if (err instanceof ApiError) {
@@ -48,6 +334,46 @@ export function LoginPage() {
     }
   }
 
+  const onPasskey = async () => {
+    setError(null)
+    setPasskeyPending(true)
+    try {
+      await loginWithPasskey(getValues('email')?.trim() || undefined)
+      navigate('/')
+    } catch (err) {
+      if (isPasskeyCancelled(err)) return
+      if (err instanceof ApiError) {
+        if (err.status === 403) {
+          setError('Account not approved or suspended. Check your email for details.')
+        } else if (err.status === 401 || err.status === 404) {
+          setError('That passkey isn\'t registered to an account. Sign in with your password instead.')
+        } else if (err.status === 429) {
+          setError('Too many login attempts. Please try again later.')
+        } else {
+          setError(err.message)
+        }
+      } else {
+        setError('Passkey sign-in failed. Try again or use your password.')
+      }
+    } finally {
+      setPasskeyPending(false)
+    }
+  }
+
+  if (challengeToken) {
+    return <TwoFactorStep challengeToken={challengeToken} onBack={() => setChallengeToken(null)} />
+  }
+
+  if (emailMode) {
+    return (
+      <EmailLoginStep
+        initialEmail={getValues('email') ?? ''}
+        onBack={() => setEmailMode(false)}
+        onChallenge={(token) => { setEmailMode(false); setChallengeToken(token) }}
+      />
+    )
+  }
+
   return (
     <AuthLayout
       title="Welcome back"
@@ -115,6 +441,40 @@ export function LoginPage() {
           )}
         </Button>
 
+        {(passkeysAvailable || emailLoginEnabled) && (
+          <>
+            <div className="flex items-center gap-3 text-xs text-muted-foreground">
+              <div className="h-px flex-1 bg-border" />
+              or
+              <div className="h-px flex-1 bg-border" />
+            </div>
+            {passkeysAvailable && (
+              <Button
+                type="button"
+                variant="outline"
+                className="h-11 w-full rounded-xl text-sm font-semibold gap-2"
+                disabled={passkeyPending || isSubmitting}
+                onClick={onPasskey}
+              >
+                {passkeyPending ? <LeafLogo className="h-4 w-4 animate-spin" /> : <Fingerprint className="h-4 w-4" />}
+                Sign in with a passkey
+              </Button>
+            )}
+            {emailLoginEnabled && (
+              <Button
+                type="button"
+                variant="outline"
+                className="h-11 w-full rounded-xl text-sm font-semibold gap-2"
+                disabled={isSubmitting}
+                onClick={() => { setError(null); setEmailMode(true) }}
+              >
+                <Mail className="h-4 w-4" />
+                Email me a sign-in code
+              </Button>
+            )}
+          </>
+        )}
+
         <p className="text-center text-sm text-muted-foreground">
           Don&apos;t have an account?{' '}
           <Link to="/register" className="font-semibold text-primary hover:underline underline-offset-4">
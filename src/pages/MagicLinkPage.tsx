@@ -0,0 +1,68 @@
+import { useEffect, useRef, useState } from 'react'
+import { Link, useNavigate, useSearchParams } from 'react-router-dom'
+import { AlertCircle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { AuthLayout } from '@/components/layout/AuthLayout'
+import { useAuthStore } from '@/stores/authStore'
+import { ApiError } from '@/lib/api'
+import { LeafLogo } from '@/components/ui/LeafLogo'
+
+export function MagicLinkPage() {
+  const [searchParams] = useSearchParams()
+  const navigate = useNavigate()
+  const loginWithMagicLink = useAuthStore((s) => s.loginWithMagicLink)
+  const token = searchParams.get('token') || ''
+  const [error, setError] = useState<string | null>(null)
+  // Links are single-use, so never submit the same token twice (StrictMode re-runs effects)
+  const consumedRef = useRef(false)
+
+  useEffect(() => {
+    if (!token || consumedRef.current) return
+    consumedRef.current = true
+    loginWithMagicLink(token)
+      .then((challenge) => {
+        if (challenge) navigate('/login', { replace: true, state: { challengeToken: challenge.challengeToken } })
+        else navigate('/', { replace: true })
+      })
+      .catch((err) => {
+        if (err instanceof ApiError && err.status === 403) {
+          setError('Your account is not approved or has been suspended. Check your email for details.')
+        } else if (err instanceof ApiError && err.status === 429) {
+          setError('Too many sign-in attempts. Please try again later.')
+        } else {
+          setError('This sign-in link is invalid, expired or has already been used.')
+        }
+      })
+  }, [token, loginWithMagicLink, navigate])
+
+  if (!token || error) {
+    return (
+      <AuthLayout title="Sign-in link" subtitle="We couldn't sign you in with this link">
+        <div className="flex flex-col items-center gap-5 rounded-2xl border bg-card p-8 text-center shadow-sm">
+          <div className="flex h-16 w-16 items-center justify-center rounded-full bg-destructive/10 ring-8 ring-destructive/5">
+            <AlertCircle className="h-8 w-8 text-destructive" />
+          </div>
+          <div className="space-y-2">
+            <h2 className="text-lg font-bold">Link Not Valid</h2>
+            <p className="text-sm text-muted-foreground leading-relaxed max-w-xs mx-auto">
+              {error ?? 'This sign-in link is invalid, expired or has already been used.'}
+            </p>
+          </div>
+          <Link to="/login">
+            <Button className="h-11 rounded-xl px-6">
+              Back to Sign In
+            </Button>
+          </Link>
+        </div>
+      </AuthLayout>
+    )
+  }
+
+  return (
+    <AuthLayout title="Signing you in" subtitle="Just a moment…">
+      <div className="flex justify-center py-8">
+        <LeafLogo className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    </AuthLayout>
+  )
+}
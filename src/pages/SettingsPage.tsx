@@ -1,10 +1,11 @@
 import { useState, useEffect, useRef } from 'react'
 import { useLocation } from 'react-router-dom'
 import { format } from 'date-fns'
-import { parseTimestamp, getInitials } from '@/lib/utils'
+import { parseTimestamp, getInitials, formatRelativeTime } from '@/lib/utils'
 import {
   Monitor, Smartphone, Globe, Trash2, KeyRound, Bell, LogOut,
-  Shield, Palette, Sliders, Zap, Lock, Check, Loader2,
+  Shield, Palette, Sliders, Zap, Lock, Check, Loader2, Timer, Route, Plus,
+  Download, FileArchive, UserX, ShieldCheck, Fingerprint, Pencil, X,
 } from 'lucide-react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
@@ -12,13 +13,28 @@ import { z } from 'zod'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { PasswordInput } from '@/components/ui/password-input'
 import { AppHeader } from '@/components/layout/AppHeader'
 import { useAuthStore } from '@/stores/authStore'
-import { auth, preferences, appConfig, ApiError, type AppConfig } from '@/lib/api'
-import { changePasswordSchema, type ChangePasswordInput } from '@/lib/schemas'
+import { auth, preferences, appConfig, adminUsers, ApiError, type AppConfig } from '@/lib/api'
+import { changePasswordSchema, type ChangePasswordInput, type Passkey, type RoutingConfig, type RoutingRule, type RoutingStrategy } from '@/lib/schemas'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { useAppConfig } from '@/hooks/useConfig'
+import { usePushSubscription } from '@/hooks/usePwa'
+import { useNotificationPrefsStore, type NotificationEvent } from '@/stores/notificationPrefsStore'
+import { DEFAULT_SLA_TARGETS, slaTargets } from '@/lib/sla'
+import { DEFAULT_ROUTING, MAX_ROUTING_RULES, ROUTING_STRATEGIES, createRoutingRule, routingConfig } from '@/lib/routing'
+import { useAdminAvailability } from '@/hooks/useUsers'
+import { RoutingRuleCard } from '@/components/admin/RoutingRuleCard'
+import { useDataExport } from '@/hooks/useDataExport'
+import { DATA_EXPORT_STEPS } from '@/lib/dataExport'
+import { useCancelAccountDeletion } from '@/hooks/useAccountDeletion'
+import { DeleteAccountDialog } from '@/components/layout/DeleteAccountDialog'
+import { useSetupTwoFactor } from '@/hooks/useTwoFactor'
+import { usePasskeys, useRegisterPasskey, useRemovePasskey, useRenamePasskey } from '@/hooks/usePasskeys'
+import { isPasskeySupported } from '@/lib/webauthn'
+import { TwoFactorConfirmDialog, TwoFactorSetupDialog } from '@/components/layout/TwoFactorDialogs'
 import { toast } from 'sonner'
 import { LeafLogo } from '@/components/ui/LeafLogo'
 
@@ -53,9 +69,17 @@ const securitySchema = z.object({
   apiRequestsPerMinute: z.number().int().positive(),
   maxDevices: z.number().int().positive(),
   accessTokenDays: z.number().int().positive(),
+  requireAdminTwoFactor: z.boolean(),
 })
 type SecurityInput = z.infer<typeof securitySchema>
 
+const slaSchema = z.object({
+  firstResponseMinutes: z.number().int().positive(),
+  nextResponseMinutes: z.number().int().positive(),
+  warningPercent: z.number().int().min(1).max(100),
+})
+type SlaInput = z.infer<typeof slaSchema>
+
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
 function bytesToMB(bytes: number) { return (bytes / 1024 / 1024).toFixed(0) }
@@ -89,6 +113,70 @@ function FieldRow({ label, hint, children }: { label: string; hint?: string; chi
   )
 }
 
+function PasskeyRow({ passkey }: { passkey: Passkey }) {
+  const rename = useRenamePasskey()
+  const remove = useRemovePasskey()
+  const [editing, setEditing] = useState(false)
+  const [name, setName] = useState(passkey.name)
+
+  const save = () => {
+    const next = name.trim()
+    if (next && next !== passkey.name) rename.mutate({ id: passkey.id, name: next })
+    setEditing(false)
+  }
+
+  return (
+    <div className="flex items-center gap-3 px-3 py-2.5 hover:bg-muted/30 transition-colors">
+      <div className="flex h-8 w-8 items-center justify-center rounded-lg bg-muted shrink-0">
+        <Fingerprint className="h-4 w-4" />
+      </div>
+      <div className="flex-1 min-w-0">
+        {editing ? (
+          <Input
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onBlur={save}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') save()
+              if (e.key === 'Escape') { setName(passkey.name); setEditing(false) }
+            }}
+            maxLength={60}
+            className="h-7 text-sm"
+          />
+        ) : (
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium truncate">{passkey.name}</span>
+            {passkey.backedUp && <span className="rounded bg-muted px-1.5 py-0.5 text-[10px] font-medium text-muted-foreground">Synced</span>}
+          </div>
+        )}
+        <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+          <span>Added {format(parseTimestamp(passkey.createdAt), 'MMM d, yyyy')}</span><span>·</span>
+          <span>{passkey.lastUsedAt ? `Used ${formatRelativeTime(passkey.lastUsedAt)}` : 'Never used'}</span>
+        </div>
+      </div>
+      {!editing && (
+        <Button variant="ghost" size="icon" className="h-7 w-7 text-muted-foreground" onClick={() => { setName(passkey.name); setEditing(true) }} aria-label="Rename passkey">
+          <Pencil className="h-3.5 w-3.5" />
+        </Button>
+      )}
+      <Button variant="ghost" size="icon" className="h-7 w-7 text-muted-foreground hover:text-destructive hover:bg-destructive/10" onClick={() => remove.mutate(passkey.id)} disabled={remove.isPending} aria-label="Remove passkey">
+        <Trash2 className="h-3.5 w-3.5" />
+      </Button>
+    </div>
+  )
+}
+
+const ADMIN_ALERT_EVENTS: { event: NotificationEvent; label: string }[] = [
+  { event: 'message', label: 'Customer messages' },
+  { event: 'dm', label: 'Direct messages' },
+  { event: 'internal', label: 'Team chat' },
+  { event: 'assigned', label: 'Assigned to you' },
+]
+const USER_ALERT_EVENTS: { event: NotificationEvent; label: string }[] = [
+  { event: 'message', label: 'Replies from support' },
+]
+
 // ─── Main ─────────────────────────────────────────────────────────────────────
 
 export function SettingsPage() {
@@ -124,6 +212,42 @@ export function SettingsPage() {
     onSuccess: () => toast.success('Preference updated'),
   })
 
+  const push = usePushSubscription()
+  const pushHint = !push.supported
+    ? 'Not supported in this browser'
+    : push.permission === 'denied' && !push.subscribed
+      ? 'Blocked — allow notifications in browser settings'
+      : 'New replies on this device, even when the tab is closed'
+
+  const notificationPrefs = useNotificationPrefsStore()
+  const desktopSupported = 'Notification' in window
+  const [desktopPermission, setDesktopPermission] = useState(() => (desktopSupported ? Notification.permission : 'denied'))
+  const toggleDesktop = async (enabled: boolean) => {
+    if (enabled && desktopPermission !== 'granted') {
+      const permission = await Notification.requestPermission()
+      setDesktopPermission(permission)
+      if (permission !== 'granted') { toast.error('Notification permission was denied'); return }
+    }
+    notificationPrefs.setDesktop(enabled)
+  }
+
+  const dataExport = useDataExport()
+  const exportStepIndex = dataExport.progress ? DATA_EXPORT_STEPS.findIndex((s) => s.step === dataExport.progress?.step) : -1
+  const { data: passkeysData, isLoading: passkeysLoading } = usePasskeys()
+  const registerPasskey = useRegisterPasskey()
+  const [newPasskeyName, setNewPasskeyName] = useState<string | null>(null)
+  const passkeyList = passkeysData?.passkeys ?? []
+  const addPasskey = () => {
+    if (!newPasskeyName?.trim()) return
+    registerPasskey.mutate(newPasskeyName.trim(), { onSuccess: () => setNewPasskeyName(null) })
+  }
+
+  const setupTwoFactor = useSetupTwoFactor()
+  const [twoFactorMode, setTwoFactorMode] = useState<'disable' | 'regenerate' | null>(null)
+  const [deleteAccountOpen, setDeleteAccountOpen] = useState(false)
+  const cancelDeletion = useCancelAccountDeletion()
+  const deletionGraceDays = configData?.accountDeletion?.graceDays ?? 30
+
   // Password form
   const { register, handleSubmit, reset: resetPwd, formState: { errors, isSubmitting } } = useForm<ChangePasswordInput>({ resolver: zodResolver(changePasswordSchema) })
   const onPasswordSubmit = async (data: ChangePasswordInput) => {
@@ -153,8 +277,8 @@ export function SettingsPage() {
   })
 
   // Features — each toggle/field auto-saves individually
-  const [featureValues, setFeatureValues] = useState({ userRegistration: true, mediaUpload: true, messageDelete: true, messageDeleteTimeLimit: 300 })
-  useEffect(() => { if (configData?.features) setFeatureValues({ userRegistration: configData.features.userRegistration, mediaUpload: configData.features.mediaUpload, messageDelete: configData.features.messageDelete, messageDeleteTimeLimit: configData.features.messageDeleteTimeLimit }) }, [configData?.features])
+  const [featureValues, setFeatureValues] = useState({ userRegistration: true, mediaUpload: true, messageDelete: true, messageDeleteTimeLimit: 300, emailLogin: false })
+  useEffect(() => { if (configData?.features) setFeatureValues({ userRegistration: configData.features.userRegistration, mediaUpload: configData.features.mediaUpload, messageDelete: configData.features.messageDelete, messageDeleteTimeLimit: configData.features.messageDeleteTimeLimit, emailLogin: configData.features.emailLogin ?? false }) }, [configData?.features])
   const [togglingFeature, setTogglingFeature] = useState<string | null>(null)
   const handleFeatureToggle = async (name: keyof typeof featureValues, value: boolean | number) => {
     const next = { ...featureValues, [name]: value }
@@ -195,9 +319,9 @@ export function SettingsPage() {
   })
 
   // Security form
-  const { register: regSec, handleSubmit: hsSec, reset: resetSec, formState: { isSubmitting: sSec } } = useForm<SecurityInput>({
+  const { register: regSec, handleSubmit: hsSec, reset: resetSec, watch: watchSec, setValue: setSec, formState: { isSubmitting: sSec } } = useForm<SecurityInput>({
     resolver: zodResolver(securitySchema),
-    defaultValues: { loginMaxAttempts: 5, loginWindowMinutes: 15, loginLockoutMinutes: 30, apiRequestsPerMinute: 60, maxDevices: 5, accessTokenDays: 30 },
+    defaultValues: { loginMaxAttempts: 5, loginWindowMinutes: 15, loginLockoutMinutes: 30, apiRequestsPerMinute: 60, maxDevices: 5, accessTokenDays: 30, requireAdminTwoFactor: false },
   })
   useEffect(() => {
     if (configData) {
@@ -208,6 +332,7 @@ export function SettingsPage() {
         apiRequestsPerMinute: configData.rateLimit?.api?.requestsPerMinute ?? 60,
         maxDevices: configData.session?.maxDevices ?? 5,
         accessTokenDays: configData.session?.accessTokenDays ?? 30,
+        requireAdminTwoFactor: configData.twoFactor?.requiredForAdmins ?? false,
       })
     }
   }, [configData, resetSec])
@@ -215,15 +340,56 @@ export function SettingsPage() {
     mutationFn: (d: SecurityInput) => appConfig.updateSecurity({
       rateLimit: { login: { maxAttempts: d.loginMaxAttempts, windowMinutes: d.loginWindowMinutes, lockoutMinutes: d.loginLockoutMinutes }, api: { requestsPerMinute: d.apiRequestsPerMinute } },
       session: { maxDevices: d.maxDevices, accessTokenDays: d.accessTokenDays },
+      twoFactor: { requiredForAdmins: d.requireAdminTwoFactor },
     }),
     onSuccess: () => { queryClient.invalidateQueries({ queryKey: ['appConfig'] }); markSaved('security'); toast.success('Security settings updated') },
     onError: () => toast.error('Failed'),
   })
 
+  // SLA targets form
+  const { register: regSla, handleSubmit: hsSla, reset: resetSla, formState: { isSubmitting: sSla } } = useForm<SlaInput>({
+    resolver: zodResolver(slaSchema),
+    defaultValues: DEFAULT_SLA_TARGETS,
+  })
+  useEffect(() => { if (configData) resetSla(slaTargets(configData)) }, [configData, resetSla])
+  const updateSla = useMutation({
+    mutationFn: (d: SlaInput) => appConfig.updateSla(d),
+    onSuccess: () => { queryClient.invalidateQueries({ queryKey: ['appConfig'] }); markSaved('sla'); toast.success('SLA targets updated') },
+    onError: () => toast.error('Failed'),
+  })
+
   const sessions = sessionsData?.sessions ?? []
   const isAdmin = user?.role === 'ADMIN' || user?.role === 'SUPER_ADMIN'
   const isSuperAdmin = user?.role === 'SUPER_ADMIN'
-  const [saTab, setSaTab] = useState<'brand' | 'features' | 'limits' | 'security'>('brand')
+  const [saTab, setSaTab] = useState<'brand' | 'features' | 'limits' | 'security' | 'sla' | 'routing'>('brand')
+
+  // Routing — rules are edited as a draft and saved together
+  const [routingDraft, setRoutingDraft] = useState<RoutingConfig>(DEFAULT_ROUTING)
+  const savedRouting = configData?.routing
+  useEffect(() => { setRoutingDraft(routingConfig({ routing: savedRouting })) }, [savedRouting])
+  const updateRouting = useMutation({
+    mutationFn: (routing: RoutingConfig) => appConfig.updateRouting(routing),
+    onSuccess: () => { queryClient.invalidateQueries({ queryKey: ['appConfig'] }); markSaved('routing'); toast.success('Routing rules updated') },
+    onError: () => toast.error('Failed'),
+  })
+  const { admins: routingAdmins } = useAdminAvailability(isSuperAdmin && saTab === 'routing')
+  const { data: autoAssignData } = useQuery({
+    queryKey: ['admin', 'audit-logs', 'conversation.auto_assign'],
+    queryFn: () => adminUsers.auditLogs({ action: 'conversation.auto_assign', limit: 10 }),
+    enabled: isSuperAdmin && saTab === 'routing',
+    staleTime: 30_000,
+  })
+  const updateRule = (index: number, rule: RoutingRule) =>
+    setRoutingDraft((d) => ({ ...d, rules: d.rules.map((r, i) => (i === index ? rule : r)) }))
+  const moveRule = (index: number, direction: -1 | 1) =>
+    setRoutingDraft((d) => {
+      const rules = [...d.rules]
+      const target = index + direction
+      if (target < 0 || target >= rules.length) return d
+      const [moved] = rules.splice(index, 1)
+      rules.splice(target, 0, moved)
+      return { ...d, rules }
+    })
 
   const SaveIndicator = ({ section }: { section: string }) => {
     if (lastSavedSection === section) return <span className="flex items-center gap-1 text-[10px] text-green-600"><Check className="h-3 w-3" />Saved</span>
@@ -235,6 +401,8 @@ export function SettingsPage() {
     { id: 'features', label: 'Features', icon: Zap },
     { id: 'limits', label: 'Limits', icon: Sliders },
     { id: 'security', label: 'Security', icon: Lock },
+    { id: 'sla', label: 'SLA', icon: Timer },
+    { id: 'routing', label: 'Routing', icon: Route },
   ] as const
 
   return (
@@ -302,6 +470,85 @@ export function SettingsPage() {
             </div>
           </div>
 
+          {/* ── Two-Factor Authentication ── */}
+          <div className="rounded-xl border bg-card overflow-hidden mb-4">
+            <SectionHeader icon={ShieldCheck} title="Two-Factor Authentication" />
+            {isAdmin && configData?.twoFactor?.requiredForAdmins && !user?.twoFactorEnabled && (
+              <p className="px-3 py-2 border-b text-xs text-amber-700 dark:text-amber-400 bg-amber-50/60 dark:bg-amber-950/20">
+                Your organization requires two-factor authentication for admin accounts.
+              </p>
+            )}
+            <FieldRow label="Authenticator app" hint={user?.twoFactorEnabled ? 'A code is required after your password' : 'Add a second step when signing in'}>
+              {user?.twoFactorEnabled ? (
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="inline-flex items-center gap-1 text-[10px] font-medium text-green-700 dark:text-green-400 bg-green-50 dark:bg-green-900/20 px-2 py-0.5 rounded-full">
+                    <Check className="h-2.5 w-2.5" />Enabled
+                  </span>
+                  <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => setTwoFactorMode('regenerate')}>
+                    New recovery codes
+                  </Button>
+                  <Button size="sm" variant="ghost" className="h-7 text-xs text-destructive hover:text-destructive hover:bg-destructive/10" onClick={() => setTwoFactorMode('disable')}>
+                    Turn off
+                  </Button>
+                </div>
+              ) : (
+                <Button size="sm" variant="outline" className="gap-1.5" disabled={setupTwoFactor.isPending} onClick={() => setupTwoFactor.mutate()}>
+                  {setupTwoFactor.isPending ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <ShieldCheck className="h-3.5 w-3.5" />}
+                  Set up
+                </Button>
+              )}
+            </FieldRow>
+          </div>
+
+          {/* ── Notifications ── */}
+          <div className="rounded-xl border bg-card overflow-hidden mb-4">
+            <SectionHeader icon={Bell} title="Notifications" />
+            <FieldRow label="Push notifications" hint={pushHint}>
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={push.subscribed}
+                  onCheckedChange={(v) => push.setEnabled(v)}
+                  disabled={!push.supported || push.isPending || (push.permission === 'denied' && !push.subscribed)}
+                />
+                {push.isPending && <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" />}
+              </div>
+            </FieldRow>
+            <FieldRow
+              label="Desktop alerts"
+              hint={!desktopSupported ? 'Not supported in this browser' : desktopPermission === 'denied' ? 'Blocked — allow notifications in browser settings' : 'Pop-up alerts while this tab is in the background'}
+            >
+              <Switch
+                checked={notificationPrefs.desktop && desktopPermission === 'granted'}
+                onCheckedChange={toggleDesktop}
+                disabled={!desktopSupported || desktopPermission === 'denied'}
+              />
+            </FieldRow>
+            <FieldRow label="Unread badge" hint="Count in the tab title and icon">
+              <Switch checked={notificationPrefs.titleBadge} onCheckedChange={notificationPrefs.setTitleBadge} />
+            </FieldRow>
+            {(isAdmin ? ADMIN_ALERT_EVENTS : USER_ALERT_EVENTS).map(({ event, label }) => (
+              <FieldRow key={event} label={label}>
+                <div className="flex items-center gap-4">
+                  <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <Switch
+                      checked={notificationPrefs.events[event].enabled}
+                      onCheckedChange={(v) => notificationPrefs.setEventPrefs(event, { enabled: v })}
+                    />
+                    Alert
+                  </label>
+                  <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <Switch
+                      checked={notificationPrefs.events[event].sound}
+                      onCheckedChange={(v) => notificationPrefs.setEventPrefs(event, { sound: v })}
+                      disabled={!notificationPrefs.events[event].enabled}
+                    />
+                    Sound
+                  </label>
+                </div>
+              </FieldRow>
+            ))}
+          </div>
+
           {/* ── Super Admin Panel ── */}
           {isSuperAdmin && (
             <div className="rounded-xl border bg-card overflow-hidden mb-4">
@@ -366,6 +613,7 @@ export function SettingsPage() {
                     { name: 'userRegistration' as const, label: 'User Registration', desc: 'Allow new users to sign up via the register page' },
                     { name: 'mediaUpload' as const, label: 'Media Uploads', desc: 'Allow sending images, videos, and documents' },
                     { name: 'messageDelete' as const, label: 'Message Deletion', desc: 'Users can delete their own messages' },
+                    { name: 'emailLogin' as const, label: 'Email Sign-in', desc: 'Sign in with an emailed link or 6-digit code instead of a password' },
                   ] as const).map(({ name, label, desc }) => (
                     <FieldRow key={name} label={label} hint={desc}>
                       <div className="flex items-center gap-2">
@@ -479,6 +727,15 @@ export function SettingsPage() {
                           <span className="text-[10px] text-muted-foreground shrink-0">days</span>
                         </div>
                       </FieldRow>
+                      <div className="px-3 py-1.5 bg-muted/30 border-y">
+                        <p className="text-[10px] font-semibold uppercase tracking-wide text-muted-foreground">Two-Factor Authentication</p>
+                      </div>
+                      <FieldRow label="Require for Admins" hint="Admins must enroll before using the dashboard">
+                        <Switch
+                          checked={watchSec('requireAdminTwoFactor')}
+                          onCheckedChange={(v) => setSec('requireAdminTwoFactor', v, { shouldDirty: true })}
+                        />
+                      </FieldRow>
                     </div>
                   </div>
                   <div className="px-3 py-2 border-t bg-muted/20 flex items-center justify-between">
@@ -489,9 +746,172 @@ export function SettingsPage() {
                   </div>
                 </form>
               )}
+
+              {/* SLA Tab */}
+              {saTab === 'sla' && (
+                <form onSubmit={hsSla((d) => updateSla.mutate(d))}>
+                  <FieldRow label="First Response" hint="Minutes until a new conversation gets a reply">
+                    <div className="flex items-center gap-2">
+                      <Input type="number" min={1} className="h-8 text-sm w-24" {...regSla('firstResponseMinutes', { valueAsNumber: true })} />
+                      <span className="text-[10px] text-muted-foreground shrink-0">minutes</span>
+                    </div>
+                  </FieldRow>
+                  <FieldRow label="Next Response" hint="Minutes to answer each follow-up">
+                    <div className="flex items-center gap-2">
+                      <Input type="number" min={1} className="h-8 text-sm w-24" {...regSla('nextResponseMinutes', { valueAsNumber: true })} />
+                      <span className="text-[10px] text-muted-foreground shrink-0">minutes</span>
+                    </div>
+                  </FieldRow>
+                  <FieldRow label="At-Risk Warning" hint="Share of the target elapsed before flagging">
+                    <div className="flex items-center gap-2">
+                      <Input type="number" min={1} max={100} className="h-8 text-sm w-24" {...regSla('warningPercent', { valueAsNumber: true })} />
+                      <span className="text-[10px] text-muted-foreground shrink-0">%</span>
+                    </div>
+                  </FieldRow>
+                  <div className="px-3 py-2 border-t bg-muted/20 flex items-center justify-between">
+                    <SaveIndicator section="sla" />
+                    <Button type="submit" size="sm" disabled={sSla || updateSla.isPending}>
+                      {(sSla || updateSla.isPending) && <LeafLogo className="h-3.5 w-3.5 animate-spin mr-1.5" />}Save SLA
+                    </Button>
+                  </div>
+                </form>
+              )}
+
+              {/* Routing Tab */}
+              {saTab === 'routing' && (
+                <div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 divide-y md:divide-y-0 md:divide-x">
+                    <div>
+                      <FieldRow label="Auto-assign" hint="Route new conversations to an admin">
+                        <Switch checked={routingDraft.enabled} onCheckedChange={(enabled) => setRoutingDraft((d) => ({ ...d, enabled }))} />
+                      </FieldRow>
+                      <FieldRow label="Available Only" hint="Skip admins who are offline">
+                        <Switch checked={routingDraft.onlyAvailable} onCheckedChange={(onlyAvailable) => setRoutingDraft((d) => ({ ...d, onlyAvailable }))} />
+                      </FieldRow>
+                      <FieldRow label="Fallback" hint="When no rule matches">
+                        <Select value={routingDraft.defaultStrategy} onValueChange={(v) => setRoutingDraft((d) => ({ ...d, defaultStrategy: v as RoutingStrategy }))}>
+                          <SelectTrigger className="h-8 text-sm w-full sm:w-48"><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            {ROUTING_STRATEGIES.map((s) => <SelectItem key={s.value} value={s.value}>{s.label}</SelectItem>)}
+                          </SelectContent>
+                        </Select>
+                        <p className="text-[10px] text-muted-foreground mt-1">{ROUTING_STRATEGIES.find((s) => s.value === routingDraft.defaultStrategy)?.description}</p>
+                      </FieldRow>
+                    </div>
+                    <div>
+                      <div className="px-3 py-1.5 bg-muted/30 border-b">
+                        <p className="text-[10px] font-semibold uppercase tracking-wide text-muted-foreground">Team Availability</p>
+                      </div>
+                      <div className="flex flex-wrap gap-1.5 p-3 border-b">
+                        {routingAdmins.length === 0 && <p className="text-xs text-muted-foreground">No admins yet</p>}
+                        {routingAdmins.map((admin) => (
+                          <span key={admin.id} className="flex items-center gap-1.5 rounded-full bg-muted/60 px-2 py-0.5 text-[11px]">
+                            <span className={`h-1.5 w-1.5 rounded-full ${admin.available ? 'bg-green-500' : 'bg-muted-foreground/40'}`} />
+                            {admin.name}
+                          </span>
+                        ))}
+                      </div>
+                      <div className="px-3 py-1.5 bg-muted/30 border-b">
+                        <p className="text-[10px] font-semibold uppercase tracking-wide text-muted-foreground">Recent Automatic Assignments</p>
+                      </div>
+                      <div className="max-h-40 overflow-y-auto">
+                        {(autoAssignData?.logs ?? []).length === 0 ? (
+                          <p className="px-3 py-3 text-xs text-muted-foreground">None yet</p>
+                        ) : autoAssignData?.logs.map((log) => (
+                          <div key={log.id} className="flex items-center justify-between gap-3 px-3 py-1.5 border-b last:border-0">
+                            <p className="text-xs truncate">{log.details ?? log.entityId}</p>
+                            <span className="text-[10px] text-muted-foreground shrink-0">{formatRelativeTime(log.createdAt)}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="px-3 py-1.5 bg-muted/30 border-y flex items-center justify-between">
+                    <p className="text-[10px] font-semibold uppercase tracking-wide text-muted-foreground">Rules · first match wins</p>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 text-xs gap-1"
+                      disabled={routingDraft.rules.length >= MAX_ROUTING_RULES}
+                      onClick={() => setRoutingDraft((d) => ({ ...d, rules: [...d.rules, createRoutingRule()] }))}
+                    >
+                      <Plus className="h-3 w-3" />Add Rule
+                    </Button>
+                  </div>
+                  <div className="p-3 space-y-2">
+                    {routingDraft.rules.length === 0 && (
+                      <p className="text-xs text-muted-foreground text-center py-2">No rules — every conversation uses the fallback strategy</p>
+                    )}
+                    {routingDraft.rules.map((rule, i) => (
+                      <RoutingRuleCard
+                        key={rule.id}
+                        rule={rule}
+                        index={i}
+                        total={routingDraft.rules.length}
+                        subsidiaries={configData?.subsidiaries ?? []}
+                        admins={routingAdmins}
+                        onChange={(next) => updateRule(i, next)}
+                        onMove={(direction) => moveRule(i, direction)}
+                        onRemove={() => setRoutingDraft((d) => ({ ...d, rules: d.rules.filter((r) => r.id !== rule.id) }))}
+                      />
+                    ))}
+                  </div>
+                  <div className="px-3 py-2 border-t bg-muted/20 flex items-center justify-between">
+                    <SaveIndicator section="routing" />
+                    <Button size="sm" disabled={updateRouting.isPending} onClick={() => updateRouting.mutate(routingDraft)}>
+                      {updateRouting.isPending && <LeafLogo className="h-3.5 w-3.5 animate-spin mr-1.5" />}Save Routing
+                    </Button>
+                  </div>
+                </div>
+              )}
             </div>
           )}
 
+          {/* ── Passkeys ── */}
+          <div className="rounded-xl border bg-card overflow-hidden mb-4">
+            <SectionHeader
+              icon={Fingerprint}
+              title="Passkeys"
+              action={isPasskeySupported() && newPasskeyName === null ? (
+                <Button variant="ghost" size="sm" className="h-6 text-xs gap-1" onClick={() => setNewPasskeyName(`Passkey ${passkeyList.length + 1}`)}>
+                  <Plus className="h-3 w-3" />Add passkey
+                </Button>
+              ) : undefined}
+            />
+            {newPasskeyName !== null && (
+              <form onSubmit={(e) => { e.preventDefault(); addPasskey() }} className="flex items-center gap-2 px-3 py-2 border-b bg-muted/20">
+                <Input
+                  autoFocus
+                  value={newPasskeyName}
+                  onChange={(e) => setNewPasskeyName(e.target.value)}
+                  placeholder="Name, e.g. Work laptop"
+                  maxLength={60}
+                  className="h-8 text-sm"
+                />
+                <Button type="submit" size="sm" className="shrink-0" disabled={!newPasskeyName.trim() || registerPasskey.isPending}>
+                  {registerPasskey.isPending && <LeafLogo className="h-3.5 w-3.5 animate-spin mr-1.5" />}Continue
+                </Button>
+                <Button type="button" variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={() => setNewPasskeyName(null)} aria-label="Cancel">
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              </form>
+            )}
+            <div className="divide-y">
+              {passkeysLoading ? (
+                <div className="p-3">
+                  <div className="h-8 w-48 rounded bg-muted animate-pulse" />
+                </div>
+              ) : passkeyList.length === 0 ? (
+                <div className="p-4 text-center text-sm text-muted-foreground">
+                  {isPasskeySupported() ? 'Sign in with your fingerprint, face or device PIN instead of a password' : 'Passkeys aren\'t supported in this browser'}
+                </div>
+              ) : (
+                passkeyList.map((passkey) => <PasskeyRow key={passkey.id} passkey={passkey} />)
+              )}
+            </div>
+          </div>
+
           {/* ── Sessions ── */}
           <div className="rounded-xl border bg-card overflow-hidden">
             <SectionHeader
@@ -543,8 +963,53 @@ export function SettingsPage() {
             </div>
           </div>
 
+          {/* ── Your Data ── */}
+          <div className="rounded-xl border bg-card overflow-hidden mt-4">
+            <SectionHeader icon={FileArchive} title="Your Data" />
+            <FieldRow label="Download my data" hint="Profile, sessions, chat history, uploads and announcement activity">
+              <div className="flex items-center gap-3">
+                <Button size="sm" variant="outline" className="gap-1.5 shrink-0" disabled={dataExport.isExporting} onClick={dataExport.start}>
+                  {dataExport.isExporting ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Download className="h-3.5 w-3.5" />}
+                  {dataExport.isExporting ? 'Preparing…' : 'Download ZIP'}
+                </Button>
+                {dataExport.progress && (
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <p className="text-[10px] text-muted-foreground truncate">
+                      {DATA_EXPORT_STEPS[exportStepIndex]?.label}{dataExport.progress.detail && ` · ${dataExport.progress.detail}`}
+                    </p>
+                    <div className="h-1 rounded-full bg-muted overflow-hidden">
+                      <div className="h-full bg-primary transition-all" style={{ width: `${((exportStepIndex + 1) / DATA_EXPORT_STEPS.length) * 100}%` }} />
+                    </div>
+                  </div>
+                )}
+              </div>
+            </FieldRow>
+            {user?.role === 'USER' && (
+              <FieldRow label="Delete account" hint={`Permanently removed after a ${deletionGraceDays}-day grace period`}>
+                {user.deletionScheduledAt ? (
+                  <div className="flex items-center gap-3">
+                    <p className="flex-1 min-w-0 text-xs text-destructive">
+                      Scheduled for {format(parseTimestamp(user.deletionScheduledAt), 'MMM d, yyyy')}
+                    </p>
+                    <Button size="sm" variant="outline" className="gap-1.5 shrink-0" disabled={cancelDeletion.isPending} onClick={() => cancelDeletion.mutate()}>
+                      {cancelDeletion.isPending && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+                      Cancel deletion
+                    </Button>
+                  </div>
+                ) : (
+                  <Button size="sm" variant="outline" className="gap-1.5 text-destructive hover:text-destructive hover:bg-destructive/10" onClick={() => setDeleteAccountOpen(true)}>
+                    <UserX className="h-3.5 w-3.5" />Delete my account
+                  </Button>
+                )}
+              </FieldRow>
+            )}
+          </div>
+
         </div>
       </div>
+      <TwoFactorSetupDialog enrollment={setupTwoFactor.data ?? null} onClose={() => setupTwoFactor.reset()} />
+      <TwoFactorConfirmDialog mode={twoFactorMode} onClose={() => setTwoFactorMode(null)} />
+      <DeleteAccountDialog open={deleteAccountOpen} onClose={() => setDeleteAccountOpen(false)} graceDays={deletionGraceDays} />
     </div>
   )
 }
\ No newline at end of file
@@ -4,6 +4,7 @@ import { useNavigate } from 'react-router-dom'
 import { Button } from '@/components/ui/button'
 import { Separator } from '@/components/ui/separator'
 import { AuthLayout } from '@/components/layout/AuthLayout'
+import { AccountDeletionBanner } from '@/components/layout/AccountDeletionBanner'
 import { useAuthStore } from '@/stores/authStore'
 
 export function StatusPage() {
@@ -62,6 +63,7 @@ export function StatusPage() {
 
   return (
     <AuthLayout>
+      <AccountDeletionBanner className="w-full max-w-sm mx-auto mb-4" />
       <div className="overflow-hidden rounded-2xl border bg-card shadow-sm w-full max-w-sm mx-auto">
         <div className={`h-1.5 ${config.accentBar}`} />
         <div className="flex flex-col items-center gap-4 px-6 py-6">
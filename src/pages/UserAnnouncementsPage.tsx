@@ -10,6 +10,7 @@ import { Skeleton } from '@/components/ui/skeleton'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { cn, formatRelativeTime } from '@/lib/utils'
 import { EmptyState } from '@/components/ui/empty-state'
+import { Markdown } from '@/components/ui/markdown'
 import {
   useAnnouncements, useVoteAnnouncement,
 } from '@/hooks/useAnnouncements'
@@ -108,12 +109,14 @@ function AnnouncementCard({
 
             {/* Content */}
             <div className="mt-1.5">
-              <p className={cn(
-                'text-sm text-muted-foreground whitespace-pre-wrap leading-relaxed',
-                !expanded && isLong && 'line-clamp-3',
-              )}>
-                {announcement.content}
-              </p>
+              <Markdown
+                content={announcement.content}
+                compact={!expanded}
+                className={cn(
+                  'text-sm text-muted-foreground leading-relaxed',
+                  !expanded && isLong && 'line-clamp-3',
+                )}
+              />
               {isLong && (
                 <Button
                   variant="ghost"
@@ -169,6 +172,7 @@ function AnnouncementCard({
                 <span className="flex items-center gap-1">
                   <Clock className="h-3 w-3" />
                   {formatRelativeTime(announcement.createdAt)}
+                  {announcement.editedAt && <span title={`Edited ${formatRelativeTime(announcement.editedAt)}`}>· edited</span>}
                 </span>
                 <button
                   onClick={() => onView(announcement.id)}
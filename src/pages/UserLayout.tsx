@@ -4,6 +4,7 @@ import {
   ChevronLeft, ChevronRight, Sparkles,
 } from 'lucide-react'
 import { AppHeader } from '@/components/layout/AppHeader'
+import { AcknowledgementModal } from '@/components/layout/AcknowledgementModal'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import {
@@ -201,6 +202,7 @@ export function UserLayout() {
           </div>
         </div>
       </div>
+      <AcknowledgementModal />
     </TooltipProvider>
   )
 }
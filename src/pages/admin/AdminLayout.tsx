@@ -1,10 +1,11 @@
-import { Outlet, useNavigate, useLocation } from 'react-router-dom'
+import { Navigate, Outlet, useNavigate, useLocation } from 'react-router-dom'
 import {
   Users, MessageSquare, Shield, ScrollText, Megaphone,
   LayoutDashboard, ChevronLeft, ChevronRight, MessageSquareLock, MessageCircle,
-  UserCheck, Sparkles, Settings, Home,
+  UserCheck, Sparkles, Settings, Home, MessageSquareQuote, ShieldAlert,
 } from 'lucide-react'
 import { AppHeader } from '@/components/layout/AppHeader'
+import { AcknowledgementModal } from '@/components/layout/AcknowledgementModal'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet'
@@ -38,6 +39,7 @@ const NAV_ITEMS: NavItem[] = [
   { path: '/admin/dm', icon: MessageCircle, label: 'Direct Messages', exact: false, showBadge: 'dm', group: 'main' },
   { path: '/admin/users', icon: Users, label: 'Users', exact: false, showBadge: 'users', group: 'manage' },
   { path: '/admin/announcements', icon: Megaphone, label: 'Announcements', exact: false, group: 'manage' },
+  { path: '/admin/saved-replies', icon: MessageSquareQuote, label: 'Saved Replies', exact: false, group: 'manage' },
   { path: '/admin/admins', icon: Shield, label: 'Admins', exact: false, minRole: 'SUPER_ADMIN', group: 'manage' },
   { path: '/admin/audit', icon: ScrollText, label: 'Audit Logs', exact: false, group: 'manage' },
   { path: '/admin/settings', icon: Settings, label: 'Settings', exact: true, group: 'manage' },
@@ -156,6 +158,9 @@ export function AdminLayout() {
     return () => { socket.off('dm:message', onDM) }
   }, [location.pathname])
 
+  // Admin roles can't use the dashboard until they enroll when the policy requires 2FA
+  const twoFactorSetupRequired = !!configData?.twoFactor?.requiredForAdmins && !!user && !user.twoFactorEnabled
+
   const pendingUsers = statsData?.stats?.users?.pending ?? 0
   const { unreadConversations, assignedCount } = useMemo(() => {
     const convs = convData?.pages?.flatMap(p => p.conversations) ?? []
@@ -291,7 +296,15 @@ export function AdminLayout() {
 
           {/* Main Content */}
           <main className="flex-1 min-h-0 overflow-hidden flex flex-col pb-[calc(60px+env(safe-area-inset-bottom))] sm:pb-0">
-            <Outlet />
+            {twoFactorSetupRequired && (
+              <div className="flex items-center gap-2 border-b bg-amber-50 dark:bg-amber-950/30 px-4 py-2 text-xs text-amber-800 dark:text-amber-300 shrink-0">
+                <ShieldAlert className="h-3.5 w-3.5 shrink-0" />
+                Two-factor authentication is required for admin accounts. Set it up below to continue.
+              </div>
+            )}
+            {twoFactorSetupRequired && location.pathname !== '/admin/settings'
+              ? <Navigate to="/admin/settings" replace />
+              : <Outlet />}
           </main>
 
           {/* Mobile Bottom Nav */}
@@ -368,6 +381,8 @@ export function AdminLayout() {
           </div>
         </div>
       </div>
+      {/* 2FA enrolment comes first; the modal would block the settings page */}
+      {!twoFactorSetupRequired && <AcknowledgementModal />}
     </TooltipProvider>
   )
 }
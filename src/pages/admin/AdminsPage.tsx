@@ -3,7 +3,7 @@ import { format } from 'date-fns'
 import { cn, formatRelativeTime, getInitials, parseTimestamp } from '@/lib/utils'
 import {
   Shield, Plus, UserMinus, UserCheck, Mail, Calendar, Eye,
-  ShieldCheck, UserCog, MoreVertical, MessageCircle, Clock, Users,
+  ShieldCheck, ShieldOff, UserCog, MoreVertical, MessageCircle, Clock, Users,
 } from 'lucide-react'
 import { useNavigate } from 'react-router-dom'
 import { Button } from '@/components/ui/button'
@@ -27,6 +27,16 @@ import {
   DialogFooter,
   DialogDescription,
 } from '@/components/ui/dialog'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -34,6 +44,7 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
 import { useAdminList, useCreateAdmin } from '@/hooks/useUsers'
+import { useResetTwoFactor } from '@/hooks/useTwoFactor'
 import { useQueryClient } from '@tanstack/react-query'
 import type { Conversation, User } from '@/lib/schemas'
 import { adminAdmins } from '@/lib/api'
@@ -63,6 +74,8 @@ function AdminDetailSheet({
   isPending: boolean
 }) {
   const queryClient = useQueryClient()
+  const resetTwoFactor = useResetTwoFactor()
+  const [confirmReset, setConfirmReset] = useState(false)
   if (!admin) return null
 
   const isSuperAdmin = admin.role === 'SUPER_ADMIN'
@@ -140,6 +153,11 @@ function AdminDetailSheet({
                 {isSuspended ? 'Suspended' : 'Active'}
               </Badge>
             </div>
+            <div className="flex items-center gap-3 px-5 py-3 text-sm">
+              <ShieldCheck className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+              <span className="text-xs text-muted-foreground w-20 shrink-0">2FA</span>
+              <span className="text-xs">{admin.twoFactorEnabled ? 'Enabled' : 'Not set up'}</span>
+            </div>
           </div>
 
           {/* Assigned users */}
@@ -205,11 +223,43 @@ function AdminDetailSheet({
                     </Button>
                   )
                 )}
+                {canManage && admin.twoFactorEnabled && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full justify-start gap-2 rounded-xl"
+                    disabled={resetTwoFactor.isPending}
+                    onClick={() => setConfirmReset(true)}
+                  >
+                    {resetTwoFactor.isPending ? <LeafLogo className="h-3.5 w-3.5 animate-spin" /> : <ShieldOff className="h-3.5 w-3.5" />}
+                    Reset 2FA
+                  </Button>
+                )}
               </div>
             </>
           )}
         </div>
       </SheetContent>
+
+      <AlertDialog open={confirmReset} onOpenChange={setConfirmReset}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reset two-factor authentication</AlertDialogTitle>
+            <AlertDialogDescription>
+              {admin.name} will be able to sign in with only their password until they enroll again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => resetTwoFactor.mutate(admin.id, { onSuccess: onClose })}
+            >
+              Reset 2FA
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Sheet>
   )
 }
@@ -2,7 +2,7 @@ import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
 import { useNavigate, useParams } from 'react-router-dom'
 import {
   Megaphone, ArrowLeft, Image, X,
-  Users, Calendar, Eye, EyeOff, Upload,
+  Users, Calendar, Clock, Repeat, Eye, EyeOff, Upload, ShieldAlert,
   Bold, Italic, List, ListOrdered, Link2, Crop, Sparkles,
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
@@ -14,15 +14,21 @@ import { Switch } from '@/components/ui/switch'
 import { Separator } from '@/components/ui/separator'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Tooltip, TooltipContent, TooltipTrigger, TooltipProvider } from '@/components/ui/tooltip'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { cn, parseTimestamp } from '@/lib/utils'
 import { useAnnouncement, useCreateAnnouncement, useUpdateAnnouncement } from '@/hooks/useAnnouncements'
 import { media as mediaApi } from '@/lib/api'
-import { format } from 'date-fns'
-import type { AnnouncementType, AnnouncementTemplate } from '@/lib/schemas'
+import { endOfDay, format } from 'date-fns'
+import type { AnnouncementType, AnnouncementTemplate, AnnouncementRecurrenceFrequency, AudienceSegmentRules } from '@/lib/schemas'
+import { RECURRENCE_OPTIONS, recurrenceLabel } from '@/lib/announcementSchedule'
+import { isEmptySegment, segmentSummary } from '@/lib/audienceSegment'
+import { AudienceSegmentBuilder } from '@/components/admin/AudienceSegmentBuilder'
+import { useAppConfig } from '@/hooks/useConfig'
 import { toast } from 'sonner'
 import { ANNOUNCEMENT_TYPE_CONFIG as TYPE_CONFIG } from '@/lib/constants'
 import { ImageEditor } from '@/components/ui/image-editor'
 import { LeafLogo } from '@/components/ui/LeafLogo'
+import { Markdown } from '@/components/ui/markdown'
 
 const TEMPLATES: { value: AnnouncementTemplate; label: string; description: string; icon: string }[] = [
   { value: 'DEFAULT', label: 'Default', description: 'Icon + bordered card', icon: '📋' },
@@ -86,7 +92,7 @@ function TemplatePreview({ type, template, title, content, mediaUrl }: {
           <Icon className={cn('h-5 w-5 shrink-0', cfg.color)} />
           <div className="flex-1 min-w-0">
             <p className={cn('text-sm font-bold', cfg.color)}>{displayTitle}</p>
-            {content && <p className="text-xs text-muted-foreground mt-0.5 line-clamp-2">{displayContent}</p>}
+            {content && <Markdown content={displayContent} compact className="text-xs text-muted-foreground mt-0.5 line-clamp-2" />}
           </div>
           <Badge variant="outline" className={cn('shrink-0 text-[10px]', cfg.color, cfg.border)}>{cfg.label}</Badge>
         </div>
@@ -108,7 +114,7 @@ function TemplatePreview({ type, template, title, content, mediaUrl }: {
               <Badge variant="outline" className={cn('text-[10px] mt-0.5', cfg.color, cfg.border)}>{cfg.label}</Badge>
             </div>
           </div>
-          <p className="text-sm text-muted-foreground leading-relaxed line-clamp-4">{displayContent}</p>
+          <Markdown content={displayContent} compact className="text-sm text-muted-foreground leading-relaxed line-clamp-4" />
         </div>
       </div>
     )
@@ -121,7 +127,7 @@ function TemplatePreview({ type, template, title, content, mediaUrl }: {
         <div className="border-l-2 border-muted-foreground/30 pl-4 py-2">
           <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">{cfg.label}</p>
           <p className="text-sm font-medium mt-1">{displayTitle}</p>
-          {content && <p className="text-xs text-muted-foreground mt-0.5 line-clamp-3">{displayContent}</p>}
+          {content && <Markdown content={displayContent} compact className="text-xs text-muted-foreground mt-0.5 line-clamp-3" />}
         </div>
       </div>
     )
@@ -140,7 +146,7 @@ function TemplatePreview({ type, template, title, content, mediaUrl }: {
             <p className="text-sm font-semibold">{displayTitle}</p>
             <Badge variant="outline" className={cn('text-[10px]', cfg.color, cfg.border)}>{cfg.label}</Badge>
           </div>
-          <p className="text-sm text-muted-foreground mt-1 leading-relaxed line-clamp-4">{displayContent}</p>
+          <Markdown content={displayContent} compact className="text-sm text-muted-foreground mt-1 leading-relaxed line-clamp-4" />
         </div>
       </div>
     </div>
@@ -158,6 +164,7 @@ export function AnnouncementEditorPage() {
 
   const createAnnouncement = useCreateAnnouncement()
   const updateAnnouncement = useUpdateAnnouncement()
+  const { data: appConfig } = useAppConfig()
 
   const [title, setTitle] = useState('')
   const [content, setContent] = useState('')
@@ -168,6 +175,12 @@ export function AnnouncementEditorPage() {
   const [targetAdmin, setTargetAdmin] = useState(false)
   const [targetSuper, setTargetSuper] = useState(false)
   const [expiresAt, setExpiresAt] = useState('')
+  const [publishAt, setPublishAt] = useState('')
+  const [repeat, setRepeat] = useState<AnnouncementRecurrenceFrequency | 'NONE'>('NONE')
+  const [repeatEndsAt, setRepeatEndsAt] = useState('')
+  const [requiresAck, setRequiresAck] = useState(false)
+  const [segmentRules, setSegmentRules] = useState<AudienceSegmentRules>({})
+  const [segmentId, setSegmentId] = useState<string | null>(null)
   const [isActive, setIsActive] = useState(true)
   const [mediaPreview, setMediaPreview] = useState<{ id: string; url: string; filename: string } | null>(null)
   const [uploading, setUploading] = useState(false)
@@ -187,6 +200,11 @@ export function AnnouncementEditorPage() {
       setType(existing.type)
       setTemplate(existing.template)
       setIsActive(existing.isActive)
+      setRequiresAck(!!existing.requiresAcknowledgement)
+      if (existing.segment) {
+        setSegmentRules(existing.segment.rules)
+        setSegmentId(existing.segment.id)
+      }
       const roles = existing.targetRoles
       if (!roles || roles.length === 0) {
         setTargetAll(true)
@@ -200,6 +218,13 @@ export function AnnouncementEditorPage() {
         const d = new Date(parseTimestamp(existing.expiresAt))
         setExpiresAt(format(d, "yyyy-MM-dd'T'HH:mm"))
       }
+      if (existing.publishAt) {
+        setPublishAt(format(parseTimestamp(existing.publishAt), "yyyy-MM-dd'T'HH:mm"))
+      }
+      if (existing.recurrence) {
+        setRepeat(existing.recurrence.frequency)
+        setRepeatEndsAt(existing.recurrence.endsAt ? format(parseTimestamp(existing.recurrence.endsAt), 'yyyy-MM-dd') : '')
+      }
       if (existing.mediaAttachment) {
         setMediaPreview({ id: existing.mediaAttachment.id, url: existing.mediaAttachment.cdnUrl, filename: existing.mediaAttachment.filename })
       }
@@ -248,14 +273,17 @@ export function AnnouncementEditorPage() {
     await handleFileUpload(file)
   }
 
-  const handlePublish = () => {
-    const targetRoles: string[] = []
+  const targetRoles = useMemo(() => {
+    const roles: string[] = []
     if (!targetAll) {
-      if (targetUser) targetRoles.push('USER')
-      if (targetAdmin) targetRoles.push('ADMIN')
-      if (targetSuper) targetRoles.push('SUPER_ADMIN')
+      if (targetUser) roles.push('USER')
+      if (targetAdmin) roles.push('ADMIN')
+      if (targetSuper) roles.push('SUPER_ADMIN')
     }
+    return roles
+  }, [targetAll, targetUser, targetAdmin, targetSuper])
 
+  const handlePublish = () => {
     const payload = {
       title,
       content,
@@ -264,11 +292,26 @@ export function AnnouncementEditorPage() {
       mediaId: mediaPreview?.id,
       targetRoles: targetRoles.length > 0 ? targetRoles : undefined,
       expiresAt: expiresAt ? new Date(expiresAt).toISOString() : undefined,
+      publishAt: publishAt ? new Date(publishAt).toISOString() : undefined,
+      recurrence: repeat !== 'NONE'
+        ? { frequency: repeat, endsAt: repeatEndsAt ? endOfDay(new Date(`${repeatEndsAt}T00:00`)).toISOString() : null }
+        : undefined,
+      // Only IMPORTANT announcements can block the app
+      requiresAcknowledgement: type === 'IMPORTANT' && requiresAck,
+      segment: isEmptySegment(segmentRules) ? undefined : { segmentId: segmentId ?? undefined, rules: segmentRules },
     }
 
     if (isEdit && id) {
       updateAnnouncement.mutate(
-        { id, ...payload, isActive, targetRoles: targetRoles.length > 0 ? targetRoles : null },
+        {
+          id,
+          ...payload,
+          isActive,
+          targetRoles: targetRoles.length > 0 ? targetRoles : null,
+          publishAt: payload.publishAt ?? null,
+          recurrence: payload.recurrence ?? null,
+          segment: payload.segment ?? null,
+        },
         { onSuccess: () => navigate('/admin/announcements') }
       )
     } else {
@@ -277,7 +320,14 @@ export function AnnouncementEditorPage() {
   }
 
   const isPending = createAnnouncement.isPending || updateAnnouncement.isPending
-  const isValid = title.trim().length > 0 && content.trim().length > 0
+  const publishTime = publishAt ? new Date(publishAt).getTime() : null
+  const isScheduled = publishTime !== null && publishTime > Date.now()
+  const scheduleError =
+    publishTime !== null && !isEdit && !isScheduled ? 'Publish time is in the past'
+      : expiresAt && new Date(expiresAt).getTime() <= (publishTime ?? Date.now()) ? 'Expiry must be after the publish time'
+        : repeat !== 'NONE' && repeatEndsAt && endOfDay(new Date(`${repeatEndsAt}T00:00`)).getTime() < (publishTime ?? Date.now()) ? 'Repeat end date must be after the first publish'
+          : null
+  const isValid = title.trim().length > 0 && content.trim().length > 0 && !scheduleError
 
   const wordCount = useMemo(() => { const t = content.trim(); return t ? t.split(/\s+/).length : 0 }, [content])
 
@@ -321,8 +371,8 @@ export function AnnouncementEditorPage() {
               {showPreview ? 'Hide' : 'Preview'}
             </Button>
             <Button size="sm" className="gap-1.5 rounded-xl px-5" onClick={handlePublish} disabled={!isValid || isPending}>
-              {isPending ? <LeafLogo className="h-4 w-4 animate-spin" /> : <Sparkles className="h-4 w-4" />}
-              {isEdit ? 'Save' : 'Publish'}
+              {isPending ? <LeafLogo className="h-4 w-4 animate-spin" /> : isScheduled ? <Clock className="h-4 w-4" /> : <Sparkles className="h-4 w-4" />}
+              {isEdit ? 'Save' : isScheduled ? 'Schedule' : 'Publish'}
             </Button>
           </div>
         </div>
@@ -526,6 +576,59 @@ Use bullet points and numbered lists to organize information."
               {/* Settings Tab */}
               <TabsContent value="settings" className="flex-1 overflow-y-auto mt-0 p-5 space-y-5">
                 {/* Scheduling */}
+                <div className="space-y-2">
+                  <Label className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground flex items-center gap-1.5">
+                    <Clock className="h-3.5 w-3.5" />
+                    Publish At
+                    <span className="font-normal text-muted-foreground/70">(optional)</span>
+                  </Label>
+                  <Input
+                    type="datetime-local"
+                    value={publishAt}
+                    min={format(new Date(), "yyyy-MM-dd'T'HH:mm")}
+                    onChange={e => setPublishAt(e.target.value)}
+                    className="rounded-xl max-w-xs"
+                  />
+                  <p className="text-[10px] text-muted-foreground">
+                    {isScheduled ? `Goes live ${format(new Date(publishAt), "MMM d, yyyy 'at' HH:mm")}` : 'Leave empty to publish immediately'}
+                  </p>
+                  {publishAt && (
+                    <button className="text-[10px] text-destructive hover:underline" onClick={() => setPublishAt('')}>Publish immediately</button>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground flex items-center gap-1.5">
+                    <Repeat className="h-3.5 w-3.5" />
+                    Repeat
+                  </Label>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Select value={repeat} onValueChange={v => setRepeat(v as AnnouncementRecurrenceFrequency | 'NONE')}>
+                      <SelectTrigger className="rounded-xl w-36"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="NONE">Does not repeat</SelectItem>
+                        {RECURRENCE_OPTIONS.map(o => <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    {repeat !== 'NONE' && (
+                      <>
+                        <span className="text-xs text-muted-foreground">until</span>
+                        <Input
+                          type="date"
+                          value={repeatEndsAt}
+                          onChange={e => setRepeatEndsAt(e.target.value)}
+                          className="rounded-xl w-40"
+                        />
+                      </>
+                    )}
+                  </div>
+                  {repeat !== 'NONE' && (
+                    <p className="text-[10px] text-muted-foreground">
+                      Re-published {repeat.toLowerCase()} from the publish time{repeatEndsAt ? '' : ' until deactivated'}. Each occurrence notifies the audience again.
+                    </p>
+                  )}
+                </div>
+
                 <div className="space-y-2">
                   <Label className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground flex items-center gap-1.5">
                     <Calendar className="h-3.5 w-3.5" />
@@ -541,6 +644,30 @@ Use bullet points and numbered lists to organize information."
                   {expiresAt && (
                     <button className="text-[10px] text-destructive hover:underline" onClick={() => setExpiresAt('')}>Clear expiry</button>
                   )}
+                  {scheduleError && <p className="text-[10px] text-destructive">{scheduleError}</p>}
+                </div>
+
+                {/* Acknowledgement */}
+                <div className="space-y-2">
+                  <Label className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground flex items-center gap-1.5">
+                    <ShieldAlert className="h-3.5 w-3.5" />
+                    Acknowledgement
+                  </Label>
+                  <label className={cn(
+                    'flex items-center gap-3 rounded-xl border-2 p-4 transition-all',
+                    type !== 'IMPORTANT' ? 'border-muted opacity-60 cursor-not-allowed'
+                      : requiresAck ? 'border-red-300 bg-red-50 dark:border-red-800 dark:bg-red-900/15 cursor-pointer' : 'border-muted hover:bg-accent/30 cursor-pointer',
+                  )}>
+                    <Switch checked={type === 'IMPORTANT' && requiresAck} onCheckedChange={setRequiresAck} disabled={type !== 'IMPORTANT'} />
+                    <div>
+                      <p className="text-sm font-medium">Requires acknowledgement</p>
+                      <p className="text-[10px] text-muted-foreground">
+                        {type === 'IMPORTANT'
+                          ? 'Targeted users must click "I understand" before they can continue'
+                          : 'Only available for Important announcements'}
+                      </p>
+                    </div>
+                  </label>
                 </div>
 
                 {/* Status (edit only) */}
@@ -598,6 +725,16 @@ Use bullet points and numbered lists to organize information."
                       ))}
                     </div>
                   )}
+                  <div className="space-y-2 pt-1">
+                    <p className="text-xs font-medium">Narrow by segment <span className="font-normal text-muted-foreground">(optional)</span></p>
+                    <AudienceSegmentBuilder
+                      rules={segmentRules}
+                      onRulesChange={setSegmentRules}
+                      segmentId={segmentId}
+                      onSegmentIdChange={setSegmentId}
+                      targetRoles={targetRoles.length > 0 ? targetRoles : null}
+                    />
+                  </div>
                 </div>
               </TabsContent>
             </Tabs>
@@ -637,18 +774,44 @@ Use bullet points and numbered lists to organize information."
                         {targetAll ? 'Everyone' : [targetUser && 'Users', targetAdmin && 'Admins', targetSuper && 'Super'].filter(Boolean).join(', ') || 'None'}
                       </span>
                     </div>
+                    {!isEmptySegment(segmentRules) && (
+                      <div className="flex justify-between gap-3">
+                        <span className="text-muted-foreground shrink-0">Segment</span>
+                        <span className="font-medium text-right">{segmentSummary(segmentRules, appConfig?.subsidiaries).join(' · ')}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between">
                       <span className="text-muted-foreground">Status</span>
-                      <span className={cn('font-medium', isActive ? 'text-green-600' : 'text-muted-foreground')}>
-                        {isActive ? 'Active' : 'Draft'}
+                      <span className={cn('font-medium', isActive ? (isScheduled ? 'text-sky-600' : 'text-green-600') : 'text-muted-foreground')}>
+                        {isActive ? (isScheduled ? 'Scheduled' : 'Active') : 'Draft'}
                       </span>
                     </div>
+                    {isScheduled && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Publishes</span>
+                        <span className="font-medium">{format(new Date(publishAt), 'MMM d, yyyy HH:mm')}</span>
+                      </div>
+                    )}
+                    {repeat !== 'NONE' && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Repeats</span>
+                        <span className="font-medium">
+                          {recurrenceLabel({ frequency: repeat, endsAt: repeatEndsAt ? new Date(`${repeatEndsAt}T00:00`).getTime() : null })}
+                        </span>
+                      </div>
+                    )}
                     {expiresAt && (
                       <div className="flex justify-between">
                         <span className="text-muted-foreground">Expires</span>
                         <span className="font-medium">{format(new Date(expiresAt), 'MMM d, yyyy')}</span>
                       </div>
                     )}
+                    {type === 'IMPORTANT' && requiresAck && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Acknowledgement</span>
+                        <span className="font-medium text-red-600">Required</span>
+                      </div>
+                    )}
                     {mediaPreview && (
                       <div className="flex justify-between">
                         <span className="text-muted-foreground">Media</span>
@@ -4,12 +4,17 @@ import {
   Megaphone, Plus, Trash2,
   ThumbsUp, ThumbsDown, Users, LayoutTemplate, Eye, EyeOff,
   Calendar, Clock, MoreVertical, Pencil, ExternalLink,
+  CalendarClock, Repeat, Send,
 } from 'lucide-react'
+import { format } from 'date-fns'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Skeleton } from '@/components/ui/skeleton'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { Switch } from '@/components/ui/switch'
+import { Markdown } from '@/components/ui/markdown'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { AnnouncementTimeline } from '@/components/admin/AnnouncementTimeline'
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -19,8 +24,9 @@ import {
 import { cn, formatRelativeTime } from '@/lib/utils'
 import { EmptyState } from '@/components/ui/empty-state'
 import {
-  useAnnouncements, useDeleteAnnouncement, useVoteAnnouncement,
+  useAnnouncements, useDeleteAnnouncement, useScheduledAnnouncements, useUpdateAnnouncement, useVoteAnnouncement,
 } from '@/hooks/useAnnouncements'
+import { isScheduled, nextOccurrence, recurrenceLabel } from '@/lib/announcementSchedule'
 import type { AnnouncementTemplate, Announcement } from '@/lib/schemas'
 import { ANNOUNCEMENT_TYPE_CONFIG as TYPE_CONFIG } from '@/lib/constants'
 
@@ -124,9 +130,7 @@ function AnnouncementCard({
             </button>
 
             {/* Content preview */}
-            <p className="text-sm text-muted-foreground mt-1.5 whitespace-pre-wrap leading-relaxed line-clamp-3">
-              {announcement.content}
-            </p>
+            <Markdown content={announcement.content} compact className="text-sm text-muted-foreground mt-1.5 leading-relaxed line-clamp-3" />
 
             {/* Footer */}
             <div className="flex items-start sm:items-center justify-between mt-4 pt-3 border-t gap-2">
@@ -168,7 +172,14 @@ function AnnouncementCard({
                   <span className="flex items-center gap-1 shrink-0">
                     <Calendar className="h-3 w-3" />
                     {formatRelativeTime(announcement.createdAt)}
+                    {announcement.editedAt && <span title={`Edited ${formatRelativeTime(announcement.editedAt)}`}>· edited</span>}
                   </span>
+                  {announcement.recurrence && (
+                    <span className="flex items-center gap-1 shrink-0">
+                      <Repeat className="h-3 w-3" />
+                      {recurrenceLabel(announcement.recurrence)}
+                    </span>
+                  )}
                   {announcement.expiresAt && (
                     <span className="flex items-center gap-1 text-amber-600 shrink-0">
                       <Clock className="h-3 w-3" />
@@ -218,6 +229,79 @@ function AnnouncementCard({
   )
 }
 
+function ScheduledRow({
+  announcement,
+  onEdit,
+  onDelete,
+  onPublishNow,
+}: {
+  announcement: Announcement
+  onEdit: (id: string) => void
+  onDelete: (id: string) => void
+  onPublishNow: (id: string) => void
+}) {
+  const config = TYPE_CONFIG[announcement.type]
+  const Icon = config.icon
+  const next = nextOccurrence(announcement)
+  const pending = isScheduled(announcement)
+
+  return (
+    <div className="group flex items-center gap-3 px-4 py-2.5 border-b border-border/40 hover:bg-accent/30 transition-colors">
+      <div className={cn('flex h-7 w-7 items-center justify-center rounded-lg shrink-0', config.bg)}>
+        <Icon className={cn('h-3.5 w-3.5', config.color)} />
+      </div>
+      <div className="flex-1 min-w-0">
+        <button onClick={() => onEdit(announcement.id)} className="text-sm font-semibold hover:text-primary transition-colors text-left truncate block max-w-full">
+          {announcement.title}
+        </button>
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-0.5 text-[11px] text-muted-foreground">
+          {next && (
+            <span className="flex items-center gap-1 text-sky-700 dark:text-sky-400">
+              <CalendarClock className="h-3 w-3" />
+              {pending ? 'Publishes' : 'Next'} {format(next, "MMM d 'at' HH:mm")}
+            </span>
+          )}
+          {announcement.recurrence && (
+            <span className="flex items-center gap-1">
+              <Repeat className="h-3 w-3" />
+              {recurrenceLabel(announcement.recurrence)}
+            </span>
+          )}
+          {announcement.targetRoles && announcement.targetRoles.length > 0 && (
+            <span className="flex items-center gap-1">
+              <Users className="h-3 w-3" />
+              {announcement.targetRoles.join(', ')}
+            </span>
+          )}
+        </div>
+      </div>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-7 w-7 text-muted-foreground hover:text-foreground shrink-0 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity">
+            <MoreVertical className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem className="gap-2 cursor-pointer" onClick={() => onEdit(announcement.id)}>
+            <Pencil className="h-4 w-4" /> Edit
+          </DropdownMenuItem>
+          {pending && (
+            <DropdownMenuItem className="gap-2 cursor-pointer" onClick={() => onPublishNow(announcement.id)}>
+              <Send className="h-4 w-4" /> Publish now
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem
+            className="gap-2 text-destructive focus:text-destructive cursor-pointer"
+            onClick={() => onDelete(announcement.id)}
+          >
+            <Trash2 className="h-4 w-4" /> Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  )
+}
+
 function getGradient(type: string) {
   switch (type) {
     case 'INFO': return 'hsl(217, 91%, 60%), hsl(217, 91%, 75%)'
@@ -238,15 +322,26 @@ export function AnnouncementsPage() {
     try { sessionStorage.setItem('announcements:showInactive', String(v)) } catch { /* noop */ }
   }
 
+  const [view, setView] = useState<'list' | 'timeline'>('list')
+
   const { data, isLoading } = useAnnouncements(showInactive)
+  const { data: scheduledData } = useScheduledAnnouncements()
 
   const deleteAnnouncement = useDeleteAnnouncement()
+  const updateAnnouncement = useUpdateAnnouncement()
   const voteAnnouncement = useVoteAnnouncement()
 
-  const items = data?.announcements ?? []
+  // Not-yet-live items only appear under "Scheduled"; recurring ones that already went out stay
+  // in the main list as well
+  const items = useMemo(() => (data?.announcements ?? []).filter(a => !isScheduled(a)), [data])
+  const scheduled = useMemo(() => {
+    const list = (scheduledData?.announcements ?? []).filter(a => a.isActive && nextOccurrence(a))
+    return list.sort((a, b) => nextOccurrence(a)!.getTime() - nextOccurrence(b)!.getTime())
+  }, [scheduledData])
   const activeCount = useMemo(() => items.filter(a => a.isActive).length, [items])
 
   const handleDelete = (id: string) => deleteAnnouncement.mutate(id)
+  const handlePublishNow = (id: string) => updateAnnouncement.mutate({ id, publishAt: null })
   const handleVote = (id: string, vote: 'UP' | 'DOWN') => voteAnnouncement.mutate({ id, vote })
   const handleEdit = (id: string) => navigate(`/admin/announcements/${id}/edit`)
   const handleView = (id: string) => navigate(`/admin/announcements/${id}`)
@@ -280,10 +375,20 @@ export function AnnouncementsPage() {
               <h2 className="text-base font-bold tracking-tight">Announcements</h2>
               <p className="text-[11px] text-muted-foreground">
                 {activeCount} active &middot; {items.length} total
+                {scheduled.length > 0 && <> &middot; {scheduled.length} scheduled</>}
               </p>
             </div>
           </div>
           <div className="flex items-center gap-3">
+            <Tabs value={view} onValueChange={v => setView(v as 'list' | 'timeline')}>
+              <TabsList className="h-8">
+                <TabsTrigger value="list" className="text-xs px-3">List</TabsTrigger>
+                <TabsTrigger value="timeline" className="text-xs px-3 gap-1">
+                  <CalendarClock className="h-3.5 w-3.5" />
+                  Timeline
+                </TabsTrigger>
+              </TabsList>
+            </Tabs>
             <label className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer">
               <Switch checked={showInactive} onCheckedChange={handleShowInactiveChange} className="scale-75" />
               <span className="flex items-center gap-1">
@@ -300,22 +405,44 @@ export function AnnouncementsPage() {
       </div>
 
       <ScrollArea className="flex-1 bg-background">
-        <div className="flex flex-col pb-4">
-          {items.length === 0 ? (
-            <EmptyState icon={Megaphone} title="No announcements" subtitle="Create one to notify all users" />
-          ) : (
-            items.map((ann) => (
-              <AnnouncementCard
-                key={ann.id}
-                announcement={ann}
-                onDelete={handleDelete}
-                onVote={handleVote}
-                onEdit={handleEdit}
-                onView={handleView}
-              />
-            ))
-          )}
-        </div>
+        {view === 'timeline' ? (
+          <AnnouncementTimeline announcements={scheduled} onOpen={handleEdit} />
+        ) : (
+          <div className="flex flex-col pb-4">
+            {scheduled.length > 0 && (
+              <div className="border-b bg-sky-50/40 dark:bg-sky-950/10">
+                <div className="flex items-center gap-1.5 px-4 pt-3 pb-1.5 text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">
+                  <CalendarClock className="h-3.5 w-3.5" />
+                  Scheduled
+                  <span className="font-normal tabular-nums">({scheduled.length})</span>
+                </div>
+                {scheduled.map((ann) => (
+                  <ScheduledRow
+                    key={ann.id}
+                    announcement={ann}
+                    onEdit={handleEdit}
+                    onDelete={handleDelete}
+                    onPublishNow={handlePublishNow}
+                  />
+                ))}
+              </div>
+            )}
+            {items.length === 0 ? (
+              <EmptyState icon={Megaphone} title="No announcements" subtitle="Create one to notify all users" />
+            ) : (
+              items.map((ann) => (
+                <AnnouncementCard
+                  key={ann.id}
+                  announcement={ann}
+                  onDelete={handleDelete}
+                  onVote={handleVote}
+                  onEdit={handleEdit}
+                  onView={handleView}
+                />
+              ))
+            )}
+          </div>
+        )}
       </ScrollArea>
     </div>
   )
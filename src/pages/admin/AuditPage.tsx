@@ -2,7 +2,7 @@ import { useState, useCallback, useRef, useEffect, useMemo } from 'react'
 import { format } from 'date-fns'
 import { cn, parseTimestamp } from '@/lib/utils'
 import {
-  ScrollText, Filter, User, MessageSquare, Shield, FileText,
+  ScrollText, Filter, User, UserX, MessageSquare, Shield, FileText,
   Clock, RefreshCw, Settings, Image, Megaphone, Wrench, ChevronRight,
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
@@ -27,8 +27,13 @@ const ACTION_CONFIG: Record<string, { color: string; bg: string; icon: typeof Us
   'user.media_permission_change': { color: 'text-blue-700 dark:text-blue-400', bg: 'bg-blue-50 dark:bg-blue-900/15', icon: Image },
   'user.sessions_revoke': { color: 'text-orange-700 dark:text-orange-400', bg: 'bg-orange-50 dark:bg-orange-900/15', icon: User },
   'user.preferences_change': { color: 'text-sky-700 dark:text-sky-400', bg: 'bg-sky-50 dark:bg-sky-900/15', icon: User },
+  'user.deletion_request': { color: 'text-red-700 dark:text-red-400', bg: 'bg-red-50 dark:bg-red-900/15', icon: UserX },
+  'user.deletion_cancel': { color: 'text-emerald-700 dark:text-emerald-400', bg: 'bg-emerald-50 dark:bg-emerald-900/15', icon: User },
+  'user.2fa_enable': { color: 'text-green-700 dark:text-green-400', bg: 'bg-green-50 dark:bg-green-900/15', icon: Shield },
+  'user.2fa_disable': { color: 'text-orange-700 dark:text-orange-400', bg: 'bg-orange-50 dark:bg-orange-900/15', icon: Shield },
   'admin.create': { color: 'text-green-700 dark:text-green-400', bg: 'bg-green-50 dark:bg-green-900/15', icon: Shield },
   'admin.role_change': { color: 'text-purple-700 dark:text-purple-400', bg: 'bg-purple-50 dark:bg-purple-900/15', icon: Shield },
+  'admin.2fa_reset': { color: 'text-red-700 dark:text-red-400', bg: 'bg-red-50 dark:bg-red-900/15', icon: Shield },
   'admin.media_cleanup': { color: 'text-slate-700 dark:text-slate-400', bg: 'bg-slate-50 dark:bg-slate-900/15', icon: Wrench },
   'message.send': { color: 'text-teal-700 dark:text-teal-400', bg: 'bg-teal-50 dark:bg-teal-900/15', icon: MessageSquare },
   'message.delete': { color: 'text-red-700 dark:text-red-400', bg: 'bg-red-50 dark:bg-red-900/15', icon: MessageSquare },
@@ -39,6 +44,8 @@ const ACTION_CONFIG: Record<string, { color: string; bg: string; icon: typeof Us
   'config.features_update': { color: 'text-violet-700 dark:text-violet-400', bg: 'bg-violet-50 dark:bg-violet-900/15', icon: Settings },
   'config.limits_update': { color: 'text-violet-700 dark:text-violet-400', bg: 'bg-violet-50 dark:bg-violet-900/15', icon: Settings },
   'config.subsidiaries_update': { color: 'text-violet-700 dark:text-violet-400', bg: 'bg-violet-50 dark:bg-violet-900/15', icon: Settings },
+  'config.routing_update': { color: 'text-violet-700 dark:text-violet-400', bg: 'bg-violet-50 dark:bg-violet-900/15', icon: Settings },
+  'conversation.auto_assign': { color: 'text-cyan-700 dark:text-cyan-400', bg: 'bg-cyan-50 dark:bg-cyan-900/15', icon: MessageSquare },
   'media.upload': { color: 'text-indigo-700 dark:text-indigo-400', bg: 'bg-indigo-50 dark:bg-indigo-900/15', icon: Image },
   'media.delete': { color: 'text-red-700 dark:text-red-400', bg: 'bg-red-50 dark:bg-red-900/15', icon: Image },
 }
@@ -192,8 +199,13 @@ export function AuditPage() {
               <SelectItem value="user.status_change">User › Status Change</SelectItem>
               <SelectItem value="user.media_permission_change">User › Media Permission</SelectItem>
               <SelectItem value="user.sessions_revoke">User › Sessions Revoke</SelectItem>
+              <SelectItem value="user.deletion_request">User › Deletion Request</SelectItem>
+              <SelectItem value="user.deletion_cancel">User › Deletion Cancel</SelectItem>
+              <SelectItem value="user.2fa_enable">User › 2FA Enable</SelectItem>
+              <SelectItem value="user.2fa_disable">User › 2FA Disable</SelectItem>
               <SelectItem value="admin.create">Admin › Create</SelectItem>
               <SelectItem value="admin.role_change">Admin › Role Change</SelectItem>
+              <SelectItem value="admin.2fa_reset">Admin › 2FA Reset</SelectItem>
               <SelectItem value="message.send">Message › Send</SelectItem>
               <SelectItem value="message.delete">Message › Delete</SelectItem>
               <SelectItem value="announcement.create">Announcement › Create</SelectItem>
@@ -202,6 +214,8 @@ export function AuditPage() {
               <SelectItem value="config.brand_update">Config › Brand</SelectItem>
               <SelectItem value="config.features_update">Config › Features</SelectItem>
               <SelectItem value="config.limits_update">Config › Limits</SelectItem>
+              <SelectItem value="config.routing_update">Config › Routing</SelectItem>
+              <SelectItem value="conversation.auto_assign">Conversation › Auto Assign</SelectItem>
               <SelectItem value="media.upload">Media › Upload</SelectItem>
               <SelectItem value="media.delete">Media › Delete</SelectItem>
             </SelectContent>
@@ -214,6 +228,7 @@ export function AuditPage() {
               <SelectItem value="all">All Entities</SelectItem>
               <SelectItem value="user">User</SelectItem>
               <SelectItem value="message">Message</SelectItem>
+              <SelectItem value="conversation">Conversation</SelectItem>
               <SelectItem value="announcement">Announcement</SelectItem>
               <SelectItem value="config">Config</SelectItem>
               <SelectItem value="media">Media</SelectItem>
@@ -4,7 +4,7 @@ import { useSearchParams } from 'react-router-dom'
 import {
   Search, ArrowLeft, Inbox, Mail, PanelLeftClose, PanelLeft,
   MoreVertical, ShieldOff, CheckCircle, UserCheck, Megaphone, X, Users, UserMinus,
-  CheckSquare, Square,
+  CheckSquare, Square, ArrowDownUp, AlarmClock, ArrowRightLeft, FileDown,
 } from 'lucide-react'
 import { toast } from 'sonner'
 import { Input } from '@/components/ui/input'
@@ -25,20 +25,30 @@ import {
   DropdownMenuSubContent,
 } from '@/components/ui/dropdown-menu'
 import { cn, getInitials, formatRelativeTime } from '@/lib/utils'
-import { useAdminConversations, useMessages, useSendMessage, useMarkRead, useDeleteMessage } from '@/hooks/useMessages'
+import { useAdminConversations, useMessages, useSendMessage, useMarkRead, useDeleteMessage, useUpdateConversationWorkflow, useSendNote, patchAdminConversation } from '@/hooks/useMessages'
 import { useReaction } from '@/hooks/useReactions'
-import { useUpdateUserStatus, useAdminList } from '@/hooks/useUsers'
+import { useTranscriptExport } from '@/hooks/useTranscriptExport'
+import { TRANSCRIPT_FORMATS } from '@/lib/transcript'
+import { useUpdateUserStatus, useAdminList, useAdminAvailability } from '@/hooks/useUsers'
 import { useAnnouncements } from '@/hooks/useAnnouncements'
 import { MessageBubble, TypingIndicator } from '@/components/chat/MessageBubble'
 import { MessageList } from '@/components/chat/MessageList'
 import { MessageInput } from '@/components/chat/MessageInput'
+import { InternalNoteBubble } from '@/components/chat/InternalNoteBubble'
 import { BulkDeleteBar } from '@/components/chat/BulkDeleteBar'
+import { ConversationWorkflowBar, PriorityFlag, StatusBadge } from '@/components/admin/ConversationWorkflow'
+import { SlaBadge, SlaSummary } from '@/components/admin/SlaBadge'
+import { HandoffBanner } from '@/components/admin/HandoffBanner'
+import { TransferConversationDialog } from '@/components/admin/TransferConversationDialog'
+import { CONVERSATION_STATUSES, conversationPriority, conversationStatus } from '@/lib/conversationWorkflow'
+import { compareSlaRisk, countSla, getSlaState, isAtRisk, type SlaState } from '@/lib/sla'
+import { useSlaClock, useSlaTargets } from '@/hooks/useSla'
 import { useChatStore } from '@/stores/chatStore'
 import { useAuthStore } from '@/stores/authStore'
 import { getSocket } from '@/lib/socket'
 import { conversations as convApi } from '@/lib/api'
 import { useMutation, useQueryClient } from '@tanstack/react-query'
-import type { Conversation, Message, MessageReaction } from '@/lib/schemas'
+import type { Conversation, ConversationPriority, ConversationStatus, ConversationTransfer, Message, MessageReaction } from '@/lib/schemas'
 import { LeafLogo } from '@/components/ui/LeafLogo'
 
 const SELECTED_CONV_KEY = 'admin-selected-conversation'
@@ -47,11 +57,13 @@ function ConversationItem({
   conversation,
   isSelected,
   isNewlyAssigned,
+  sla,
   onClick,
 }: {
   conversation: Conversation
   isSelected: boolean
   isNewlyAssigned?: boolean
+  sla?: SlaState | null
   onClick: () => void
 }) {
   const userName = conversation.user?.name ?? 'Unknown User'
@@ -59,13 +71,18 @@ function ConversationItem({
   const senderPrefix = lastMsg?.sender?.role && lastMsg.sender.role !== 'USER' ? `${lastMsg.sender.name}: ` : ''
   const preview = lastMsg?.deletedAt
     ? 'Message deleted'
-    : lastMsg?.content
-      ? senderPrefix + lastMsg.content.slice(0, 50) + (lastMsg.content.length > 50 ? '...' : '')
-      : lastMsg?.type
-        ? `${senderPrefix}Sent ${(lastMsg.type as string).toLowerCase()}`
-        : 'No messages yet'
+    : lastMsg?.isNote
+      ? `Note by ${lastMsg.sender.name.split(' ')[0]}`
+      : lastMsg?.content
+        ? senderPrefix + lastMsg.content.slice(0, 50) + (lastMsg.content.length > 50 ? '...' : '')
+        : lastMsg?.type
+          ? `${senderPrefix}Sent ${(lastMsg.type as string).toLowerCase()}`
+          : 'No messages yet'
 
   const hasUnread = (conversation.adminUnreadCount ?? 0) > 0
+  const status = conversationStatus(conversation)
+  const priority = conversationPriority(conversation)
+  const tags = conversation.tags ?? []
 
   return (
     <button
@@ -95,6 +112,12 @@ function ConversationItem({
           <p className={cn('text-xs truncate', hasUnread ? 'text-foreground font-medium' : 'text-muted-foreground')}>{preview}</p>
           <div className="flex items-center gap-1 shrink-0">
             {isNewlyAssigned && <Badge className="h-5 px-1.5 text-[9px] bg-amber-500 text-white rounded-full font-semibold">New</Badge>}
+            {conversation.transfer?.status === 'PENDING' && (
+              <ArrowRightLeft className="h-3 w-3 text-sky-600 dark:text-sky-400" aria-label={`Transfer to ${conversation.transfer.toAdmin.name} pending`} />
+            )}
+            {(priority === 'HIGH' || priority === 'URGENT') && <PriorityFlag priority={priority} />}
+            {sla && <SlaBadge state={sla} />}
+            {status !== 'OPEN' && <StatusBadge status={status} />}
             {conversation.assignedAdmin && !isNewlyAssigned && (
               <span className="text-[10px] text-muted-foreground hidden sm:inline">{conversation.assignedAdmin.name.split(' ')[0]}</span>
             )}
@@ -105,11 +128,33 @@ function ConversationItem({
             )}
           </div>
         </div>
+        {tags.length > 0 && (
+          <div className="flex items-center gap-1 mt-1 overflow-hidden">
+            {tags.slice(0, 3).map((tag) => (
+              <span key={tag} className="rounded-full bg-muted px-1.5 py-0.5 text-[9px] text-muted-foreground truncate max-w-[90px]">#{tag}</span>
+            ))}
+            {tags.length > 3 && <span className="text-[9px] text-muted-foreground">+{tags.length - 3}</span>}
+          </div>
+        )}
       </div>
     </button>
   )
 }
 
+function FilterChip({ active, onClick, children }: { active: boolean; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <button
+      onClick={onClick}
+      className={cn(
+        'flex items-center gap-1 shrink-0 rounded-full border px-2.5 py-1 text-[11px] font-medium transition-colors',
+        active ? 'border-primary bg-primary/10 text-primary' : 'border-transparent bg-muted/50 text-muted-foreground hover:text-foreground',
+      )}
+    >
+      {children}
+    </button>
+  )
+}
+
 function useAssignConversation() {
   const queryClient = useQueryClient()
   return useMutation({
@@ -138,11 +183,13 @@ function useAssignConversation() {
 function AdminChatView({
   conversation,
   onBack,
+  sla,
   sidebarCollapsed,
   onToggleSidebar,
 }: {
   conversation: Conversation
   onBack: () => void
+  sla: SlaState | null
   sidebarCollapsed: boolean
   onToggleSidebar: () => void
 }) {
@@ -153,14 +200,23 @@ function AdminChatView({
 
   const { data: msgData, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useMessages(conversationId)
   const sendMessage = useSendMessage(conversationId)
+  const sendNote = useSendNote(conversationId)
   const markRead = useMarkRead(conversationId)
   const deleteMsg = useDeleteMessage()
   const reactionMut = useReaction()
   const updateStatus = useUpdateUserStatus()
   const assignConv = useAssignConversation()
+  const updateWorkflow = useUpdateConversationWorkflow()
   const { data: adminListData } = useAdminList()
+  const { admins: adminAvailability } = useAdminAvailability()
   const { data: annData } = useAnnouncements(true, 8)
   const announcements = annData?.announcements ?? []
+  const mentionCandidates = useMemo(
+    () => [...(adminListData?.admins ?? []), ...(adminListData?.superAdmins ?? [])]
+      .filter((a) => a.id !== user?.id && a.status !== 'SUSPENDED')
+      .map((a) => ({ id: a.id, name: a.name })),
+    [adminListData, user?.id],
+  )
 
   const [typingUsers, setTypingUsers] = useState<Map<string, string>>(new Map())
   const [isUserOnline, setIsUserOnline] = useState(false)
@@ -172,6 +228,10 @@ function AdminChatView({
   const [selectMode, setSelectMode] = useState(false)
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
   const [isBulkDeleting, setIsBulkDeleting] = useState(false)
+  const [transferOpen, setTransferOpen] = useState(false)
+  const { exportTranscript, exporting } = useTranscriptExport()
+  const pendingTransfer = conversation.transfer?.status === 'PENDING' ? conversation.transfer : null
+  const canTransfer = !pendingTransfer && (isSuperAdmin || conversation.assignedAdminId === user?.id)
 
   const toggleSelect = useCallback((id: string) => {
     setSelectedIds(prev => {
@@ -407,14 +467,17 @@ function AdminChatView({
                   </DropdownMenuItem>
                 )}
                 {(() => {
-                  const allAdmins = [...(adminListData?.admins ?? []), ...(adminListData?.superAdmins ?? [])].filter(a => a.id !== user?.id && a.id !== conversation.assignedAdminId)
+                  const allAdmins = adminAvailability
+                    .filter(a => a.id !== user?.id && a.id !== conversation.assignedAdminId)
+                    .sort((a, b) => Number(b.available) - Number(a.available))
                   return allAdmins.length > 0 ? (
                     <DropdownMenuSub>
                       <DropdownMenuSubTrigger className="gap-2"><Users className="h-4 w-4" /> Assign to admin</DropdownMenuSubTrigger>
                       <DropdownMenuSubContent className="w-48 max-h-60 overflow-y-auto">
                         {allAdmins.map(a => (
                           <DropdownMenuItem key={a.id} className="gap-2" onClick={() => assignConv.mutate({ conversationId, adminId: a.id, admin: { id: a.id, name: a.name, role: a.role as any } })}>
-                            <UserCheck className="h-4 w-4" /> {a.name}
+                            <UserCheck className="h-4 w-4" /> <span className="truncate">{a.name}</span>
+                            <span className={cn('ml-auto h-2 w-2 shrink-0 rounded-full', a.available ? 'bg-green-500' : 'bg-muted-foreground/40')} title={a.available ? 'Available' : 'Offline'} />
                           </DropdownMenuItem>
                         ))}
                       </DropdownMenuSubContent>
@@ -429,6 +492,29 @@ function AdminChatView({
                 <DropdownMenuSeparator />
               </>
             )}
+            {canTransfer && (
+              <>
+                <DropdownMenuItem className="gap-2 cursor-pointer" onClick={() => setTransferOpen(true)}>
+                  <ArrowRightLeft className="h-4 w-4" /> Transfer with handoff…
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+              </>
+            )}
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger className="gap-2" disabled={!!exporting}><FileDown className="h-4 w-4" /> Export transcript</DropdownMenuSubTrigger>
+              <DropdownMenuSubContent className="w-40">
+                {TRANSCRIPT_FORMATS.map(({ value, label }) => (
+                  <DropdownMenuItem
+                    key={value}
+                    className="cursor-pointer"
+                    onClick={() => exportTranscript(conversationId, { name: conversation.user?.name ?? 'Unknown User', email: conversation.user?.email }, value)}
+                  >
+                    {label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+            <DropdownMenuSeparator />
             <DropdownMenuLabel className="text-[10px] uppercase text-muted-foreground font-normal">User Action</DropdownMenuLabel>
             {conversation.user?.status === 'APPROVED' ? (
               <DropdownMenuItem className="gap-2 text-red-600" onClick={() => updateStatus.mutate({ userId: conversation.user!.id, status: 'SUSPENDED' })}>
@@ -443,6 +529,15 @@ function AdminChatView({
         </DropdownMenu>
       </div>
 
+      <ConversationWorkflowBar
+        conversation={conversation}
+        onChange={(patch) => updateWorkflow.mutate({ conversationId, patch })}
+      >
+        <SlaSummary conversation={conversation} state={sla} />
+      </ConversationWorkflowBar>
+
+      {conversation.transfer && <HandoffBanner key={conversation.transfer.id} transfer={conversation.transfer} currentUserId={user?.id} />}
+
       <div className="flex-1 min-h-0 relative flex flex-col">
         <MessageList<Message>
           messages={allMessages}
@@ -459,7 +554,15 @@ function AdminChatView({
             </div>
           }
           bottomContent={typingContent}
-          renderMessage={(msg) => (
+          renderMessage={(msg) => msg.isNote ? (
+            <div key={msg.id}>
+              <InternalNoteBubble
+                note={msg}
+                canDelete={!selectMode && (msg.senderId === user?.id || isSuperAdmin)}
+                onDelete={() => deleteMsg.mutate({ messageId: msg.id, conversationId: msg.conversationId, scope: 'all' })}
+              />
+            </div>
+          ) : (
             <div key={msg.id}>
               <MessageBubble
                 message={msg}
@@ -498,8 +601,19 @@ function AdminChatView({
           }}
           linkedAnnouncement={linkedAnnouncement}
           onClearAnnouncement={() => setLinkedAnnouncement(null)}
+          savedReplyContext={{ userName: conversation.user?.name }}
+          onSendNote={(data) => sendNote.mutate(data)}
+          mentionCandidates={mentionCandidates}
         />
       )}
+
+      <TransferConversationDialog
+        open={transferOpen}
+        onClose={() => setTransferOpen(false)}
+        conversationId={conversationId}
+        userName={conversation.user?.name ?? 'this user'}
+        excludeIds={[user?.id, conversation.assignedAdminId].filter((id): id is string => !!id)}
+      />
     </div>
   )
 }
@@ -514,13 +628,27 @@ export function ConversationsPage() {
   const [selectedId, setSelectedIdState] = useState<string | null>(() => localStorage.getItem(SELECTED_CONV_KEY))
   const [search, setSearch] = useState('')
   const [activeTab, setActiveTab] = useState<'mine' | 'all'>('all')
+  const [statusFilter, setStatusFilter] = useState<ConversationStatus | 'all'>('all')
+  const [priorityFilter, setPriorityFilter] = useState<ConversationPriority | null>(null)
+  const [tagFilter, setTagFilter] = useState<string | null>(null)
+  const [atRiskOnly, setAtRiskOnly] = useState(false)
+  const [sortBy, setSortBy] = useState<'recent' | 'risk'>('recent')
   const [newlyAssignedIds, setNewlyAssignedIds] = useState<Set<string>>(new Set())
   const [sidebarCollapsed, setSidebarCollapsed] = useState(() => localStorage.getItem('admin-sidebar-collapsed') === 'true')
 
   const allConversations = useMemo(() => data?.pages.flatMap((p) => p.conversations) ?? [], [data])
 
+  const slaTargets = useSlaTargets()
+  const now = useSlaClock()
+  const slaStates = useMemo(
+    () => new Map(allConversations.map((c) => [c.id, getSlaState(c, slaTargets, now)])),
+    [allConversations, slaTargets, now],
+  )
+  const slaCounts = useMemo(() => countSla(slaStates.values()), [slaStates])
+
   useEffect(() => {
-    const targetConvId = searchParams.get('conversationId')
+    // `conversation` is the form used by push notification deep links
+    const targetConvId = searchParams.get('conversationId') ?? searchParams.get('conversation')
     const targetUserId = searchParams.get('userId')
 
     if (targetConvId) {
@@ -541,7 +669,7 @@ export function ConversationsPage() {
     const socket = getSocket()
     if (!socket) return
 
-    const handleConvUpdated = (upd: { conversationId: string; lastMessageAt?: number | null; lastMessage?: Message | null; unreadCount?: number; adminUnreadCount?: number; assignedAdminId?: string | null }) => {
+    const handleConvUpdated = (upd: { conversationId: string; lastMessageAt?: number | null; lastMessage?: Message | null; unreadCount?: number; adminUnreadCount?: number; assignedAdminId?: string | null; status?: ConversationStatus; priority?: ConversationPriority; tags?: string[]; awaitingReplySince?: number | null; firstResponseAt?: number | null }) => {
       const cacheData = queryClient.getQueryData<{ pages: Array<{ conversations: Conversation[] }> }>(['conversations'])
       const convFound = cacheData?.pages.some(p => p.conversations.some(c => c.id === upd.conversationId))
 
@@ -563,6 +691,11 @@ export function ConversationsPage() {
               ...(upd.unreadCount !== undefined && { unreadCount: upd.unreadCount }),
               ...(upd.adminUnreadCount !== undefined && { adminUnreadCount: upd.adminUnreadCount }),
               ...(upd.assignedAdminId !== undefined && { assignedAdminId: upd.assignedAdminId }),
+              ...(upd.status !== undefined && { status: upd.status }),
+              ...(upd.priority !== undefined && { priority: upd.priority }),
+              ...(upd.tags !== undefined && { tags: upd.tags }),
+              ...(upd.awaitingReplySince !== undefined && { awaitingReplySince: upd.awaitingReplySince }),
+              ...(upd.firstResponseAt !== undefined && { firstResponseAt: upd.firstResponseAt }),
             }
           })
         }))
@@ -587,16 +720,24 @@ export function ConversationsPage() {
       toast.warning(`You have been unassigned from ${data.userName}'s conversation`)
     }
 
-    const handleAssignedToYou = async (data: { conversationId: string; userName: string }) => {
+    const handleAssignedToYou = async (data: { conversationId: string; userName: string; auto?: boolean; ruleName?: string | null }) => {
       setNewlyAssignedIds(prev => new Set([...prev, data.conversationId]))
-      toast.success(`Assigned to ${data.userName}.`, { duration: 6000, icon: '👤' })
+      toast.success(
+        data.auto ? `Auto-assigned to ${data.userName}${data.ruleName ? ` (${data.ruleName})` : ''}.` : `Assigned to ${data.userName}.`,
+        { duration: 6000, icon: '👤' },
+      )
+      await insertConversation(data.conversationId)
+    }
+
+    // Fetch a conversation this admin can newly see and put it at the top of the list
+    const insertConversation = async (conversationId: string) => {
       try {
-        const res = await convApi.getOne(data.conversationId)
+        const res = await convApi.getOne(conversationId)
         queryClient.setQueryData<{ pages: Array<{ conversations: Conversation[]; hasMore: boolean }>; pageParams: unknown[] }>(
           ['conversations'],
           (old) => {
             if (!old) return old
-            const alreadyIn = old.pages.some(p => p.conversations.some(c => c.id === data.conversationId))
+            const alreadyIn = old.pages.some(p => p.conversations.some(c => c.id === conversationId))
             if (alreadyIn) return old
             return {
               ...old,
@@ -609,14 +750,35 @@ export function ConversationsPage() {
       }
     }
 
+    const handleTransferRequested = async (data: { transfer: ConversationTransfer }) => {
+      const { transfer } = data
+      const cacheData = queryClient.getQueryData<{ pages: Array<{ conversations: Conversation[] }> }>(['conversations'])
+      if (cacheData?.pages.some(p => p.conversations.some(c => c.id === transfer.conversationId))) {
+        patchAdminConversation(queryClient, transfer.conversationId, { transfer })
+      } else {
+        await insertConversation(transfer.conversationId)
+      }
+    }
+
+    const handleTransferResolved = (data: { transfer: ConversationTransfer }) => {
+      const { transfer } = data
+      patchAdminConversation(queryClient, transfer.conversationId, { transfer })
+      // Ownership changed — refetch so the list reflects who can see it now
+      if (transfer.status === 'ACCEPTED') queryClient.invalidateQueries({ queryKey: ['conversations'] })
+    }
+
     socket.on('conversation:updated', handleConvUpdated)
     socket.on('conversation:removed', handleConvRemoved)
     socket.on('conversation:assigned_to_you', handleAssignedToYou)
+    socket.on('conversation:transfer_requested', handleTransferRequested)
+    socket.on('conversation:transfer_resolved', handleTransferResolved)
 
     return () => {
       socket.off('conversation:updated', handleConvUpdated)
       socket.off('conversation:removed', handleConvRemoved)
       socket.off('conversation:assigned_to_you', handleAssignedToYou)
+      socket.off('conversation:transfer_requested', handleTransferRequested)
+      socket.off('conversation:transfer_resolved', handleTransferResolved)
     }
   }, [queryClient])
 
@@ -637,14 +799,33 @@ export function ConversationsPage() {
     return allConversations
   }, [allConversations, isSuperAdmin, activeTab, user?.id])
 
+  // Tags in use across loaded conversations, most used first
+  const knownTags = useMemo(() => {
+    const counts = new Map<string, number>()
+    for (const c of allConversations) for (const tag of c.tags ?? []) counts.set(tag, (counts.get(tag) ?? 0) + 1)
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([tag]) => tag).slice(0, 8)
+  }, [allConversations])
+
+  const workflowFiltered = useMemo(() => {
+    const matches = tabFiltered.filter(c =>
+      (statusFilter === 'all' || conversationStatus(c) === statusFilter)
+      && (!priorityFilter || conversationPriority(c) === priorityFilter)
+      && (!tagFilter || (c.tags ?? []).includes(tagFilter))
+      && (!atRiskOnly || isAtRisk(slaStates.get(c.id))),
+    )
+    return sortBy === 'risk'
+      ? [...matches].sort((a, b) => compareSlaRisk(slaStates.get(a.id), slaStates.get(b.id)))
+      : matches
+  }, [tabFiltered, statusFilter, priorityFilter, tagFilter, atRiskOnly, sortBy, slaStates])
+
   const filtered = useMemo(() =>
     search
-      ? tabFiltered.filter(c => {
+      ? workflowFiltered.filter(c => {
         const q = search.toLowerCase()
         return c.user?.name?.toLowerCase().includes(q) || c.user?.email?.toLowerCase().includes(q)
       })
-      : tabFiltered
-    , [search, tabFiltered])
+      : workflowFiltered
+    , [search, workflowFiltered])
 
   const handleScroll = useCallback((e: React.UIEvent<HTMLDivElement>) => {
     const el = e.currentTarget
@@ -684,7 +865,17 @@ export function ConversationsPage() {
         <div className="p-3 bg-background z-10 space-y-3 pb-2">
           <div className="flex items-center justify-between px-2 pt-1">
             <h2 className="text-xl font-bold tracking-tight">Chats</h2>
-            <Badge variant="secondary" className="text-[10px] tabular-nums">{filtered.length}</Badge>
+            <div className="flex items-center gap-1.5">
+              <button
+                onClick={() => setSortBy(sortBy === 'recent' ? 'risk' : 'recent')}
+                className={cn('flex items-center gap-1 rounded-md px-1.5 py-1 text-[10px] font-medium transition-colors', sortBy === 'risk' ? 'text-primary' : 'text-muted-foreground hover:text-foreground')}
+                title="Change sort order"
+              >
+                <ArrowDownUp className="h-3 w-3" />
+                {sortBy === 'risk' ? 'Breach risk' : 'Recent'}
+              </button>
+              <Badge variant="secondary" className="text-[10px] tabular-nums">{filtered.length}</Badge>
+            </div>
           </div>
           {isSuperAdmin && (
             <div className="flex gap-1 p-1 bg-muted/50 rounded-lg">
@@ -696,6 +887,29 @@ export function ConversationsPage() {
             <Search className="absolute left-5 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
             <Input placeholder="Search or start a new chat" value={search} onChange={e => setSearch(e.target.value)} className="pl-9 h-9 rounded-xl border-none bg-accent focus-visible:ring-0 shadow-none transition-colors" />
           </div>
+          <div className="flex items-center gap-1 px-2 overflow-x-auto [&::-webkit-scrollbar]:hidden">
+            {[{ value: 'all' as const, label: 'All' }, ...CONVERSATION_STATUSES].map(({ value, label }) => (
+              <FilterChip key={value} active={statusFilter === value} onClick={() => setStatusFilter(value)}>
+                {value === 'WAITING' ? 'Waiting' : label}
+              </FilterChip>
+            ))}
+            <div className="h-4 w-px bg-border shrink-0 mx-0.5" />
+            <FilterChip active={atRiskOnly} onClick={() => setAtRiskOnly(!atRiskOnly)}>
+              <AlarmClock className={cn('h-3 w-3', slaCounts.breached > 0 && 'text-red-600 dark:text-red-400')} />
+              At risk
+              {slaCounts.breached + slaCounts.atRisk > 0 && <span className="tabular-nums">{slaCounts.breached + slaCounts.atRisk}</span>}
+            </FilterChip>
+            {(['URGENT', 'HIGH'] as const).map((p) => (
+              <FilterChip key={p} active={priorityFilter === p} onClick={() => setPriorityFilter(priorityFilter === p ? null : p)}>
+                <PriorityFlag priority={p} />{p === 'URGENT' ? 'Urgent' : 'High'}
+              </FilterChip>
+            ))}
+            {knownTags.map((tag) => (
+              <FilterChip key={tag} active={tagFilter === tag} onClick={() => setTagFilter(tagFilter === tag ? null : tag)}>
+                #{tag}
+              </FilterChip>
+            ))}
+          </div>
         </div>
 
         {isLoading ? (
@@ -716,6 +930,7 @@ export function ConversationsPage() {
                     conversation={conv}
                     isSelected={conv.id === effectiveSelectedId}
                     isNewlyAssigned={newlyAssignedIds.has(conv.id)}
+                    sla={slaStates.get(conv.id)}
                     onClick={() => selectConv(conv.id)}
                   />
                 ))
@@ -732,6 +947,7 @@ export function ConversationsPage() {
           <AdminChatView
             conversation={selectedConv}
             onBack={() => selectConv(null)}
+            sla={slaStates.get(selectedConv.id) ?? null}
             sidebarCollapsed={sidebarCollapsed}
             onToggleSidebar={toggleSidebar}
           />
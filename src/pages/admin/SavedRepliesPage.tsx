@@ -0,0 +1,404 @@
+import { useMemo, useRef, useState } from 'react'
+import {
+  MessageSquareQuote, Plus, Search, MoreVertical, Pencil, Trash2, Users, User as UserIcon, Paperclip, X,
+} from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Switch } from '@/components/ui/switch'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from '@/components/ui/dialog'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { useSavedReplies, useCreateSavedReply, useUpdateSavedReply, useDeleteSavedReply } from '@/hooks/useSavedReplies'
+import { media as mediaApi } from '@/lib/api'
+import { SAVED_REPLY_VARIABLES, searchSavedReplies } from '@/lib/savedReplies'
+import { messagePlainText } from '@/lib/messageFormat'
+import type { SavedReply } from '@/lib/schemas'
+import { useAuthStore } from '@/stores/authStore'
+import { cn, formatRelativeTime } from '@/lib/utils'
+import { toast } from 'sonner'
+import { LeafLogo } from '@/components/ui/LeafLogo'
+
+type Filter = 'all' | 'shared' | 'personal'
+
+const FILTERS: { id: Filter; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'shared', label: 'Shared' },
+  { id: 'personal', label: 'Personal' },
+]
+
+function mediaTypeFor(mime: string): string {
+  if (mime.startsWith('image/')) return 'IMAGE'
+  if (mime.startsWith('video/')) return 'VIDEO'
+  return 'DOCUMENT'
+}
+
+// ─── Editor Dialog ─────────────────────────────────────────────────────────────
+
+function SavedReplyDialog({
+  reply,
+  open,
+  onClose,
+}: {
+  reply: SavedReply | null
+  open: boolean
+  onClose: () => void
+}) {
+  const createReply = useCreateSavedReply()
+  const updateReply = useUpdateSavedReply()
+  const [title, setTitle] = useState(reply?.title ?? '')
+  const [body, setBody] = useState(reply?.body ?? '')
+  const [shared, setShared] = useState(reply?.shared ?? false)
+  const [attachment, setAttachment] = useState<{ id: string; filename: string } | null>(
+    reply?.media ? { id: reply.media.id, filename: reply.media.filename } : null,
+  )
+  const [uploading, setUploading] = useState(false)
+  const bodyRef = useRef<HTMLTextAreaElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const isPending = createReply.isPending || updateReply.isPending
+
+  const insertVariable = (token: string) => {
+    const el = bodyRef.current
+    const start = el?.selectionStart ?? body.length
+    const end = el?.selectionEnd ?? body.length
+    setBody(body.slice(0, start) + token + body.slice(end))
+    requestAnimationFrame(() => {
+      el?.focus()
+      el?.setSelectionRange(start + token.length, start + token.length)
+    })
+  }
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    setUploading(true)
+    try {
+      const { media } = await mediaApi.upload(file, mediaTypeFor(file.type), file.name)
+      setAttachment({ id: media.id, filename: media.filename })
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Upload failed')
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const handleSave = () => {
+    const data = { title: title.trim(), body, shared, mediaId: attachment?.id ?? null }
+    const options = { onSuccess: onClose }
+    if (reply) updateReply.mutate({ id: reply.id, data }, options)
+    else createReply.mutate(data, options)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => { if (!o) onClose() }}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <MessageSquareQuote className="h-5 w-5 text-primary" />
+            {reply ? 'Edit Saved Reply' : 'New Saved Reply'}
+          </DialogTitle>
+          <DialogDescription>
+            Type <span className="font-mono">/</span> in a conversation to insert it.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Title</Label>
+            <Input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="e.g. Refund policy" maxLength={100} className="rounded-xl" />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Message</Label>
+            <Textarea
+              ref={bodyRef}
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              placeholder="Hi {{user.name}}, thanks for reaching out…"
+              rows={6}
+              className="rounded-xl resize-none"
+            />
+            <div className="flex flex-wrap items-center gap-1.5">
+              <span className="text-[10px] text-muted-foreground">Insert:</span>
+              {SAVED_REPLY_VARIABLES.map((v) => (
+                <button
+                  key={v.token}
+                  type="button"
+                  onClick={() => insertVariable(v.token)}
+                  title={v.description}
+                  className="rounded-md bg-muted px-1.5 py-0.5 font-mono text-[10px] text-muted-foreground hover:bg-accent hover:text-foreground transition-colors"
+                >
+                  {v.token}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Attachment</Label>
+            {attachment ? (
+              <div className="flex items-center gap-2 rounded-xl bg-muted px-3 py-2 text-sm">
+                <Paperclip className="h-4 w-4 text-muted-foreground" />
+                <span className="truncate flex-1">{attachment.filename}</span>
+                <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setAttachment(null)}>
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ) : (
+              <Button variant="outline" size="sm" className="gap-2 rounded-xl" disabled={uploading} onClick={() => fileInputRef.current?.click()}>
+                {uploading ? <LeafLogo className="h-3.5 w-3.5 animate-spin" /> : <Paperclip className="h-3.5 w-3.5" />}
+                Attach file
+              </Button>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              className="hidden"
+              accept="image/*,video/*,.pdf,.doc,.docx,.txt,.xls,.xlsx"
+              onChange={handleFile}
+            />
+          </div>
+          <label className="flex items-center justify-between gap-4 rounded-xl border px-3 py-2.5">
+            <div>
+              <p className="text-sm font-medium">Share with team</p>
+              <p className="text-[11px] text-muted-foreground">Shared replies are available to every admin</p>
+            </div>
+            <Switch checked={shared} onCheckedChange={setShared} />
+          </label>
+        </div>
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose} className="rounded-xl">Cancel</Button>
+          <Button
+            onClick={handleSave}
+            disabled={!title.trim() || !body.trim() || uploading || isPending}
+            className="rounded-xl gap-2"
+          >
+            {isPending && <LeafLogo className="h-4 w-4 animate-spin" />}
+            {reply ? 'Save Changes' : 'Create Reply'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// ─── Reply Row ─────────────────────────────────────────────────────────────────
+
+function SavedReplyRow({
+  reply,
+  canManage,
+  onEdit,
+  onDelete,
+}: {
+  reply: SavedReply
+  canManage: boolean
+  onEdit: (reply: SavedReply) => void
+  onDelete: (reply: SavedReply) => void
+}) {
+  return (
+    <div className="group flex items-start gap-4 border-b border-border/40 p-4 transition-all hover:bg-accent/30">
+      <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-full bg-primary/10 text-primary">
+        <MessageSquareQuote className="h-4.5 w-4.5" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2 flex-wrap">
+          <span className="font-semibold truncate">{reply.title}</span>
+          <Badge variant={reply.shared ? 'default' : 'secondary'} className="gap-1 text-[10px]">
+            {reply.shared ? <Users className="h-3 w-3" /> : <UserIcon className="h-3 w-3" />}
+            {reply.shared ? 'Shared' : 'Personal'}
+          </Badge>
+          {reply.media && (
+            <Badge variant="outline" className="gap-1 text-[10px]">
+              <Paperclip className="h-3 w-3" />
+              {reply.media.filename}
+            </Badge>
+          )}
+        </div>
+        <p className="mt-1 text-xs text-muted-foreground line-clamp-2 whitespace-pre-line">{messagePlainText(reply.body)}</p>
+        <p className="mt-1.5 text-[11px] text-muted-foreground">
+          {reply.owner?.name ?? 'Unknown'} &middot; updated {formatRelativeTime(reply.updatedAt)}
+        </p>
+      </div>
+      {canManage && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0">
+              <MoreVertical className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-40">
+            <DropdownMenuItem className="gap-2 cursor-pointer" onClick={() => onEdit(reply)}>
+              <Pencil className="h-4 w-4" /> Edit
+            </DropdownMenuItem>
+            <DropdownMenuItem className="gap-2 text-destructive focus:text-destructive cursor-pointer" onClick={() => onDelete(reply)}>
+              <Trash2 className="h-4 w-4" /> Delete
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+    </div>
+  )
+}
+
+// ─── Main Page ─────────────────────────────────────────────────────────────────
+
+export function SavedRepliesPage() {
+  const user = useAuthStore((s) => s.user)
+  const isSuperAdmin = user?.role === 'SUPER_ADMIN'
+  const { data, isLoading } = useSavedReplies()
+  const deleteReply = useDeleteSavedReply()
+
+  const [search, setSearch] = useState('')
+  const [filter, setFilter] = useState<Filter>('all')
+  const [editing, setEditing] = useState<SavedReply | null>(null)
+  const [showEditor, setShowEditor] = useState(false)
+  const [deleting, setDeleting] = useState<SavedReply | null>(null)
+
+  const replies = useMemo(() => {
+    const all = data?.replies ?? []
+    const filtered = filter === 'all' ? all : all.filter((r) => r.shared === (filter === 'shared'))
+    return searchSavedReplies(filtered, search)
+  }, [data, filter, search])
+
+  // Shared replies can be maintained by their author or a super admin
+  const canManage = (reply: SavedReply) => reply.ownerId === user?.id || isSuperAdmin
+
+  const openEditor = (reply: SavedReply | null) => {
+    setEditing(reply)
+    setShowEditor(true)
+  }
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="p-4 border-b space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-full bg-primary/10">
+              <MessageSquareQuote className="h-5 w-5 text-primary" />
+            </div>
+            <div>
+              <h2 className="text-base font-bold tracking-tight">Saved Replies</h2>
+              <p className="text-[11px] text-muted-foreground">
+                Type <span className="font-mono">/</span> in a conversation to insert one
+              </p>
+            </div>
+          </div>
+          <Button size="sm" className="gap-1.5 rounded-full px-4 shadow-sm" onClick={() => openEditor(null)}>
+            <Plus className="h-4 w-4" />
+            New Reply
+          </Button>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search saved replies…" className="pl-9 rounded-xl" />
+          </div>
+          <div className="flex rounded-xl bg-muted p-1">
+            {FILTERS.map(({ id, label }) => (
+              <button
+                key={id}
+                onClick={() => setFilter(id)}
+                className={cn(
+                  'flex-1 sm:flex-none rounded-lg px-3 py-1 text-xs font-medium transition-colors',
+                  filter === id ? 'bg-background text-foreground shadow-sm' : 'text-muted-foreground hover:text-foreground',
+                )}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <ScrollArea className="flex-1 bg-background">
+        {isLoading ? (
+          <div className="p-4 space-y-3">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <div key={i} className="flex items-start gap-4 rounded-xl border p-4">
+                <Skeleton className="h-10 w-10 rounded-full shrink-0" />
+                <div className="flex-1 space-y-2">
+                  <Skeleton className="h-4 w-40" />
+                  <Skeleton className="h-3 w-full" />
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : replies.length > 0 ? (
+          <div className="flex flex-col pb-4">
+            {replies.map((reply) => (
+              <SavedReplyRow
+                key={reply.id}
+                reply={reply}
+                canManage={canManage(reply)}
+                onEdit={openEditor}
+                onDelete={setDeleting}
+              />
+            ))}
+          </div>
+        ) : (
+          <div className="flex flex-col items-center gap-4 py-24 text-muted-foreground">
+            <div className="flex h-16 w-16 items-center justify-center rounded-2xl bg-muted">
+              <MessageSquareQuote className="h-8 w-8" />
+            </div>
+            <div className="text-center space-y-1">
+              <p className="text-sm font-medium text-foreground">{search ? 'No matching replies' : 'No saved replies yet'}</p>
+              <p className="text-xs">Save answers you send often and insert them with /</p>
+            </div>
+          </div>
+        )}
+      </ScrollArea>
+
+      {showEditor && (
+        <SavedReplyDialog
+          key={editing?.id ?? 'new'}
+          reply={editing}
+          open={showEditor}
+          onClose={() => setShowEditor(false)}
+        />
+      )}
+
+      <AlertDialog open={!!deleting} onOpenChange={(o) => { if (!o) setDeleting(null) }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete saved reply</AlertDialogTitle>
+            <AlertDialogDescription>
+              “{deleting?.title}” will be removed{deleting?.shared ? ' for every admin' : ''}. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => { if (deleting) deleteReply.mutate(deleting.id); setDeleting(null) }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
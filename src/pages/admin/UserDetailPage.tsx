@@ -3,7 +3,7 @@ import { format } from 'date-fns'
 import {
   ArrowLeft, CheckCircle, XCircle, ShieldOff, Clock,
   Mail, Phone, Calendar, Eye, UserCog, MessageSquare, KeyRound,
-  ScrollText, History, Info,
+  ScrollText, History, Info, FileDown,
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -17,11 +17,16 @@ import {
 import {
   Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
 } from '@/components/ui/select'
+import {
+  DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
 import { Textarea } from '@/components/ui/textarea'
 import { Label } from '@/components/ui/label'
 import { cn, formatRelativeTime, getInitials, parseTimestamp } from '@/lib/utils'
 import { useAdminUserDetail, useStatusHistory, useAuditLogs, useUpdateUserStatus, useInitiatePasswordReset } from '@/hooks/useUsers'
 import { conversations as convApi } from '@/lib/api'
+import { useTranscriptExport } from '@/hooks/useTranscriptExport'
+import { TRANSCRIPT_FORMATS, type TranscriptFormat } from '@/lib/transcript'
 import { toast } from 'sonner'
 import { useState } from 'react'
 import { useQueryClient } from '@tanstack/react-query'
@@ -70,6 +75,7 @@ export function UserDetailPage() {
   const updateStatus = useUpdateUserStatus()
   const resetPassword = useInitiatePasswordReset()
   const queryClient = useQueryClient()
+  const { exportTranscript, exporting } = useTranscriptExport()
 
   const [statusDialog, setStatusDialog] = useState(false)
   const [newStatus, setNewStatus] = useState<Status>('APPROVED')
@@ -104,6 +110,16 @@ export function UserDetailPage() {
     }
   }
 
+  const handleExportTranscript = async (type: TranscriptFormat) => {
+    if (!userId || !user) return
+    try {
+      const res = await convApi.forUser(userId)
+      await exportTranscript(res.conversation.id, { name: user.name, email: user.email }, type)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not export transcript')
+    }
+  }
+
   if (isLoading) {
     return (
       <div className="flex h-full flex-col">
@@ -181,6 +197,20 @@ export function UserDetailPage() {
                   <Button variant="outline" className="w-full justify-start gap-2 shadow-sm rounded-xl h-10" onClick={handleOpenChat}>
                     <MessageSquare className="h-4 w-4 text-primary" />Message User
                   </Button>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" className="w-full justify-start gap-2 shadow-sm rounded-xl h-10" disabled={!!exporting}>
+                        {exporting ? <LeafLogo className="h-4 w-4 animate-spin" /> : <FileDown className="h-4 w-4 text-primary" />}Export Transcript
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="start" className="w-48">
+                      {TRANSCRIPT_FORMATS.map(({ value, label }) => (
+                        <DropdownMenuItem key={value} className="cursor-pointer" onClick={() => handleExportTranscript(value)}>
+                          {label}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
 
                   {user.status === 'PENDING' && (
                     <div className="grid grid-cols-2 gap-1.5">
@@ -1,9 +1,10 @@
 import { useState, useCallback, useEffect, useRef, useMemo } from 'react'
 import { useNavigate } from 'react-router-dom'
+import { format } from 'date-fns'
 import {
   Search, CheckCircle, Clock, XCircle, ShieldOff,
   ImageIcon, Users, MoreHorizontal, Mail, Phone,
-  Eye, UserCog, MessageSquare,
+  Eye, UserCog, MessageSquare, UserX,
 } from 'lucide-react'
 import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
@@ -37,7 +38,7 @@ import {
 } from '@/components/ui/dropdown-menu'
 import { Textarea } from '@/components/ui/textarea'
 import { ScrollArea } from '@/components/ui/scroll-area'
-import { cn, getInitials } from '@/lib/utils'
+import { cn, getInitials, formatRelativeTime, parseTimestamp } from '@/lib/utils'
 import { useAdminUsers, useUpdateUserStatus, useUpdateMediaPermission } from '@/hooks/useUsers'
 import { useQueryClient } from '@tanstack/react-query'
 import { conversations as convApi } from '@/lib/api'
@@ -141,6 +142,19 @@ function UserCard({
           <div className="flex items-center gap-2 flex-wrap mb-1">
             <span className="text-sm font-semibold truncate text-foreground">{user.name}</span>
             <StatusBadge status={user.status} />
+            {user.deletionScheduledAt && (
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Badge variant="outline" className="gap-1 text-[10px] border-red-200 text-red-600 dark:border-red-900/40 dark:text-red-400">
+                    <UserX className="h-2.5 w-2.5" />
+                    Deletes {format(parseTimestamp(user.deletionScheduledAt), 'MMM d')}
+                  </Badge>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p className="text-xs">Requested {user.deletionRequestedAt ? formatRelativeTime(user.deletionRequestedAt) : 'by the user'}</p>
+                </TooltipContent>
+              </Tooltip>
+            )}
           </div>
 
           <div className="flex items-center gap-4 mt-1 text-[11px] text-muted-foreground flex-wrap">
@@ -351,25 +365,28 @@ export function UsersPage() {
   const [dialogUser, setDialogUser] = useState<User | null>(null)
   const [newStatus, setNewStatus] = useState<Status>('APPROVED')
   const [reason, setReason] = useState('')
-  const filterStatus = statusFilter === 'all' ? undefined : (statusFilter as Status)
+  const pendingDeletion = statusFilter === 'DELETION'
+  const filterStatus = statusFilter === 'all' || pendingDeletion ? undefined : (statusFilter as Status)
   const debouncedSearch = useDebouncedValue(search, 300)
   const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useAdminUsers({
     status: filterStatus,
     role: 'USER',
     search: debouncedSearch || undefined,
+    pendingDeletion: pendingDeletion || undefined,
   })
   const updateStatus = useUpdateUserStatus()
   const updateMedia = useUpdateMediaPermission()
 
-  const { allUsers, pendingCount, approvedCount, suspendedCount } = useMemo(() => {
+  const { allUsers, pendingCount, approvedCount, suspendedCount, deletionCount } = useMemo(() => {
     const flat = data?.pages.flatMap((p) => p.users) ?? []
-    let pending = 0, approved = 0, suspended = 0
+    let pending = 0, approved = 0, suspended = 0, deletion = 0
     for (const u of flat) {
       if (u.status === 'PENDING') pending++
       else if (u.status === 'APPROVED') approved++
       else if (u.status === 'SUSPENDED') suspended++
+      if (u.deletionScheduledAt) deletion++
     }
-    return { allUsers: flat, pendingCount: pending, approvedCount: approved, suspendedCount: suspended }
+    return { allUsers: flat, pendingCount: pending, approvedCount: approved, suspendedCount: suspended, deletionCount: deletion }
   }, [data])
 
   const handleStatusDialog = useCallback((user: User, targetStatus?: Status) => {
@@ -454,6 +471,10 @@ export function UsersPage() {
               <ShieldOff className="h-3 w-3" />
               Suspended
             </FilterChip>
+            <FilterChip active={pendingDeletion} onClick={() => setStatusFilter('DELETION')} count={deletionCount}>
+              <UserX className="h-3 w-3" />
+              Pending deletion
+            </FilterChip>
           </div>
         </div>
       </div>
@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { OutboxEntry } from '@/lib/outbox'
+import type { Message } from '@/lib/schemas'
+
+vi.mock('@/lib/idb', () => import('@/test/memoryIdb'))
+vi.mock('@/lib/api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/api')>()),
+  auth: { logout: vi.fn(async () => ({ success: true })) },
+}))
+vi.mock('@/lib/socket', () => ({ connectSocket: vi.fn(), disconnectSocket: vi.fn() }))
+vi.mock('@/lib/pwa', () => ({ unsubscribeFromPush: vi.fn(async () => {}) }))
+vi.mock('@/lib/queryPersist', () => ({ clearPersistedQueryCache: vi.fn(async () => {}) }))
+
+// zustand's persist middleware reads window.localStorage when the stores are created
+const storage = new Map<string, string>()
+const localStorage = {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => { storage.set(key, value) },
+  removeItem: (key: string) => { storage.delete(key) },
+}
+vi.stubGlobal('localStorage', localStorage)
+vi.stubGlobal('window', { localStorage })
+
+const { useAuthStore } = await import('@/stores/authStore')
+const { useOutboxStore } = await import('@/stores/outboxStore')
+const { outboxDb } = await import('@/lib/outbox')
+
+function queuedEntry(tempId: string): OutboxEntry {
+  const message: Message = {
+    id: tempId,
+    conversationId: 'c1',
+    senderId: 'u1',
+    sender: { id: 'u1', name: 'Ada', role: 'USER' },
+    type: 'TEXT',
+    content: 'my account number is 12345678',
+    media: null,
+    status: 'SENT',
+    readAt: null,
+    deletedAt: null,
+    createdAt: Date.now(),
+  }
+  return {
+    tempId,
+    kind: 'message',
+    targetId: 'c1',
+    userId: 'u1',
+    payload: { type: 'TEXT', content: message.content ?? undefined },
+    message,
+    state: 'failed',
+    attempts: 5,
+    createdAt: Date.now(),
+  }
+}
+
+describe('signing out', () => {
+  beforeEach(async () => {
+    useOutboxStore.getState().enqueue(queuedEntry('temp-1'))
+    useOutboxStore.getState().enqueue(queuedEntry('temp-2'))
+    await vi.waitFor(async () => expect(await outboxDb.list('u1')).toHaveLength(2))
+  })
+
+  it('logout clears the outbox in memory and on disk', async () => {
+    await useAuthStore.getState().logout()
+    expect(useOutboxStore.getState().entries).toEqual({})
+    await vi.waitFor(async () => expect(await outboxDb.list('u1')).toEqual([]))
+  })
+
+  it('reset (revoked session) clears the outbox in memory and on disk', async () => {
+    useAuthStore.getState().reset()
+    expect(useOutboxStore.getState().entries).toEqual({})
+    await vi.waitFor(async () => expect(await outboxDb.list('u1')).toEqual([]))
+  })
+})
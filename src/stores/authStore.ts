@@ -1,15 +1,25 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
 import type { User } from '@/lib/schemas'
-import { auth as authApi, ApiError } from '@/lib/api'
+import { auth as authApi, passkeys as passkeysApi, ApiError, type LoginSuccess, type TwoFactorChallenge } from '@/lib/api'
+import { getPasskeyAssertion } from '@/lib/webauthn'
 import { connectSocket, disconnectSocket } from '@/lib/socket'
+import { clearPersistedQueryCache } from '@/lib/queryPersist'
+import { unsubscribeFromPush } from '@/lib/pwa'
+import { useNotificationInboxStore } from '@/stores/notificationInboxStore'
+import { useOutboxStore } from '@/stores/outboxStore'
 
 interface AuthState {
   user: User | null
   isAuthenticated: boolean
   isLoading: boolean
 
-  login: (email: string, password: string) => Promise<void>
+  /** Resolves with a challenge token when the account needs a second factor */
+  login: (email: string, password: string) => Promise<{ challengeToken: string } | null>
+  verifyTwoFactor: (data: { challengeToken: string; code?: string; recoveryCode?: string }) => Promise<void>
+  loginWithPasskey: (email?: string) => Promise<void>
+  loginWithEmailCode: (data: { challengeId: string; code: string }) => Promise<{ challengeToken: string } | null>
+  loginWithMagicLink: (token: string) => Promise<{ challengeToken: string } | null>
   register: (data: { email: string; password: string; name: string; phone?: string }) => Promise<string>
   logout: () => Promise<void>
   setUser: (user: User) => void
@@ -18,6 +28,23 @@ interface AuthState {
   reset: () => void
 }
 
+type SetAuthState = (partial: Partial<AuthState>) => void
+
+/** Starts the session from a sign-in response, or hands back the 2FA challenge still to be answered */
+function applyLoginResponse(set: SetAuthState, res: LoginSuccess | TwoFactorChallenge) {
+  if (res.twoFactorRequired) {
+    set({ isLoading: false })
+    return { challengeToken: res.challengeToken }
+  }
+  set({
+    user: res.user,
+    isAuthenticated: true,
+    isLoading: false,
+  })
+  connectSocket()
+  return null
+}
+
 export const useAuthStore = create<AuthState>()(
   persist(
     (set) => ({
@@ -28,13 +55,49 @@ export const useAuthStore = create<AuthState>()(
       login: async (email, password) => {
         set({ isLoading: true })
         try {
-          const res = await authApi.login({ email, password })
-          set({
-            user: res.user,
-            isAuthenticated: true,
-            isLoading: false,
-          })
-          connectSocket()
+          return applyLoginResponse(set, await authApi.login({ email, password }))
+        } catch (err) {
+          set({ isLoading: false })
+          throw err
+        }
+      },
+
+      verifyTwoFactor: async (data) => {
+        set({ isLoading: true })
+        try {
+          applyLoginResponse(set, await authApi.verifyTwoFactor(data))
+        } catch (err) {
+          set({ isLoading: false })
+          throw err
+        }
+      },
+
+      loginWithPasskey: async (email) => {
+        set({ isLoading: true })
+        try {
+          const { challengeId, options } = await passkeysApi.loginOptions(email)
+          const credential = await getPasskeyAssertion(options)
+          applyLoginResponse(set, await passkeysApi.login({ challengeId, credential }))
+        } catch (err) {
+          set({ isLoading: false })
+          throw err
+        }
+      },
+
+      loginWithEmailCode: async (data) => {
+        set({ isLoading: true })
+        try {
+          return applyLoginResponse(set, await authApi.verifyEmailLogin(data))
+        } catch (err) {
+          set({ isLoading: false })
+          throw err
+        }
+      },
+
+      loginWithMagicLink: async (token) => {
+        set({ isLoading: true })
+        try {
+          return applyLoginResponse(set, await authApi.consumeMagicLink(token))
         } catch (err) {
           set({ isLoading: false })
           throw err
@@ -55,11 +118,16 @@ export const useAuthStore = create<AuthState>()(
 
       logout: async () => {
         try {
+          // Stop pushes to this device before the session that registered them ends
+          await unsubscribeFromPush().catch(() => {})
           await authApi.logout()
         } catch {
           return
         } finally {
           disconnectSocket()
+          clearPersistedQueryCache()
+          useNotificationInboxStore.getState().clear()
+          useOutboxStore.getState().clear()
           set({ user: null, isAuthenticated: false })
         }
       },
@@ -84,6 +152,9 @@ export const useAuthStore = create<AuthState>()(
 
       reset: () => {
         disconnectSocket()
+        clearPersistedQueryCache()
+        useNotificationInboxStore.getState().clear()
+        useOutboxStore.getState().clear()
         set({ user: null, isAuthenticated: false, isLoading: false })
       },
     }),
@@ -0,0 +1,53 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+
+export type InboxNotificationType = 'assigned' | 'transfer' | 'mention' | 'user_registered' | 'announcement'
+
+export interface InboxNotification {
+  id: string
+  type: InboxNotificationType
+  title: string
+  body: string
+  /** In-app route opened when the notification is clicked */
+  route: string
+  createdAt: number
+  read: boolean
+}
+
+const MAX_NOTIFICATIONS = 100
+
+interface NotificationInboxState {
+  /** Owner of `items` — a different account signing in on this browser starts empty */
+  userId: string | null
+  items: InboxNotification[]
+  record: (userId: string, notification: Omit<InboxNotification, 'createdAt' | 'read'>) => void
+  markRead: (id: string) => void
+  markAllRead: () => void
+  clear: () => void
+}
+
+export const useNotificationInboxStore = create<NotificationInboxState>()(
+  persist(
+    (set) => ({
+      userId: null,
+      items: [],
+      record: (userId, notification) =>
+        set((s) => {
+          const items = s.userId === userId ? s.items : []
+          // Socket events can be replayed on reconnect
+          if (items.some((n) => n.id === notification.id)) return s
+          return {
+            userId,
+            items: [{ ...notification, createdAt: Date.now(), read: false }, ...items].slice(0, MAX_NOTIFICATIONS),
+          }
+        }),
+      markRead: (id) => set((s) => ({ items: s.items.map((n) => (n.id === id ? { ...n, read: true } : n)) })),
+      markAllRead: () => set((s) => ({ items: s.items.map((n) => (n.read ? n : { ...n, read: true })) })),
+      clear: () => set({ userId: null, items: [] }),
+    }),
+    {
+      name: 'notification-inbox',
+      partialize: (state) => ({ userId: state.userId, items: state.items }),
+    },
+  ),
+)
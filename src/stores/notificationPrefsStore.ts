@@ -0,0 +1,43 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+
+export type NotificationEvent = 'message' | 'dm' | 'internal' | 'assigned'
+
+export interface EventPrefs {
+  /** Desktop alert + unread badge for this event */
+  enabled: boolean
+  sound: boolean
+}
+
+interface NotificationPrefsState {
+  /** Browser Notification API alerts while the tab is in the background */
+  desktop: boolean
+  /** Unread count in the tab title and favicon */
+  titleBadge: boolean
+  events: Record<NotificationEvent, EventPrefs>
+  setDesktop: (enabled: boolean) => void
+  setTitleBadge: (enabled: boolean) => void
+  setEventPrefs: (event: NotificationEvent, prefs: Partial<EventPrefs>) => void
+}
+
+export const useNotificationPrefsStore = create<NotificationPrefsState>()(
+  persist(
+    (set) => ({
+      desktop: false,
+      titleBadge: true,
+      events: {
+        message: { enabled: true, sound: true },
+        dm: { enabled: true, sound: true },
+        internal: { enabled: true, sound: false },
+        assigned: { enabled: true, sound: true },
+      },
+      setDesktop: (desktop) => set({ desktop }),
+      setTitleBadge: (titleBadge) => set({ titleBadge }),
+      setEventPrefs: (event, prefs) =>
+        set((s) => ({ events: { ...s.events, [event]: { ...s.events[event], ...prefs } } })),
+    }),
+    {
+      name: 'notification-prefs',
+    },
+  ),
+)
@@ -0,0 +1,61 @@
+import { create } from 'zustand'
+import { outboxDb, type OutboxEntry } from '@/lib/outbox'
+
+type OutboxPatch = Partial<Pick<OutboxEntry, 'state' | 'attempts' | 'targetId'>>
+
+interface OutboxStoreState {
+  entries: Record<string, OutboxEntry>
+  hydrate: (userId: string) => Promise<void>
+  enqueue: (entry: OutboxEntry) => void
+  update: (tempId: string, patch: OutboxPatch) => void
+  remove: (tempId: string) => void
+  reset: () => void
+  /** Drops every user's entries from memory and disk — on sign-out, so unsent text doesn't outlive the session */
+  clear: () => Promise<void>
+}
+
+// In-memory mirror of the IndexedDB outbox so bubbles can subscribe to their send state.
+// IndexedDB writes are best-effort: if storage is unavailable the outbox still works for the session.
+export const useOutboxStore = create<OutboxStoreState>((set, get) => ({
+  entries: {},
+
+  hydrate: async (userId) => {
+    const stored = await outboxDb.list(userId).catch(() => [] as OutboxEntry[])
+    const entries: Record<string, OutboxEntry> = {}
+    for (const entry of stored) {
+      // Anything that was in flight when the page closed has to go round again
+      entries[entry.tempId] = entry.state === 'sending' || entry.state === 'retrying' ? { ...entry, state: 'queued' } : entry
+    }
+    set((s) => ({ entries: { ...entries, ...s.entries } }))
+  },
+
+  enqueue: (entry) => {
+    set((s) => ({ entries: { ...s.entries, [entry.tempId]: entry } }))
+    outboxDb.put(entry).catch(() => {})
+  },
+
+  update: (tempId, patch) => {
+    const current = get().entries[tempId]
+    if (!current) return
+    const next = { ...current, ...patch }
+    set((s) => ({ entries: { ...s.entries, [tempId]: next } }))
+    outboxDb.put(next).catch(() => {})
+  },
+
+  remove: (tempId) => {
+    if (!get().entries[tempId]) return
+    set((s) => {
+      const entries = { ...s.entries }
+      delete entries[tempId]
+      return { entries }
+    })
+    outboxDb.remove(tempId).catch(() => {})
+  },
+
+  reset: () => set({ entries: {} }),
+
+  clear: () => {
+    set({ entries: {} })
+    return outboxDb.clear().catch(() => {})
+  },
+}))
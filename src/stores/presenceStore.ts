@@ -0,0 +1,14 @@
+import { create } from 'zustand'
+
+interface PresenceState {
+  /** Live `user:online` / `user:offline` events since connecting; overrides listing snapshots */
+  online: Record<string, boolean>
+  setOnline: (userId: string, online: boolean) => void
+  clear: () => void
+}
+
+export const usePresenceStore = create<PresenceState>((set) => ({
+  online: {},
+  setOnline: (userId, online) => set((s) => ({ online: { ...s.online, [userId]: online } })),
+  clear: () => set({ online: {} }),
+}))
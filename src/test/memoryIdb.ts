@@ -0,0 +1,25 @@
+// In-memory stand-in for '@/lib/idb' so tests can see exactly what would stay on disk:
+//   vi.mock('@/lib/idb', () => import('@/test/memoryIdb'))
+import type { IdbStore } from '@/lib/idb'
+
+/** Rows by database name, shared with every store the code under test creates */
+export const memoryDatabases = new Map<string, Map<IDBValidKey, unknown>>()
+
+export function createIdbStore<T>(dbName: string, _storeName: string, keyPath?: string): IdbStore<T> {
+  const rows = memoryDatabases.get(dbName) ?? new Map<IDBValidKey, unknown>()
+  memoryDatabases.set(dbName, rows)
+
+  const keyOf = (value: T, key?: IDBValidKey): IDBValidKey => {
+    if (key !== undefined) return key
+    if (!keyPath) throw new Error(`${dbName}: put() needs a key when the store has no keyPath`)
+    return (value as Record<string, IDBValidKey>)[keyPath]
+  }
+
+  return {
+    get: async (key) => rows.get(key) as T | undefined,
+    getAll: async () => [...rows.values()] as T[],
+    put: async (value, key) => { rows.set(keyOf(value, key), structuredClone(value)) },
+    delete: async (key) => { rows.delete(key) },
+    clear: async () => { rows.clear() },
+  }
+}
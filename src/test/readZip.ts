@@ -0,0 +1,57 @@
+// Just enough of a ZIP reader to check what createZip writes: walks the central directory
+// from the end record and cross-checks every entry against its local header.
+
+export interface ReadZipEntry {
+  name: string
+  flags: number
+  method: number
+  crc: number
+  size: number
+  offset: number
+  data: Uint8Array
+}
+
+export interface ReadZip {
+  entryCount: number
+  centralSize: number
+  centralOffset: number
+  entries: ReadZipEntry[]
+}
+
+export async function readZip(blob: Blob): Promise<ReadZip> {
+  const bytes = new Uint8Array(await blob.arrayBuffer())
+  const view = new DataView(bytes.buffer)
+  const decoder = new TextDecoder('utf-8', { fatal: true })
+
+  // createZip never writes an archive comment, so the end record is the last 22 bytes
+  const end = bytes.length - 22
+  if (view.getUint32(end, true) !== 0x06054b50) throw new Error('Missing end of central directory')
+  const entryCount = view.getUint16(end + 10, true)
+  if (view.getUint16(end + 8, true) !== entryCount) throw new Error('Entry counts disagree')
+  const centralSize = view.getUint32(end + 12, true)
+  const centralOffset = view.getUint32(end + 16, true)
+  if (centralOffset + centralSize !== end) throw new Error('Central directory does not end at the end record')
+
+  const entries: ReadZipEntry[] = []
+  let p = centralOffset
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(p, true) !== 0x02014b50) throw new Error(`Bad central header ${i}`)
+    const flags = view.getUint16(p + 8, true)
+    const method = view.getUint16(p + 10, true)
+    const crc = view.getUint32(p + 16, true)
+    const size = view.getUint32(p + 24, true)
+    const nameLength = view.getUint16(p + 28, true)
+    const offset = view.getUint32(p + 42, true)
+    const name = decoder.decode(bytes.subarray(p + 46, p + 46 + nameLength))
+    p += 46 + nameLength
+
+    if (view.getUint32(offset, true) !== 0x04034b50) throw new Error(`Bad local header for ${name}`)
+    const localNameLength = view.getUint16(offset + 26, true)
+    if (decoder.decode(bytes.subarray(offset + 30, offset + 30 + localNameLength)) !== name) throw new Error(`Local name differs for ${name}`)
+    if (view.getUint32(offset + 14, true) !== crc) throw new Error(`Local CRC differs for ${name}`)
+    const start = offset + 30 + localNameLength
+    entries.push({ name, flags, method, crc, size, offset, data: bytes.subarray(start, start + size) })
+  }
+
+  return { entryCount, centralSize, centralOffset, entries }
+}